@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { QUADRO_BOARD } from "../dartboard/dartboard-definition";
+import { parseCliArgs, parseSigma } from "./args";
+
+describe("parseSigma", () => {
+  it("parses a single value and a range", () => {
+    expect(parseSigma("30")).toEqual({ min: 30, max: 30, step: 1 });
+    expect(parseSigma("10:100:5")).toEqual({ min: 10, max: 100, step: 5 });
+  });
+
+  it("rejects malformed ranges", () => {
+    expect(() => parseSigma("10:100")).toThrow("min:max:step");
+    expect(() => parseSigma("100:10:5")).toThrow("positive step");
+    expect(() => parseSigma("10:x:5")).toThrow("must be a number");
+  });
+});
+
+describe("parseCliArgs", () => {
+  it("fills in defaults", () => {
+    const options = parseCliArgs(["expected", "--sigma", "30", "--out", "map.json"]);
+    expect(options).toMatchObject({
+      command: "expected",
+      throwShape: { aspectRatio: 1, correlation: 0 },
+      aimBias: { x: 0, y: 0 },
+      resolution: 500,
+      searchMode: "exhaustive",
+      format: "json",
+      out: "map.json",
+    });
+    expect(parseCliArgs(["expected", "--sigma", "30", "--out", "map.npy"])?.format).toBe("npy");
+  });
+
+  it("reads the throw model, board and format", () => {
+    const options = parseCliArgs([
+      "optimal",
+      "--sigma=10:100:5",
+      "--aspect=1.5",
+      "--rho=-0.2",
+      "--bias-x=3",
+      "--bias-y=-4",
+      "--board=quadro-240",
+      "--format=json",
+    ]);
+    expect(options).toMatchObject({
+      sigma: { min: 10, max: 100, step: 5 },
+      throwShape: { aspectRatio: 1.5, correlation: -0.2 },
+      aimBias: { x: 3, y: -4 },
+      dartboard: QUADRO_BOARD,
+      format: "json",
+    });
+  });
+
+  it("returns null for --help", () => {
+    expect(parseCliArgs(["--help"])).toBeNull();
+  });
+
+  it("explains what is wrong", () => {
+    expect(() => parseCliArgs(["expected"])).toThrow("--sigma is required");
+    expect(() => parseCliArgs(["aim", "--sigma", "30"])).toThrow('Unknown command "aim"');
+    expect(() => parseCliArgs(["expected", "--sigma", "10:20:5"])).toThrow("single --sigma");
+    expect(() => parseCliArgs(["optimal", "--sigma", "30", "--board", "x"])).toThrow(
+      'Unknown board "x"',
+    );
+    expect(() => parseCliArgs(["expected", "--sigma", "30", "--format", "npy"])).toThrow(
+      "npy output needs --out",
+    );
+    expect(() => parseCliArgs(["optimal", "--sigma", "30", "--format", "xml"])).toThrow(
+      "--format must be csv, json or npy",
+    );
+  });
+});
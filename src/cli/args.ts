@@ -0,0 +1,164 @@
+import { parseArgs } from "node:util";
+import { DartboardDef } from "../dartboard/dartboard-definition";
+import { getDartboards } from "../dartboard/dartboard-registry";
+import type { OptimalTargetSearchMode, SigmaRange } from "../optimal-target/OptimalTargetStore";
+import { AimBias, ThrowShape, clampCorrelation } from "../shared/throwModelAtom";
+
+export type CliCommand = "expected" | "optimal";
+
+export type OutputFormat = "csv" | "json" | "npy";
+
+export interface CliOptions {
+  command: CliCommand;
+  /** Horizontal sigma in mm; a single value has min equal to max */
+  sigma: SigmaRange;
+  throwShape: ThrowShape;
+  aimBias: AimBias;
+  /** Width and height of the computational canvas in pixels */
+  resolution: number;
+  dartboard: DartboardDef;
+  searchMode: OptimalTargetSearchMode;
+  format: OutputFormat;
+  /** File to write to; standard output if not given */
+  out?: string;
+}
+
+export const USAGE = `Usage: darts-aim <command> [options]
+
+Commands:
+  expected   Expected score for every aim point on the board
+  optimal    Best aim point for each sigma in a range
+
+Options:
+  --sigma <mm>            Horizontal standard deviation in mm, or min:max:step for optimal
+  --aspect <ratio>        Vertical to horizontal standard deviation ratio (default 1)
+  --rho <correlation>     Correlation between horizontal and vertical error (default 0)
+  --bias-x <mm>           Horizontal offset of the grouping from the aim point, positive right
+  --bias-y <mm>           Vertical offset of the grouping from the aim point, positive down
+  --resolution <pixels>   Width and height of the computational canvas (default 500)
+  --board <id>            Board to aim at (default regulation)
+  --search <mode>         exhaustive or hierarchical, for optimal (default exhaustive)
+  --format <format>       csv, json, or npy for expected (default from the --out extension,
+                          otherwise csv); npy also writes the metadata to a .json file
+  --out <file>            Write to a file instead of standard output
+  --help                  Show this message`;
+
+function parseNumber(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new Error(`--${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+/** Parse a single sigma ("30") or an inclusive range with a step ("10:100:5"), in mm */
+export function parseSigma(value: string): SigmaRange {
+  const parts = value.split(":").map((part) => parseNumber("sigma", part, NaN));
+  if (parts.length === 1) {
+    return { min: parts[0], max: parts[0], step: 1 };
+  }
+  if (parts.length !== 3) {
+    throw new Error(`--sigma must be a value or min:max:step, got "${value}"`);
+  }
+  const [min, max, step] = parts;
+  if (step <= 0 || max < min) {
+    throw new Error(`--sigma range must have min <= max and a positive step, got "${value}"`);
+  }
+  return { min, max, step };
+}
+
+/**
+ * Turn command line arguments (without the node and script paths) into options, throwing an
+ * error whose message explains what is wrong.
+ * @returns The options, or null if help was asked for
+ */
+export function parseCliArgs(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      sigma: { type: "string" },
+      aspect: { type: "string" },
+      rho: { type: "string" },
+      "bias-x": { type: "string" },
+      "bias-y": { type: "string" },
+      resolution: { type: "string" },
+      board: { type: "string" },
+      search: { type: "string" },
+      format: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) return null;
+
+  const [command, ...extra] = positionals;
+  if (command !== "expected" && command !== "optimal") {
+    throw new Error(command ? `Unknown command "${command}"` : "Missing command");
+  }
+  if (extra.length > 0) {
+    throw new Error(`Unexpected argument "${extra[0]}"`);
+  }
+
+  if (values.sigma === undefined) {
+    throw new Error("--sigma is required");
+  }
+  const sigma = parseSigma(values.sigma);
+  if (sigma.min <= 0) {
+    throw new Error("--sigma must be positive");
+  }
+  if (command === "expected" && sigma.min !== sigma.max) {
+    throw new Error("expected takes a single --sigma value, not a range");
+  }
+
+  const aspectRatio = parseNumber("aspect", values.aspect, 1);
+  if (aspectRatio <= 0) {
+    throw new Error("--aspect must be positive");
+  }
+
+  const resolution = parseNumber("resolution", values.resolution, 500);
+  if (!Number.isInteger(resolution) || resolution < 16) {
+    throw new Error("--resolution must be a whole number of at least 16");
+  }
+
+  const boardId = values.board ?? "regulation";
+  const dartboard = getDartboards().find((board) => board.id === boardId);
+  if (!dartboard) {
+    const ids = getDartboards().map((board) => board.id);
+    throw new Error(`Unknown board "${boardId}", expected one of ${ids.join(", ")}`);
+  }
+
+  const searchMode = values.search ?? "exhaustive";
+  if (searchMode !== "exhaustive" && searchMode !== "hierarchical") {
+    throw new Error(`--search must be exhaustive or hierarchical, got "${searchMode}"`);
+  }
+
+  const extension = values.out?.toLowerCase().match(/\.(json|npy)$/)?.[1];
+  const format = values.format ?? extension ?? "csv";
+  if (format !== "csv" && format !== "json" && format !== "npy") {
+    throw new Error(`--format must be csv, json or npy, got "${format}"`);
+  }
+  if (format === "npy" && command !== "expected") {
+    throw new Error("npy output is only available for expected");
+  }
+  if (format === "npy" && !values.out) {
+    throw new Error("npy output needs --out");
+  }
+
+  return {
+    command,
+    sigma,
+    throwShape: { aspectRatio, correlation: clampCorrelation(parseNumber("rho", values.rho, 0)) },
+    aimBias: {
+      x: parseNumber("bias-x", values["bias-x"], 0),
+      y: parseNumber("bias-y", values["bias-y"], 0),
+    },
+    resolution,
+    dartboard,
+    searchMode,
+    format,
+    out: values.out,
+  };
+}
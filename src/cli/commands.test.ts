@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { REGULATION_BOARD } from "../dartboard/dartboard-definition";
+import { CliOptions } from "./args";
+import { runExpected, runOptimal } from "./commands";
+
+const options: CliOptions = {
+  command: "optimal",
+  sigma: { min: 5, max: 10, step: 5 },
+  throwShape: { aspectRatio: 1, correlation: 0 },
+  aimBias: { x: 0, y: 0 },
+  resolution: 100,
+  dartboard: REGULATION_BOARD,
+  searchMode: "exhaustive",
+  format: "csv",
+};
+
+const expectedOptions: CliOptions = {
+  ...options,
+  command: "expected",
+  sigma: { min: 20, max: 20, step: 1 },
+};
+
+// Without navigator.gpu these run on the CPU backend
+describe("CLI commands", () => {
+  it("writes one CSV row per sigma", async () => {
+    const progress: number[] = [];
+    const [file] = await runOptimal(options, (done) => progress.push(done));
+    const lines = String(file.contents).trim().split("\n");
+    expect(lines[0]).toBe(
+      "sigma_mm,aim_x_mm,aim_y_mm,segment,centre_x_mm,centre_y_mm,expected_score",
+    );
+    expect(lines.slice(1).map((line) => line.split(",")[3])).toEqual(["T20", "T20"]);
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it("aims the grouping centre rather than the aim point when biased", async () => {
+    const [file] = await runOptimal({ ...options, format: "json", aimBias: { x: 10, y: 0 } });
+    const [first] = JSON.parse(String(file.contents)).results;
+    expect(first.aimXMm).toBeCloseTo(first.centreXMm - 10, 1);
+  });
+
+  it("writes the expected score map as a grid after its metadata", async () => {
+    const [file] = await runExpected(expectedOptions);
+    const lines = String(file.contents).trim().split("\n");
+    const rows = lines.filter((line) => !line.startsWith("#"));
+    expect(lines).toContain("# sigmaXMm: 20");
+    expect(rows).toHaveLength(100);
+    expect(rows.every((row) => row.split(",").length === 100)).toBe(true);
+  });
+
+  it("names the npy metadata after the output file", async () => {
+    const files = await runExpected({ ...expectedOptions, format: "npy", out: "out/map.npy" });
+    expect(files.map((file) => file.filename)).toEqual(["out/map.npy", "out/map.json"]);
+  });
+});
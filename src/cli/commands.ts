@@ -0,0 +1,119 @@
+import { DartboardDef, normaliseDartboard, pixelsToMm } from "../dartboard/dartboard-definition";
+import { getSegmentId, getSegmentInfo } from "../dartboard/dartboard-segments";
+import { ExpectedScoreState, ExpectedScoreStore } from "../expected-score/ExpectedScoreStore";
+import {
+  ExportedFile,
+  exportExpectedScoreMap,
+  getExpectedScoreMapMetadata,
+} from "../expected-score/export-map";
+import { OptimalTargetResult, OptimalTargetStore } from "../optimal-target/OptimalTargetStore";
+import { getThrowModel, getThrowModelPixels } from "../shared/throwModelAtom";
+import type { CliOptions } from "./args";
+
+/** A canvas pixel coordinate as mm from the board centre */
+function toMm(pixel: number, resolution: number, dartboard: DartboardDef): number {
+  return pixelsToMm(pixel - resolution / 2, resolution, dartboard);
+}
+
+/** Short name of the segment under a canvas pixel position, e.g. T20 */
+function segmentAt(x: number, y: number, resolution: number, dartboard: DartboardDef): string {
+  const toNormalised = (value: number) => (value / resolution) * 2 - 1;
+  const id = getSegmentId(toNormalised(x), toNormalised(y), normaliseDartboard(dartboard));
+  return getSegmentInfo(id, dartboard).shortName;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Expected score for every aim point at a single sigma, with the map's metadata, in the
+ * requested format. The first file is the map; npy output adds the metadata as a second file
+ * named after --out.
+ */
+export async function runExpected(options: CliOptions): Promise<ExportedFile[]> {
+  const { resolution, dartboard } = options;
+  const throwModel = getThrowModel(options.sigma.min, options.throwShape, options.aimBias);
+
+  const store = new ExpectedScoreStore(resolution);
+  let state: Partial<ExpectedScoreState> = {};
+  await store.computeExpectedScore(
+    { ...getThrowModelPixels(throwModel, resolution, dartboard), dartboard },
+    (update) => {
+      state = { ...state, ...update };
+    },
+  );
+
+  const { resultData, resultParams, highestScorePosition, highestScore } = state;
+  if (!resultData || !resultParams || !highestScorePosition || highestScore == null) {
+    throw new Error("Expected score computation produced no result");
+  }
+
+  const metadata = getExpectedScoreMapMetadata(resolution, resultParams, {
+    ...highestScorePosition,
+    expectedScore: highestScore,
+  });
+  const basename = options.out?.replace(/\.[^./\\]*$/, "") ?? "expected-score";
+  return exportExpectedScoreMap(resultData, metadata, options.format, basename);
+}
+
+/**
+ * Best aim point for each sigma in the range, one row per sigma, as CSV or JSON.
+ * @param onProgress - Called with the number of sigma values done so far
+ */
+export async function runOptimal(
+  options: CliOptions,
+  onProgress?: (done: number) => void,
+): Promise<ExportedFile[]> {
+  const { resolution, dartboard } = options;
+
+  const store = new OptimalTargetStore(resolution, dartboard, options.searchMode);
+  await store.initialize();
+
+  let results: OptimalTargetResult[] = [];
+  await store.computeAllOptimalTargets(
+    options.sigma,
+    (state) => {
+      if (state.results && state.results.length > results.length) {
+        results = state.results;
+        onProgress?.(results.length);
+      }
+    },
+    options.throwShape,
+  );
+
+  const rows = results.map((result) => {
+    const target = store.compensateForAimBias(result, options.aimBias);
+    return {
+      sigmaMm: result.sigma,
+      aimXMm: round(toMm(target.aimX, resolution, dartboard), 2),
+      aimYMm: round(toMm(target.aimY, resolution, dartboard), 2),
+      segment: segmentAt(target.aimX, target.aimY, resolution, dartboard),
+      centreXMm: round(toMm(target.x, resolution, dartboard), 2),
+      centreYMm: round(toMm(target.y, resolution, dartboard), 2),
+      expectedScore: target.expectedScore === undefined ? null : round(target.expectedScore, 4),
+    };
+  });
+
+  if (options.format === "csv") {
+    const header = "sigma_mm,aim_x_mm,aim_y_mm,segment,centre_x_mm,centre_y_mm,expected_score";
+    const lines = rows.map((row) => Object.values(row).join(","));
+    const contents = [header, ...lines].join("\n") + "\n";
+    return [{ filename: options.out ?? "optimal-targets.csv", mimeType: "text/csv", contents }];
+  }
+
+  const output = {
+    board: dartboard.id,
+    resolution,
+    aspectRatio: options.throwShape.aspectRatio,
+    correlation: options.throwShape.correlation,
+    biasXMm: options.aimBias.x,
+    biasYMm: options.aimBias.y,
+    results: rows,
+  };
+  return [
+    {
+      filename: options.out ?? "optimal-targets.json",
+      mimeType: "application/json",
+      contents: JSON.stringify(output, null, 2) + "\n",
+    },
+  ];
+}
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+// Command line entry point, built with `pnpm build:cli`. See USAGE in args.ts.
+import { writeFile } from "node:fs/promises";
+import { getComputeBackend } from "../compute/compute-backend";
+import { deviceManager } from "../webgpu/device-manager";
+import { USAGE, parseCliArgs } from "./args";
+import { runExpected, runOptimal } from "./commands";
+import { installNodeWebGpu } from "./node-webgpu";
+
+async function main(argv: string[]): Promise<number> {
+  let options;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 1;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  await installNodeWebGpu();
+  const backend = await getComputeBackend();
+  console.error(backend.kind === "webgpu" ? "Computing on WebGPU" : "Computing on the CPU");
+
+  const { min, max, step } = options.sigma;
+  const sigmaCount = Math.floor((max - min) / step + 1e-9) + 1;
+
+  try {
+    const [file, ...sidecars] =
+      options.command === "expected"
+        ? await runExpected(options)
+        : await runOptimal(options, (done) =>
+            console.error(`  ${done} of ${sigmaCount} sigma values`),
+          );
+
+    if (options.out) {
+      await writeFile(options.out, file.contents);
+      console.error(`Wrote ${options.out}`);
+      for (const sidecar of sidecars) {
+        await writeFile(sidecar.filename, sidecar.contents);
+        console.error(`Wrote ${sidecar.filename}`);
+      }
+    } else {
+      process.stdout.write(file.contents);
+    }
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  } finally {
+    // Dawn keeps the process alive until its device is released
+    (await deviceManager.getDevice().catch(() => undefined))?.destroy();
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,16 @@
+/**
+ * Expose the Dawn bindings from the webgpu package as navigator.gpu, as a browser would, so the
+ * stores can find a device. If the bindings don't load on this platform navigator.gpu is left
+ * undefined and the stores compute on the CPU instead.
+ */
+export async function installNodeWebGpu(): Promise<void> {
+  let gpu: GPU | undefined;
+  try {
+    const webgpu = await import("webgpu");
+    Object.assign(globalThis, webgpu.globals);
+    gpu = webgpu.create([]);
+  } catch (error) {
+    console.warn("WebGPU is not available:", error instanceof Error ? error.message : error);
+  }
+  Object.defineProperty(globalThis, "navigator", { value: { gpu }, configurable: true });
+}
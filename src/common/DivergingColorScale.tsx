@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from "react";
+import { getDivergingColor } from "../webgpu/diverging";
+
+interface DivergingColorScaleProps {
+  height: number;
+  width?: number;
+  /** Largest magnitude shown; the scale runs from -maxAbs to +maxAbs */
+  maxAbs: number;
+  /** What positive and negative values mean, shown beside each end */
+  positiveLabel?: string;
+  negativeLabel?: string;
+  className?: string;
+}
+
+const formatSigned = (value: number) =>
+  `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(value).toFixed(1)}`;
+
+export const DivergingColorScale: React.FC<DivergingColorScaleProps> = ({
+  height,
+  width = 30,
+  maxAbs,
+  positiveLabel,
+  negativeLabel,
+  className = "",
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const imageData = ctx.createImageData(width, height);
+    for (let y = 0; y < height; y++) {
+      const color = getDivergingColor(1 - (2 * y) / height);
+      for (let x = 0; x < width; x++) {
+        const idx = (y * width + x) * 4;
+        imageData.data[idx] = color.r;
+        imageData.data[idx + 1] = color.g;
+        imageData.data[idx + 2] = color.b;
+        imageData.data[idx + 3] = 255;
+      }
+    }
+    ctx.putImageData(imageData, 0, 0);
+  }, [height, width]);
+
+  const labelClass = "absolute text-xs font-bold whitespace-nowrap";
+
+  return (
+    <div className={`flex items-center relative max-h-[90vh] h-auto ${className}`}>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="border border-gray-300 max-h-[90vh] w-auto h-auto"
+      />
+      <div className={`${labelClass} top-0`} style={{ left: width + 10 }}>
+        {formatSigned(maxAbs)}
+        {positiveLabel && <div className="font-normal text-gray-600">{positiveLabel}</div>}
+      </div>
+      <div className={`${labelClass} top-1/2 -translate-y-1/2`} style={{ left: width + 10 }}>
+        0
+      </div>
+      <div className={`${labelClass} bottom-0`} style={{ left: width + 10 }}>
+        {negativeLabel && <div className="font-normal text-gray-600">{negativeLabel}</div>}
+        {formatSigned(-maxAbs)}
+      </div>
+    </div>
+  );
+};
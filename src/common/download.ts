@@ -0,0 +1,10 @@
+/** Save a file through the browser's download prompt */
+export function downloadFile(filename: string, mimeType: string, contents: BlobPart): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // The download has started by the time click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
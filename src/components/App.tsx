@@ -1,8 +1,13 @@
 import React, { useEffect, useState } from "react";
 import { Dartboard } from "../dartboard/Dartboard";
 import { ExpectedScore } from "../expected-score/ExpectedScore";
+import { CheckoutAdvisor } from "../game-strategy/CheckoutAdvisor";
+import { CricketAdvisor } from "../game-strategy/CricketAdvisor";
 import { HitDistribution } from "../hit-distribution/HitDistribution";
+import { useInitialPermalink, usePermalinkSync } from "../hooks/usePermalinkSync";
 import { OptimalTarget } from "../optimal-target/OptimalTarget";
+import { PlayerComparison } from "../player-comparison/PlayerComparison";
+import { PlayerProfiles } from "../profiles/PlayerProfiles";
 import { ScoreDistribution } from "../score-distribution/ScoreDistribution";
 import { WebGPUBanner } from "./WebGPUBanner";
 
@@ -11,7 +16,10 @@ type TabName =
   | "score-distribution"
   | "dartboard"
   | "expected-score"
-  | "optimal-target";
+  | "optimal-target"
+  | "checkout"
+  | "cricket"
+  | "compare-players";
 
 interface Tab {
   id: TabName;
@@ -25,15 +33,24 @@ const tabs: Tab[] = [
   { id: "score-distribution", label: "3. Score Distribution", component: ScoreDistribution },
   { id: "expected-score", label: "4. Expected Score", component: ExpectedScore },
   { id: "optimal-target", label: "5. Skill Explorer", component: OptimalTarget },
+  { id: "checkout", label: "6. Checkout Advisor", component: CheckoutAdvisor },
+  { id: "cricket", label: "7. Cricket Advisor", component: CricketAdvisor },
+  { id: "compare-players", label: "8. Compare Players", component: PlayerComparison },
 ];
 
 export const App: React.FC = () => {
+  const initialPermalink = useInitialPermalink();
   const [activeTab, setActiveTab] = useState<TabName>(() => {
+    // A shared link wins over the tab this browser last had open
+    const linkedTab = tabs.find((tab) => tab.id === initialPermalink.tab);
+    if (linkedTab) return linkedTab.id;
     const savedTab = localStorage.getItem("webgpu-dartboard-active-tab");
     return (savedTab as TabName) || "dartboard";
   });
   const [webGPUSupported, setWebGPUSupported] = useState(true);
 
+  usePermalinkSync(activeTab);
+
   useEffect(() => {
     localStorage.setItem("webgpu-dartboard-active-tab", activeTab);
   }, [activeTab]);
@@ -64,6 +81,8 @@ export const App: React.FC = () => {
         </a>
       </div>
 
+      <PlayerProfiles />
+
       <div className="mb-5">
         {tabs.map((tab) => (
           <button
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { REGULATION_BOARD } from "../dartboard/dartboard-definition";
+import type { ExpectedScoreParams } from "../expected-score/ExpectedScoreStore";
+import type { SegmentProbabilitiesParams } from "../hit-distribution/segment-probabilities";
+import { createInlineWorker } from "../test/inline-worker";
+import { cleanupWebGPU, initWebGPU } from "../test/webgpu-setup";
+import type { DartsComputeBackend, SweepParams } from "./compute-backend";
+import { cpuBackend } from "./cpu-backend";
+import { createWebGpuBackend } from "./webgpu-backend";
+import { createWorkerBackend } from "./worker-backend";
+
+const MAP_WIDTH = 64;
+
+const hitParams: SegmentProbabilitiesParams = {
+  width: 128,
+  height: 128,
+  targetX: 0.1,
+  targetY: -0.4,
+  sigmaX: 6,
+  sigmaY: 9,
+  rho: 0.4,
+  biasX: 2,
+  biasY: -1,
+};
+
+// One uncorrelated and one correlated throw, so both the blur and the FFT paths are covered
+const scoreParams: ExpectedScoreParams[] = [
+  { sigmaX: 2, sigmaY: 3, rho: 0, biasX: 0, biasY: 0, dartboard: REGULATION_BOARD },
+  { sigmaX: 3, sigmaY: 2, rho: -0.5, biasX: 1, biasY: 2, dartboard: REGULATION_BOARD },
+];
+
+const sweepParams: SweepParams = {
+  sigmas: [1, 3, 6],
+  throwShape: { aspectRatio: 1.5, correlation: 0.3 },
+  dartboard: REGULATION_BOARD,
+};
+
+function maxAbsDifference(a: Float32Array, b: Float32Array): number {
+  expect(a.length).toBe(b.length);
+  return a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0);
+}
+
+/** Checks a backend against the CPU backend, which serves as the reference implementation */
+function describeConformance(name: string, getBackend: () => DartsComputeBackend) {
+  describe(`${name} matches the CPU backend`, () => {
+    it("hit distribution", async () => {
+      const [actual, reference] = await Promise.all([
+        getBackend().hitDistribution(hitParams),
+        cpuBackend.hitDistribution(hitParams),
+      ]);
+      const peak = reference.hitData.reduce((a, b) => Math.max(a, b), 0);
+      expect(maxAbsDifference(actual.hitData, reference.hitData)).toBeLessThan(peak * 1e-4);
+      const total = reference.segmentSums.reduce((a, b) => a + b, 0);
+      expect(maxAbsDifference(actual.segmentSums, reference.segmentSums)).toBeLessThan(
+        total * 1e-4,
+      );
+    });
+
+    it("segment probabilities", async () => {
+      const [actual, reference] = await Promise.all([
+        getBackend().segmentProbabilities(hitParams),
+        cpuBackend.segmentProbabilities(hitParams),
+      ]);
+      expect(maxAbsDifference(actual, reference)).toBeLessThan(1e-4);
+    });
+
+    it.each(scoreParams)("expected score map with rho $rho", async (params) => {
+      const [actual, reference] = await Promise.all([
+        getBackend().expectedScoreMap(MAP_WIDTH, params),
+        cpuBackend.expectedScoreMap(MAP_WIDTH, params),
+      ]);
+      expect(maxAbsDifference(actual, reference)).toBeLessThan(1e-2);
+    });
+
+    it.each(scoreParams)("optimal target with rho $rho", async (params) => {
+      const [actual, reference] = await Promise.all([
+        getBackend().optimalTarget(MAP_WIDTH, params),
+        cpuBackend.optimalTarget(MAP_WIDTH, params),
+      ]);
+      expect(Math.hypot(actual.x - reference.x, actual.y - reference.y)).toBeLessThan(0.5);
+      expect(actual.expectedScore).toBeCloseTo(reference.expectedScore, 2);
+    });
+
+    it("sweep", async () => {
+      const [actual, reference] = await Promise.all([
+        getBackend().sweep(MAP_WIDTH, sweepParams),
+        cpuBackend.sweep(MAP_WIDTH, sweepParams),
+      ]);
+      expect(actual.map((point) => point.sigma)).toEqual(sweepParams.sigmas);
+      actual.forEach((point, i) => {
+        expect(Math.hypot(point.x - reference[i].x, point.y - reference[i].y)).toBeLessThan(0.5);
+        expect(point.expectedScore).toBeCloseTo(reference[i].expectedScore, 2);
+      });
+    });
+  });
+}
+
+describeConformance("Worker backend", () => createWorkerBackend(createInlineWorker(cpuBackend)));
+
+describe("WebGPU backend", () => {
+  let backend: DartsComputeBackend;
+
+  beforeAll(async () => {
+    const { device } = await initWebGPU();
+    backend = createWebGpuBackend(device);
+  });
+
+  afterAll(async () => {
+    await cleanupWebGPU();
+  });
+
+  describeConformance("WebGPU backend", () => backend);
+});
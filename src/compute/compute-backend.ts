@@ -0,0 +1,100 @@
+import type { DartboardDef } from "../dartboard/dartboard-definition";
+import type { ExpectedScoreParams } from "../expected-score/ExpectedScoreStore";
+import type {
+  SegmentProbabilitiesParams,
+  SegmentProbabilityFn,
+} from "../hit-distribution/segment-probabilities";
+import type { ThrowShape } from "../shared/throwModelAtom";
+import { deviceManager } from "../webgpu/device-manager";
+import { cpuBackend } from "./cpu-backend";
+import { createWebGpuBackend } from "./webgpu-backend";
+import { createWorkerBackend } from "./worker-backend";
+
+/** Where a backend runs its computations */
+export type ComputeBackendKind = "webgpu" | "cpu";
+
+export interface HitDistributionResult {
+  /** Density of the throw distribution at each pixel, row by row */
+  hitData: Float32Array;
+  /** Density summed over each segment, indexed by segment id */
+  segmentSums: Float32Array;
+}
+
+/** The best aim point on a canvas, refined to between pixels */
+export interface OptimalTargetPoint {
+  x: number; // X position in canvas pixels
+  y: number; // Y position in canvas pixels
+  expectedScore: number;
+}
+
+export interface SweepParams {
+  /** Horizontal standard deviations to find the optimal target for, in pixels */
+  sigmas: number[];
+  /** Ratio of vertical to horizontal sigma and their correlation, the same for every sigma */
+  throwShape: ThrowShape;
+  dartboard: DartboardDef;
+}
+
+/** The optimal grouping centre for one sigma of a sweep */
+export interface SweepPoint extends OptimalTargetPoint {
+  sigma: number; // Horizontal sigma in pixels
+}
+
+/**
+ * The analyses behind every tab, implemented both on the GPU and on the CPU so that browsers
+ * without WebGPU still get results, just more slowly.
+ */
+export interface DartsComputeBackend {
+  readonly kind: ComputeBackendKind;
+  /** Where darts land around the target, and how much of that falls in each segment */
+  hitDistribution(params: SegmentProbabilitiesParams): Promise<HitDistributionResult>;
+  /** Probability of hitting each segment, indexed by segment id and summing to 1 */
+  segmentProbabilities(params: SegmentProbabilitiesParams): Promise<Float32Array>;
+  /** Expected score for every aim point on a width × width canvas, row by row */
+  expectedScoreMap(width: number, params: ExpectedScoreParams): Promise<Float32Array>;
+  /** Aim point with the highest expected score on a width × width canvas */
+  optimalTarget(width: number, params: ExpectedScoreParams): Promise<OptimalTargetPoint>;
+  /**
+   * Optimal grouping centre on a width × width canvas for each sigma in turn, with no aim bias.
+   * @param onProgress - Called with the points found so far after each sigma
+   */
+  sweep(
+    width: number,
+    params: SweepParams,
+    onProgress?: (points: SweepPoint[]) => void,
+  ): Promise<SweepPoint[]>;
+  /**
+   * Free the resources cached between computations on a width × width canvas that no computation
+   * is using; they are recreated when needed
+   */
+  releaseResources(width: number): void;
+}
+
+let cpuFallback: DartsComputeBackend | null = null;
+
+/**
+ * Compute on the shared GPU device where there is one, otherwise on the CPU in a Web Worker so
+ * the page stays responsive.
+ */
+export async function getComputeBackend(): Promise<DartsComputeBackend> {
+  const device = await deviceManager.getDevice().catch(() => undefined);
+  if (device) return createWebGpuBackend(device);
+
+  if (typeof Worker === "undefined") return cpuBackend;
+
+  if (!cpuFallback) {
+    // A failed worker is dropped, so the next call starts a fresh one
+    const worker = new Worker(new URL("./cpu-worker.ts", import.meta.url), { type: "module" });
+    cpuFallback = createWorkerBackend(worker, () => {
+      worker.terminate();
+      cpuFallback = null;
+    });
+  }
+  return cpuFallback;
+}
+
+/** Segment probabilities from the compute backend, which without a GPU runs them in a worker */
+export async function getSegmentProbabilityFn(): Promise<SegmentProbabilityFn> {
+  const backend = await getComputeBackend();
+  return (params) => backend.segmentProbabilities(params);
+}
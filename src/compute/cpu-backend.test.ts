@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  REGULATION_BOARD,
+  mmToPixels,
+  normaliseDartboard,
+} from "../dartboard/dartboard-definition";
+import { MISS_SEGMENT, getSegmentId } from "../dartboard/dartboard-segments";
+import type { ExpectedScoreParams } from "../expected-score/ExpectedScoreStore";
+import { ISOTROPIC_THROW_SHAPE } from "../shared/throwModelAtom";
+import { createInlineWorker } from "../test/inline-worker";
+import type { DartsComputeBackend } from "./compute-backend";
+import { cpuBackend } from "./cpu-backend";
+import { ComputeWorker, createWorkerBackend } from "./worker-backend";
+
+const params: ExpectedScoreParams = {
+  sigmaX: 1,
+  sigmaY: 1,
+  rho: 0,
+  biasX: 0,
+  biasY: 0,
+  dartboard: REGULATION_BOARD,
+};
+
+describe("CPU backend", () => {
+  it("aims a tight grouping at the treble 20", async () => {
+    const width = 200;
+    const best = await cpuBackend.optimalTarget(width, params);
+    const toNormalised = (value: number) => (value / width) * 2 - 1;
+    const segment = getSegmentId(
+      toNormalised(best.x),
+      toNormalised(best.y),
+      normaliseDartboard(REGULATION_BOARD),
+    );
+    expect(segment).toBe(25); // T20
+    expect(best.expectedScore).toBeGreaterThan(30);
+  });
+
+  it("segment probabilities sum to 1", async () => {
+    const probabilities = await cpuBackend.segmentProbabilities({
+      width: 100,
+      height: 100,
+      targetX: 0,
+      targetY: -0.3,
+      sigmaX: 8,
+      sigmaY: 12,
+      rho: 0.3,
+    });
+    expect(probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 5);
+  });
+
+  it("counts throws that land off the canvas as misses", async () => {
+    const width = 200;
+    const sigma = mmToPixels(150, width);
+    const probabilities = await cpuBackend.segmentProbabilities({
+      width,
+      height: width,
+      targetX: 0,
+      targetY: 0,
+      sigmaX: sigma,
+      sigmaY: sigma,
+    });
+
+    // An isotropic Gaussian puts exp(-r²/2σ²) of its mass beyond radius r
+    const { centerToOuterDouble } = REGULATION_BOARD;
+    const expectedMiss = Math.exp(-(centerToOuterDouble ** 2) / (2 * 150 ** 2));
+    expect(probabilities[MISS_SEGMENT]).toBeCloseTo(expectedMiss, 2);
+    expect(probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 5);
+  });
+});
+
+describe("Worker backend", () => {
+  it("returns the same results as the backend it wraps", async () => {
+    const backend = createWorkerBackend(createInlineWorker(cpuBackend));
+    expect(backend.kind).toBe("cpu");
+
+    const [viaWorker, direct] = await Promise.all([
+      backend.expectedScoreMap(32, { ...params, sigmaX: 3, sigmaY: 4, rho: 0.2 }),
+      cpuBackend.expectedScoreMap(32, { ...params, sigmaX: 3, sigmaY: 4, rho: 0.2 }),
+    ]);
+    expect(viaWorker).toEqual(direct);
+  });
+
+  it("reports sweep progress after each sigma", async () => {
+    const backend = createWorkerBackend(createInlineWorker(cpuBackend));
+    const progress: number[] = [];
+    const points = await backend.sweep(
+      32,
+      {
+        sigmas: [1, 2, 4],
+        throwShape: ISOTROPIC_THROW_SHAPE,
+        dartboard: REGULATION_BOARD,
+      },
+      (pointsSoFar) => progress.push(pointsSoFar.length),
+    );
+    expect(progress).toEqual([1, 2, 3]);
+    expect(points.map((point) => point.sigma)).toEqual([1, 2, 4]);
+  });
+
+  it("passes errors back", async () => {
+    const failing: DartsComputeBackend = {
+      ...cpuBackend,
+      optimalTarget: async () => {
+        throw new Error("out of memory");
+      },
+    };
+    const backend = createWorkerBackend(createInlineWorker(failing));
+    await expect(backend.optimalTarget(32, params)).rejects.toThrow("out of memory");
+  });
+
+  it("rejects waiting requests when the worker fails", async () => {
+    const target = new EventTarget();
+    const worker = {
+      addEventListener: target.addEventListener.bind(target),
+      postMessage: () => {},
+    } as unknown as ComputeWorker;
+    const onFailure = vi.fn();
+    const backend = createWorkerBackend(worker, onFailure);
+
+    const result = backend.optimalTarget(32, params);
+    target.dispatchEvent(new Event("messageerror"));
+
+    await expect(result).rejects.toThrow("Compute worker sent an unreadable reply");
+    expect(onFailure).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,51 @@
+import type { ExpectedScoreParams } from "../expected-score/ExpectedScoreStore";
+import {
+  computeBlurredExpectedScoreMap,
+  computeExpectedScoreMap,
+} from "../expected-score/expected-score-map";
+import {
+  computeSegmentProbabilities,
+  toSegmentProbabilities,
+} from "../hit-distribution/segment-probabilities";
+import { findGridMaximum } from "../shared/subpixel";
+import type { DartsComputeBackend } from "./compute-backend";
+import { sweepOptimalTargets } from "./sweep";
+
+/**
+ * Expected scores on the CPU, choosing the algorithm the same way as ExpectedScoreStore: the
+ * separable blur when there is no correlation, otherwise the FFT convolution.
+ */
+function computeCpuExpectedScoreMap(width: number, params: ExpectedScoreParams): Float32Array {
+  return params.rho === 0
+    ? computeBlurredExpectedScoreMap(width, params)
+    : computeExpectedScoreMap(width, params);
+}
+
+/** Every analysis in double precision on the calling thread */
+export const cpuBackend: DartsComputeBackend = {
+  kind: "cpu",
+
+  async hitDistribution(params) {
+    const { hitData, segmentSums } = computeSegmentProbabilities(params);
+    return { hitData, segmentSums };
+  },
+
+  async segmentProbabilities(params) {
+    return toSegmentProbabilities(computeSegmentProbabilities(params).segmentSums, params);
+  },
+
+  async expectedScoreMap(width, params) {
+    return computeCpuExpectedScoreMap(width, params);
+  },
+
+  async optimalTarget(width, params) {
+    const peak = findGridMaximum(computeCpuExpectedScoreMap(width, params), width, width);
+    return { x: peak.x, y: peak.y, expectedScore: peak.value };
+  },
+
+  async sweep(width, params, onProgress) {
+    return sweepOptimalTargets(cpuBackend.optimalTarget, width, params, onProgress);
+  },
+
+  releaseResources() {},
+};
@@ -0,0 +1,9 @@
+// Web Worker entry point for the CPU backend, loaded by getComputeBackend
+import { cpuBackend } from "./cpu-backend";
+import { ComputeRequest, handleComputeRequest } from "./worker-backend";
+
+self.addEventListener("message", async (event: MessageEvent<ComputeRequest>) => {
+  await handleComputeRequest(cpuBackend, event.data, (response, transfer) =>
+    self.postMessage(response, { transfer }),
+  );
+});
@@ -0,0 +1,24 @@
+import type { DartsComputeBackend, SweepParams, SweepPoint } from "./compute-backend";
+
+/** A sweep made of one optimalTarget call per sigma, shared by the backends */
+export async function sweepOptimalTargets(
+  optimalTarget: DartsComputeBackend["optimalTarget"],
+  width: number,
+  { sigmas, throwShape, dartboard }: SweepParams,
+  onProgress?: (points: SweepPoint[]) => void,
+): Promise<SweepPoint[]> {
+  const points: SweepPoint[] = [];
+  for (const sigma of sigmas) {
+    const best = await optimalTarget(width, {
+      sigmaX: sigma,
+      sigmaY: sigma * throwShape.aspectRatio,
+      rho: throwShape.correlation,
+      biasX: 0,
+      biasY: 0,
+      dartboard,
+    });
+    points.push({ sigma, ...best });
+    onProgress?.([...points]);
+  }
+  return points;
+}
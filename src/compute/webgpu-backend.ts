@@ -0,0 +1,57 @@
+import type { ExpectedScoreParams } from "../expected-score/ExpectedScoreStore";
+import {
+  runExpectedScoreBlurShader,
+  runExpectedScoreFftShader,
+} from "../expected-score/expected-score-map";
+import {
+  runSegmentProbabilitiesShader,
+  toSegmentProbabilities,
+} from "../hit-distribution/segment-probabilities";
+import { findGridMaximum } from "../shared/subpixel";
+import { getResourceCache } from "../webgpu/resource-cache";
+import type { DartsComputeBackend, OptimalTargetPoint } from "./compute-backend";
+import { sweepOptimalTargets } from "./sweep";
+
+/** Every analysis on the given device */
+export function createWebGpuBackend(device: GPUDevice): DartsComputeBackend {
+  const expectedScoreMap = async (width: number, params: ExpectedScoreParams) => {
+    // A diagonal covariance separates into two one-dimensional blurs, cheaper than the FFT
+    const runShader = params.rho === 0 ? runExpectedScoreBlurShader : runExpectedScoreFftShader;
+    const { result, resultBuffer } = await runShader(device, width, params);
+    resultBuffer.destroy();
+    return result;
+  };
+
+  const optimalTarget = async (
+    width: number,
+    params: ExpectedScoreParams,
+  ): Promise<OptimalTargetPoint> => {
+    const peak = findGridMaximum(await expectedScoreMap(width, params), width, width);
+    return { x: peak.x, y: peak.y, expectedScore: peak.value };
+  };
+
+  return {
+    kind: "webgpu",
+
+    async hitDistribution(params) {
+      const { hitData, segmentSums } = await runSegmentProbabilitiesShader(device, params);
+      return { hitData, segmentSums };
+    },
+
+    async segmentProbabilities(params) {
+      const { segmentSums } = await runSegmentProbabilitiesShader(device, params);
+      return toSegmentProbabilities(segmentSums, params);
+    },
+
+    expectedScoreMap,
+
+    optimalTarget,
+
+    sweep: (width, params, onProgress) =>
+      sweepOptimalTargets(optimalTarget, width, params, onProgress),
+
+    releaseResources(width) {
+      getResourceCache(device).releaseBuffers(width);
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import type { DartsComputeBackend, SweepPoint } from "./compute-backend";
+
+/** The backend methods that can be called across a worker boundary */
+export type ComputeMethod = Exclude<keyof DartsComputeBackend, "kind">;
+
+export interface ComputeRequest {
+  id: number;
+  method: ComputeMethod;
+  args: unknown[];
+}
+
+export type ComputeResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string }
+  | { id: number; progress: SweepPoint[] };
+
+/** The parts of a Worker the backend talks through */
+export type ComputeWorker = Pick<Worker, "postMessage" | "addEventListener">;
+
+/**
+ * A CPU backend whose computations run in a worker (see cpu-worker.ts). Requests can overlap;
+ * the worker answers them in order. If the worker fails, every request still waiting is rejected
+ * and onFailure is called so a new worker can be started.
+ */
+export function createWorkerBackend(
+  worker: ComputeWorker,
+  onFailure?: () => void,
+): DartsComputeBackend {
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    {
+      resolve: (result: unknown) => void;
+      reject: (error: Error) => void;
+      onProgress?: (points: SweepPoint[]) => void;
+    }
+  >();
+
+  worker.addEventListener("message", (event: MessageEvent<ComputeResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    if ("progress" in response) {
+      request.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  });
+
+  const fail = (message: string) => {
+    for (const { reject } of pending.values()) {
+      reject(new Error(message));
+    }
+    pending.clear();
+    onFailure?.();
+  };
+  worker.addEventListener("error", (event) =>
+    fail(`Compute worker failed${event.message ? `: ${event.message}` : ""}`),
+  );
+  worker.addEventListener("messageerror", () => fail("Compute worker sent an unreadable reply"));
+
+  const call = <T>(
+    method: ComputeMethod,
+    args: unknown[],
+    onProgress?: (points: SweepPoint[]) => void,
+  ) =>
+    new Promise<T>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+      worker.postMessage({ id, method, args } satisfies ComputeRequest);
+    });
+
+  return {
+    kind: "cpu",
+    hitDistribution: (params) => call("hitDistribution", [params]),
+    segmentProbabilities: (params) => call("segmentProbabilities", [params]),
+    expectedScoreMap: (width, params) => call("expectedScoreMap", [width, params]),
+    optimalTarget: (width, params) => call("optimalTarget", [width, params]),
+    sweep: (width, params, onProgress) => call("sweep", [width, params], onProgress),
+    releaseResources: (width) => void call("releaseResources", [width]),
+  };
+}
+
+/**
+ * Run a request against a backend on the worker side, posting sweep progress as it arrives and
+ * then the result. Typed arrays in the result are listed so they can be transferred rather than
+ * copied.
+ */
+export async function handleComputeRequest(
+  backend: DartsComputeBackend,
+  request: ComputeRequest,
+  post: (response: ComputeResponse, transfer: Transferable[]) => void,
+): Promise<void> {
+  const onProgress = (progress: SweepPoint[]) => post({ id: request.id, progress }, []);
+  try {
+    const method = backend[request.method] as (...args: unknown[]) => unknown;
+    const args = request.method === "sweep" ? [...request.args, onProgress] : request.args;
+    const result = await method(...args);
+    const values = ArrayBuffer.isView(result) ? [result] : Object.values(result ?? {});
+    const transfer = values
+      .filter((value): value is Float32Array => value instanceof Float32Array)
+      .map((value) => value.buffer);
+    post({ id: request.id, result }, transfer);
+  } catch (error) {
+    post({ id: request.id, error: error instanceof Error ? error.message : String(error) }, []);
+  }
+}
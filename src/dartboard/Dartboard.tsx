@@ -1,47 +1,49 @@
-import React, { useCallback, useEffect, useRef } from "react";
+import { useAtomValue } from "jotai";
+import React, { useCallback, useMemo } from "react";
 import { CanvasVisualization } from "../common/CanvasVisualization";
 import { ViridisColorScale } from "../common/ViridisColorScale";
+import { dartboardAtom } from "../shared/dartboardAtom";
 import { getViridisColor } from "../webgpu/viridis";
-import { makeDartboard } from "./dartboard-definition";
+import { getMaxScore, makeDartboard } from "./dartboard-definition";
 import { drawRadialScores } from "./dartboard-labels";
+import { DartboardSelector } from "./DartboardSelector";
 import { ScoreAreas } from "./ScoreAreas";
 
 const WIDTH = 1000;
 
 export const Dartboard: React.FC = () => {
-  const dartboardData = useRef<Uint32Array | null>(null);
+  const dartboard = useAtomValue(dartboardAtom);
+  const dartboardData = useMemo(() => makeDartboard(WIDTH, dartboard), [dartboard]);
+  const maxScore = getMaxScore(dartboard);
 
-  useEffect(() => {
-    dartboardData.current = makeDartboard(WIDTH);
-  }, []);
+  const handleCanvasReady = useCallback(
+    (canvas: HTMLCanvasElement) => {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
 
-  const handleCanvasReady = useCallback((canvas: HTMLCanvasElement) => {
-    if (!dartboardData.current) return;
+      const imageData = ctx.createImageData(WIDTH, WIDTH);
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+      for (let i = 0; i < dartboardData.length; i++) {
+        const score = dartboardData[i];
+        const normalizedScore = score / maxScore; // Normalize to 0-1
+        const color = getViridisColor(normalizedScore);
 
-    const imageData = ctx.createImageData(WIDTH, WIDTH);
+        imageData.data[i * 4 + 0] = color.r; // R
+        imageData.data[i * 4 + 1] = color.g; // G
+        imageData.data[i * 4 + 2] = color.b; // B
+        imageData.data[i * 4 + 3] = 255; // A, fully opaque
+      }
 
-    for (let i = 0; i < dartboardData.current.length; i++) {
-      const score = dartboardData.current[i];
-      const normalizedScore = score / 60; // Normalize to 0-1 (60 is max score)
-      const color = getViridisColor(normalizedScore);
+      ctx.putImageData(imageData, 0, 0);
 
-      imageData.data[i * 4 + 0] = color.r; // R
-      imageData.data[i * 4 + 1] = color.g; // G
-      imageData.data[i * 4 + 2] = color.b; // B
-      imageData.data[i * 4 + 3] = 255; // A, fully opaque
-    }
-
-    ctx.putImageData(imageData, 0, 0);
-
-    // Draw radial scores around the dartboard
-    const centerX = WIDTH / 2;
-    const centerY = WIDTH / 2;
-    const labelRadius = WIDTH * 0.45; // Place labels outside the dartboard
-    drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff");
-  }, []);
+      // Draw radial scores around the dartboard
+      const centerX = WIDTH / 2;
+      const centerY = WIDTH / 2;
+      const labelRadius = WIDTH * 0.45; // Place labels outside the dartboard
+      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff", dartboard);
+    },
+    [dartboardData, maxScore, dartboard],
+  );
 
   return (
     <div>
@@ -49,6 +51,9 @@ export const Dartboard: React.FC = () => {
         Let's start with the basics. This is a standard dartboard. Each section is worth different
         points. Purple means low scores, yellow means jackpot.
       </p>
+      <div className="mb-6">
+        <DartboardSelector />
+      </div>
       <div className="flex items-start gap-5">
         <CanvasVisualization
           id="dartboard"
@@ -56,7 +61,7 @@ export const Dartboard: React.FC = () => {
           height={WIDTH}
           onCanvasReady={handleCanvasReady}
         />
-        <ViridisColorScale height={WIDTH} min={0} max={60} className="mt-0" />
+        <ViridisColorScale height={WIDTH} min={0} max={maxScore} className="mt-0" />
       </div>
 
       <div className="mt-10">
@@ -0,0 +1,28 @@
+import { useAtom } from "jotai";
+import React from "react";
+import { dartboardIdAtom } from "../shared/dartboardAtom";
+import { getDartboards } from "./dartboard-registry";
+
+export const DartboardSelector: React.FC = () => {
+  const [dartboardId, setDartboardId] = useAtom(dartboardIdAtom);
+
+  return (
+    <div className="flex items-center gap-2.5">
+      <label htmlFor="dartboard-select" className="font-bold">
+        Board
+      </label>
+      <select
+        id="dartboard-select"
+        value={dartboardId}
+        onChange={(e) => setDartboardId(e.target.value)}
+        className="p-1.5 text-sm rounded border border-gray-300"
+      >
+        {getDartboards().map((dartboard) => (
+          <option key={dartboard.id} value={dartboard.id}>
+            {dartboard.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -1,32 +1,53 @@
-import React, { useCallback, useEffect, useState } from "react";
+import { useAtomValue } from "jotai";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { CanvasVisualization } from "../common/CanvasVisualization";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { deviceGenerationAtom } from "../shared/deviceGenerationAtom";
 import { getDevice, width } from "../webgpu/util";
+import { DartboardDef, SEGMENTS_PER_RING, hasQuadrupleRing } from "./dartboard-definition";
+import { createBoardGeometryBuffer } from "./dartboard-geometry";
 import { drawRadialScores } from "./dartboard-labels";
+import {
+  BULL_SEGMENT,
+  DOUBLE_SEGMENT_OFFSET,
+  OUTER_BULL_SEGMENT,
+  QUADRUPLE_SEGMENT_OFFSET,
+  TRIPLE_SEGMENT_OFFSET,
+  getSegmentInfo,
+} from "./dartboard-segments";
 import scoreAreasShader from "./score-areas.wgsl?raw";
 
 interface ScoreAreasProps {}
 
-// Define all possible dartboard areas using numeric segment indexes (0-62)
-// Based on utils.ts: 0-19=singles, 20-39=triples, 40-59=doubles, 60=outer bull, 61=bull, 62=miss
-const DARTBOARD_AREAS = [
-  { value: -1, label: "None (Full Dartboard)" }, // Special case for showing all
-  { value: 61, label: "Bull (50)" },
-  { value: 60, label: "Outer Bull (25)" },
-  ...Array.from({ length: 20 }, (_, i) => {
-    const scores = [6, 13, 4, 18, 1, 20, 5, 12, 9, 14, 11, 8, 16, 7, 19, 3, 17, 2, 15, 10];
-    const score = scores[i];
-    return [
-      { value: i, label: `${score} (Single)` }, // Single: index 0-19
-      { value: i + 40, label: `D${score} (Double)` }, // Double: index 40-59
-      { value: i + 20, label: `T${score} (Triple)` }, // Triple: index 20-39
-    ];
-  }).flat(),
-];
+// Define all possible dartboard areas using numeric segment indexes (0-82)
+// See dartboard-segments.ts: 0-19=singles, 20-39=triples, 40-59=doubles, 60=outer bull, 61=bull,
+// 62=miss, 63-82=quadruples
+function getDartboardAreas(dartboard: DartboardDef) {
+  // Single, double, triple, then quadruple (if present) for each slice
+  const ringOffsets = [0, DOUBLE_SEGMENT_OFFSET, TRIPLE_SEGMENT_OFFSET];
+  if (hasQuadrupleRing(dartboard)) {
+    ringOffsets.push(QUADRUPLE_SEGMENT_OFFSET);
+  }
+  return [
+    { value: -1, label: "None (Full Dartboard)" }, // Special case for showing all
+    { value: BULL_SEGMENT, label: "Bull (50)" },
+    { value: OUTER_BULL_SEGMENT, label: "Outer Bull (25)" },
+    ...Array.from({ length: SEGMENTS_PER_RING }, (_, i) =>
+      ringOffsets.map((offset) => ({
+        value: i + offset,
+        label: getSegmentInfo(i + offset, dartboard).label,
+      })),
+    ).flat(),
+  ];
+}
 
 export const ScoreAreas: React.FC<ScoreAreasProps> = () => {
   const [isReady, setIsReady] = useState(false);
   const [selectedArea, setSelectedArea] = useState(61);
   const [canvasKey, setCanvasKey] = useState(0);
+  const dartboard = useAtomValue(dartboardAtom);
+  const deviceGeneration = useAtomValue(deviceGenerationAtom);
+  const dartboardAreas = useMemo(() => getDartboardAreas(dartboard), [dartboard]);
 
   const runScoreAreas = useCallback(
     async (canvas: HTMLCanvasElement, overlayCanvas?: HTMLCanvasElement) => {
@@ -83,10 +104,15 @@ export const ScoreAreas: React.FC<ScoreAreasProps> = () => {
       });
       device.queue.writeBuffer(uniformBuffer, 0, uniformData);
 
+      const boardGeometryBuffer = createBoardGeometryBuffer(device, dartboard);
+
       const bindGroup = device.createBindGroup({
         label: "bindGroup for uniforms",
         layout: pipeline.getBindGroupLayout(0),
-        entries: [{ binding: 0, resource: { buffer: uniformBuffer } }],
+        entries: [
+          { binding: 0, resource: { buffer: uniformBuffer } },
+          { binding: 1, resource: { buffer: boardGeometryBuffer } },
+        ],
       });
 
       const encoder = device.createCommandEncoder({
@@ -124,11 +150,11 @@ export const ScoreAreas: React.FC<ScoreAreasProps> = () => {
           const centerX = width / 2;
           const centerY = width / 2;
           const labelRadius = width * 0.45; // Place labels outside the dartboard
-          drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff");
+          drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff", dartboard);
         }
       }
     },
-    [selectedArea],
+    [selectedArea, dartboard],
   );
 
   useEffect(() => {
@@ -136,9 +162,9 @@ export const ScoreAreas: React.FC<ScoreAreasProps> = () => {
   }, []);
 
   useEffect(() => {
-    // Force re-render of canvas when parameters change
+    // Force re-render of canvas when parameters change or the GPU device is replaced
     setCanvasKey((prev) => prev + 1);
-  }, [selectedArea]);
+  }, [selectedArea, dartboard, deviceGeneration]);
 
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: "10px" }}>
@@ -162,7 +188,7 @@ export const ScoreAreas: React.FC<ScoreAreasProps> = () => {
             minWidth: "200px",
           }}
         >
-          {DARTBOARD_AREAS.map((area) => (
+          {dartboardAreas.map((area) => (
             <option key={area.value} value={area.value}>
               {area.label}
             </option>
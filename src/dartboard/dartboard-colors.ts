@@ -1,4 +1,10 @@
-import { REGULATION_BOARD, normaliseDartboard } from './dartboard-definition';
+import {
+  DartboardDef,
+  REGULATION_BOARD,
+  getQuadrupleRing,
+  getSliceIndex,
+  normaliseDartboard,
+} from "./dartboard-definition";
 
 export interface DartboardColor {
   r: number;
@@ -7,8 +13,12 @@ export interface DartboardColor {
 }
 
 /** Get the dartboard color at normalized coordinates */
-export function getDartboardColor(x: number, y: number): DartboardColor {
-  const dartboard = normaliseDartboard(REGULATION_BOARD);
+export function getDartboardColor(
+  x: number,
+  y: number,
+  dartboardDef: DartboardDef = REGULATION_BOARD,
+): DartboardColor {
+  const dartboard = normaliseDartboard(dartboardDef);
   const r = Math.sqrt(x * x + y * y);
 
   // Double bull (red center)
@@ -26,9 +36,7 @@ export function getDartboardColor(x: number, y: number): DartboardColor {
     return { r: 0, g: 0, b: 0 }; // Black
   }
 
-  const theta = Math.atan2(y, x) + Math.PI;
-  const adjustedTheta = (theta + Math.PI / 20) % (2 * Math.PI);
-  const slice = Math.floor((adjustedTheta / (2 * Math.PI)) * 20);
+  const slice = getSliceIndex(x, y, dartboard);
 
   // Determine if this is an even (green/red) or odd (cream/red) segment
   const isEvenSegment = slice % 2 === 0;
@@ -41,6 +49,12 @@ export function getDartboardColor(x: number, y: number): DartboardColor {
     return isEvenSegment ? { r: 255, g: 0, b: 0 } : { r: 0, g: 128, b: 0 }; // Alternating red/green
   }
 
+  // Check if we're in quadruple ring
+  const quadrupleRing = getQuadrupleRing(dartboard);
+  if (quadrupleRing && r >= quadrupleRing.innerRadius && r < quadrupleRing.outerRadius) {
+    return isEvenSegment ? { r: 255, g: 0, b: 0 } : { r: 0, g: 128, b: 0 }; // Alternating red/green
+  }
+
   // Check if we're in triple ring
   if (
     r >= dartboard.centerToOuterTriple - dartboard.tripleRingWidth &&
@@ -56,3 +70,19 @@ export function getDartboardColor(x: number, y: number): DartboardColor {
     return { r: 255, g: 248, b: 220 }; // Cream
   }
 }
+
+/** The board drawn in its colours, one pixel per grid cell of a size × size canvas */
+export function getDartboardImage(dartboard: DartboardDef, size: number): ImageData {
+  const imageData = new ImageData(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = getDartboardColor((x / size) * 2 - 1, (y / size) * 2 - 1, dartboard);
+      const index = (y * size + x) * 4;
+      imageData.data[index + 0] = color.r;
+      imageData.data[index + 1] = color.g;
+      imageData.data[index + 2] = color.b;
+      imageData.data[index + 3] = 255;
+    }
+  }
+  return imageData;
+}
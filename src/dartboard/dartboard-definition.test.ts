@@ -1,5 +1,21 @@
 import { describe, expect, test } from "vitest";
-import { mmToPixels, pixelsToMm, REGULATION_BOARD } from "./dartboard-definition";
+import {
+  getMaxScore,
+  getSliceIndex,
+  makeDartboard,
+  mmToPixels,
+  normaliseDartboard,
+  pixelsToMm,
+  QUADRO_BOARD,
+  REGULATION_BOARD,
+} from "./dartboard-definition";
+import { getDartboard, getDartboards, registerDartboard } from "./dartboard-registry";
+import {
+  getAllSegments,
+  getSegmentId,
+  getSegmentInfo,
+  QUADRUPLE_SEGMENT_OFFSET,
+} from "./dartboard-segments";
 
 describe("Dartboard coordinate conversion", () => {
   const canvasSize = 500; // 500x500 canvas
@@ -200,3 +216,99 @@ describe("Dartboard coordinate conversion", () => {
     });
   });
 });
+
+describe("Pluggable board definitions", () => {
+  const width = 200;
+  // Point in the middle of the top single segment (20 on a regulation board)
+  const topSingle = { x: 0, y: -0.3 };
+
+  test("regulation board is registered by default", () => {
+    expect(getDartboard("regulation")).toBe(REGULATION_BOARD);
+    expect(getDartboards()).toContain(REGULATION_BOARD);
+  });
+
+  test("unknown ids fall back to the regulation board", () => {
+    expect(getDartboard("no-such-board")).toBe(REGULATION_BOARD);
+  });
+
+  test("registering a board without 20 segments is rejected", () => {
+    expect(() =>
+      registerDartboard({ ...REGULATION_BOARD, id: "short", radialScores: [1, 2, 3] }),
+    ).toThrow();
+  });
+
+  test("segment rotation moves the scores around the board", () => {
+    const normalised = normaliseDartboard(REGULATION_BOARD);
+    expect(getSliceIndex(topSingle.x, topSingle.y, normalised)).toBe(5);
+
+    // Rotating the ring one segment clockwise puts 5 at the top
+    const rotated = normaliseDartboard({ ...REGULATION_BOARD, segmentRotation: 18 });
+    const sliceIdx = getSliceIndex(topSingle.x, topSingle.y, rotated);
+    expect(getSegmentInfo(sliceIdx, rotated).shortName).toBe("5");
+  });
+
+  test("makeDartboard follows a custom segment order", () => {
+    const custom = {
+      ...REGULATION_BOARD,
+      id: "custom-order",
+      radialScores: [...REGULATION_BOARD.radialScores].reverse(),
+    };
+    const regulationGrid = makeDartboard(width);
+    const customGrid = makeDartboard(width, custom);
+
+    const px = Math.floor(((topSingle.x + 1) / 2) * width);
+    const py = Math.floor(((topSingle.y + 1) / 2) * width);
+    expect(regulationGrid[py * width + px]).toBe(20);
+    expect(customGrid[py * width + px]).toBe(custom.radialScores[5]);
+  });
+
+  test("segment ids and scores agree with makeDartboard", () => {
+    const normalised = normaliseDartboard(REGULATION_BOARD);
+    const grid = makeDartboard(width);
+    for (let y = 0; y < width; y += 7) {
+      for (let x = 0; x < width; x += 7) {
+        const normX = (x / width) * 2 - 1;
+        const normY = (y / width) * 2 - 1;
+        const segment = getSegmentInfo(getSegmentId(normX, normY, normalised), REGULATION_BOARD);
+        expect(segment.score).toBe(grid[y * width + x]);
+      }
+    }
+  });
+});
+
+describe("Quadro board", () => {
+  const width = 451;
+  // Middle of the quadruple ring, straight up through the 20 segment (1 pixel = 1mm)
+  const quadrupleRadiusMm =
+    QUADRO_BOARD.centerToOuterQuadruple! - QUADRO_BOARD.quadrupleRingWidth! / 2;
+  const px = Math.floor(width / 2);
+  const py = Math.floor(width / 2 - quadrupleRadiusMm);
+
+  test("is registered", () => {
+    expect(getDartboard("quadro-240")).toBe(QUADRO_BOARD);
+  });
+
+  test("scores four times the segment value in the quadruple ring", () => {
+    expect(makeDartboard(width, QUADRO_BOARD)[py * width + px]).toBe(80);
+    expect(makeDartboard(width)[py * width + px]).toBe(20);
+  });
+
+  test("maximum single-dart score is Q20", () => {
+    expect(getMaxScore(QUADRO_BOARD)).toBe(80);
+    expect(getMaxScore(REGULATION_BOARD)).toBe(60);
+  });
+
+  test("quadruple segments follow the existing segment indexes", () => {
+    const normalised = normaliseDartboard(QUADRO_BOARD);
+    const normX = (px / width) * 2 - 1;
+    const normY = (py / width) * 2 - 1;
+    const segmentId = getSegmentId(normX, normY, normalised);
+    expect(segmentId).toBe(QUADRUPLE_SEGMENT_OFFSET + 5);
+    expect(getSegmentInfo(segmentId, QUADRO_BOARD).shortName).toBe("Q20");
+  });
+
+  test("only boards with a quadruple ring list quadruple segments", () => {
+    expect(getAllSegments(REGULATION_BOARD)).toHaveLength(63);
+    expect(getAllSegments(QUADRO_BOARD)).toHaveLength(83);
+  });
+});
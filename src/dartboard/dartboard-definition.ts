@@ -1,4 +1,8 @@
-interface DartboardDef {
+export interface DartboardDef {
+  /** Stable identifier used by the board registry */
+  id: string;
+  /** Human-readable name shown in the board selector */
+  name: string;
   wholeBoardDiameter: number;
   doubleBullDiameter: number;
   bullDiameter: number;
@@ -8,11 +12,22 @@ interface DartboardDef {
   centerToOuterTriple: number;
   /** Radius of the outer edge of the double (outer) ring */
   centerToOuterDouble: number;
+  /** Width of the quadruple ring, for boards such as the Quadro 240 that have one */
+  quadrupleRingWidth?: number;
+  /** Radius of the outer edge of the quadruple ring, which sits between the triple and double rings */
+  centerToOuterQuadruple?: number;
+  /** The 20 segment scores, anticlockwise starting from the rightmost segment (3 o'clock) */
   radialScores: number[];
+  /** Clockwise rotation of the whole segment ring in degrees (0 puts radialScores[0] at 3 o'clock) */
+  segmentRotation: number;
 }
 
+export const SEGMENTS_PER_RING = 20;
+
 // Measurements in mm
-export const REGULATION_BOARD = {
+export const REGULATION_BOARD: DartboardDef = {
+  id: "regulation",
+  name: "Regulation (BDO/WDF)",
   wholeBoardDiameter: 451,
   doubleBullDiameter: 12.7,
   bullDiameter: 32,
@@ -21,10 +36,42 @@ export const REGULATION_BOARD = {
   centerToOuterTriple: 107,
   centerToOuterDouble: 170,
   radialScores: [6, 13, 4, 18, 1, 20, 5, 12, 9, 14, 11, 8, 16, 7, 19, 3, 17, 2, 15, 10],
+  segmentRotation: 0,
+};
+
+// Quadro 240: a regulation board with an extra quadruple ring in the outer single area
+export const QUADRO_BOARD: DartboardDef = {
+  ...REGULATION_BOARD,
+  id: "quadro-240",
+  name: "Quadro 240",
+  quadrupleRingWidth: 8,
+  centerToOuterQuadruple: 143,
 };
 
-export function normaliseDartboard(dartboard: DartboardDef) {
+/** Whether the board has a quadruple ring */
+export function hasQuadrupleRing(dartboard: DartboardDef): boolean {
+  return getQuadrupleRing(dartboard) !== undefined;
+}
+
+/** Inner and outer radius of the board's quadruple ring, in the board's units */
+export function getQuadrupleRing(
+  dartboard: DartboardDef,
+): { innerRadius: number; outerRadius: number } | undefined {
+  if (
+    dartboard.quadrupleRingWidth === undefined ||
+    dartboard.centerToOuterQuadruple === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    innerRadius: dartboard.centerToOuterQuadruple - dartboard.quadrupleRingWidth,
+    outerRadius: dartboard.centerToOuterQuadruple,
+  };
+}
+
+export function normaliseDartboard(dartboard: DartboardDef): DartboardDef {
   return {
+    ...dartboard,
     wholeBoardDiameter: 2,
     doubleBullDiameter: (dartboard.doubleBullDiameter / dartboard.wholeBoardDiameter) * 2,
     bullDiameter: (dartboard.bullDiameter / dartboard.wholeBoardDiameter) * 2,
@@ -32,10 +79,34 @@ export function normaliseDartboard(dartboard: DartboardDef) {
     doubleRingWidth: (dartboard.doubleRingWidth / dartboard.wholeBoardDiameter) * 2,
     centerToOuterTriple: (dartboard.centerToOuterTriple / dartboard.wholeBoardDiameter) * 2,
     centerToOuterDouble: (dartboard.centerToOuterDouble / dartboard.wholeBoardDiameter) * 2,
+    quadrupleRingWidth:
+      dartboard.quadrupleRingWidth !== undefined
+        ? (dartboard.quadrupleRingWidth / dartboard.wholeBoardDiameter) * 2
+        : undefined,
+    centerToOuterQuadruple:
+      dartboard.centerToOuterQuadruple !== undefined
+        ? (dartboard.centerToOuterQuadruple / dartboard.wholeBoardDiameter) * 2
+        : undefined,
     radialScores: [...dartboard.radialScores],
   };
 }
 
+/**
+ * Get the slice index (0-19) containing the given normalised coordinates, taking the board's
+ * segment rotation into account. Index 0 is radialScores[0].
+ */
+export function getSliceIndex(x: number, y: number, dartboard: DartboardDef): number {
+  // Flip across y-axis by negating x
+  const theta = Math.atan2(y, -x) + Math.PI;
+  const rotation = (dartboard.segmentRotation * Math.PI) / 180;
+  let adjustedTheta = (theta + rotation + Math.PI / SEGMENTS_PER_RING) % (2 * Math.PI);
+  if (adjustedTheta < 0) {
+    adjustedTheta += 2 * Math.PI;
+  }
+  const slice = (adjustedTheta / (2 * Math.PI)) * SEGMENTS_PER_RING;
+  return Math.floor(slice) % SEGMENTS_PER_RING;
+}
+
 /** Get the score on a dartboard from normalised coordinates */
 function getScore(x: number, y: number, dartboard: DartboardDef) {
   const r = Math.sqrt(x * x + y * y);
@@ -45,10 +116,7 @@ function getScore(x: number, y: number, dartboard: DartboardDef) {
   if (r < dartboard.bullDiameter / 2) {
     return 25;
   }
-  const theta = Math.atan2(y, -x) + Math.PI;
-  const adjustedTheta = (theta + Math.PI / 20) % (2 * Math.PI);
-  const slice = (adjustedTheta / (2 * Math.PI)) * 20;
-  const sliceIdx = Math.floor(slice);
+  const sliceIdx = getSliceIndex(x, y, dartboard);
   const sliceScore = dartboard.radialScores[sliceIdx];
 
   if (r < dartboard.centerToOuterTriple - dartboard.tripleRingWidth) {
@@ -57,6 +125,10 @@ function getScore(x: number, y: number, dartboard: DartboardDef) {
   if (r < dartboard.centerToOuterTriple) {
     return sliceScore * 3;
   }
+  const quadrupleRing = getQuadrupleRing(dartboard);
+  if (quadrupleRing && r >= quadrupleRing.innerRadius && r < quadrupleRing.outerRadius) {
+    return sliceScore * 4;
+  }
   if (r < dartboard.centerToOuterDouble - dartboard.doubleRingWidth) {
     return sliceScore;
   }
@@ -66,16 +138,27 @@ function getScore(x: number, y: number, dartboard: DartboardDef) {
   return 0;
 }
 
+/** Get the highest score available from a single dart on the given board */
+export function getMaxScore(dartboard: DartboardDef): number {
+  const multiplier = hasQuadrupleRing(dartboard) ? 4 : 3;
+  return Math.max(50, ...dartboard.radialScores.map((score) => score * multiplier));
+}
+
 /**
  * Convert pixels to millimeters based on dartboard dimensions and canvas size
  * @param pixels - Value in pixels
  * @param canvasWidth - Width of the canvas in pixels
+ * @param dartboard - Board whose diameter spans the canvas
  * @returns Value in millimeters
  */
-export function pixelsToMm(pixels: number, canvasWidth: number): number {
-  const normalizedDartboard = normaliseDartboard(REGULATION_BOARD);
+export function pixelsToMm(
+  pixels: number,
+  canvasWidth: number,
+  dartboard: DartboardDef = REGULATION_BOARD,
+): number {
+  const normalizedDartboard = normaliseDartboard(dartboard);
   const centerToOuterDoubleNormalized = normalizedDartboard.centerToOuterDouble;
-  const centerToOuterDoubleMm = REGULATION_BOARD.centerToOuterDouble;
+  const centerToOuterDoubleMm = dartboard.centerToOuterDouble;
   const pixelToMm = centerToOuterDoubleMm / (centerToOuterDoubleNormalized * (canvasWidth / 2));
   return pixels * pixelToMm;
 }
@@ -84,19 +167,27 @@ export function pixelsToMm(pixels: number, canvasWidth: number): number {
  * Convert millimeters to pixels based on dartboard dimensions and canvas size
  * @param mm - Value in millimeters
  * @param canvasWidth - Width of the canvas in pixels
+ * @param dartboard - Board whose diameter spans the canvas
  * @returns Value in pixels
  */
-export function mmToPixels(mm: number, canvasWidth: number): number {
-  const normalizedDartboard = normaliseDartboard(REGULATION_BOARD);
+export function mmToPixels(
+  mm: number,
+  canvasWidth: number,
+  dartboard: DartboardDef = REGULATION_BOARD,
+): number {
+  const normalizedDartboard = normaliseDartboard(dartboard);
   const centerToOuterDoubleNormalized = normalizedDartboard.centerToOuterDouble;
-  const centerToOuterDoubleMm = REGULATION_BOARD.centerToOuterDouble;
+  const centerToOuterDoubleMm = dartboard.centerToOuterDouble;
   const pixelToMm = centerToOuterDoubleMm / (centerToOuterDoubleNormalized * (canvasWidth / 2));
   const mmToPixel = 1 / pixelToMm;
   return mm * mmToPixel;
 }
 
-export function makeDartboard(width: number): Uint32Array {
-  const dartboard = normaliseDartboard(REGULATION_BOARD);
+export function makeDartboard(
+  width: number,
+  dartboardDef: DartboardDef = REGULATION_BOARD,
+): Uint32Array {
+  const dartboard = normaliseDartboard(dartboardDef);
   const arr = new Uint32Array(width * width);
   for (let y = 0; y < width; y++) {
     for (let x = 0; x < width; x++) {
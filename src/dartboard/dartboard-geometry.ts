@@ -0,0 +1,58 @@
+import {
+  DartboardDef,
+  SEGMENTS_PER_RING,
+  getQuadrupleRing,
+  normaliseDartboard,
+} from "./dartboard-definition";
+
+/**
+ * Number of f32 values in the packed board geometry. Must match the BoardGeometry struct that is
+ * declared in each shader that needs the board layout:
+ *
+ * struct BoardGeometry {
+ *   doubleBullRadius: f32,
+ *   bullRadius: f32,
+ *   innerTripleRadius: f32,
+ *   outerTripleRadius: f32,
+ *   innerDoubleRadius: f32,
+ *   outerDoubleRadius: f32,
+ *   segmentRotation: f32, // radians, clockwise
+ *   _padding: f32,
+ *   innerQuadrupleRadius: f32, // negative when the board has no quadruple ring
+ *   outerQuadrupleRadius: f32,
+ *   _padding2: vec2f,
+ *   radialScores: array<f32, 20>,
+ * }
+ */
+export const BOARD_GEOMETRY_FLOATS = 12 + SEGMENTS_PER_RING;
+
+/** Pack a board definition into normalised radii for upload to a storage buffer */
+export function packBoardGeometry(dartboardDef: DartboardDef) {
+  const dartboard = normaliseDartboard(dartboardDef);
+  const data = new Float32Array(BOARD_GEOMETRY_FLOATS);
+  data[0] = dartboard.doubleBullDiameter / 2;
+  data[1] = dartboard.bullDiameter / 2;
+  data[2] = dartboard.centerToOuterTriple - dartboard.tripleRingWidth;
+  data[3] = dartboard.centerToOuterTriple;
+  data[4] = dartboard.centerToOuterDouble - dartboard.doubleRingWidth;
+  data[5] = dartboard.centerToOuterDouble;
+  data[6] = (dartboard.segmentRotation * Math.PI) / 180;
+  // A ring from -1 to -1 never matches, so boards without one can share the shader code
+  const quadrupleRing = getQuadrupleRing(dartboard);
+  data[8] = quadrupleRing?.innerRadius ?? -1;
+  data[9] = quadrupleRing?.outerRadius ?? -1;
+  data.set(dartboard.radialScores, 12);
+  return data;
+}
+
+/** Create a read-only storage buffer holding the packed board geometry */
+export function createBoardGeometryBuffer(device: GPUDevice, dartboard: DartboardDef): GPUBuffer {
+  const data = packBoardGeometry(dartboard);
+  const buffer = device.createBuffer({
+    label: `board geometry buffer (${dartboard.id})`,
+    size: data.byteLength,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  });
+  device.queue.writeBuffer(buffer, 0, data);
+  return buffer;
+}
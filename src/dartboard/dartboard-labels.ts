@@ -1,10 +1,10 @@
-import { REGULATION_BOARD, normaliseDartboard } from "./dartboard-definition";
-
-// Get normalized dartboard dimensions for consistent drawing
-const NORMALIZED_DARTBOARD = normaliseDartboard(REGULATION_BOARD);
-
-// Radial scores in clockwise order starting from the rightmost position (3 o'clock)
-const RADIAL_SCORES = REGULATION_BOARD.radialScores;
+import {
+  DartboardDef,
+  REGULATION_BOARD,
+  SEGMENTS_PER_RING,
+  getQuadrupleRing,
+  normaliseDartboard,
+} from "./dartboard-definition";
 
 /**
  * Draws the radial segment scores around the outside of a dartboard
@@ -14,6 +14,7 @@ const RADIAL_SCORES = REGULATION_BOARD.radialScores;
  * @param radius - Radius at which to draw the numbers (should be outside the dartboard)
  * @param fontSize - Font size for the numbers
  * @param color - Color for the text
+ * @param dartboard - Board whose segment order and rotation to label
  */
 export function drawRadialScores(
   ctx: CanvasRenderingContext2D,
@@ -22,7 +23,11 @@ export function drawRadialScores(
   radius: number,
   fontSize: number = 16,
   color: string = "#333",
+  dartboard: DartboardDef = REGULATION_BOARD,
 ): void {
+  const radialScores = dartboard.radialScores;
+  const rotation = (dartboard.segmentRotation * Math.PI) / 180;
+
   ctx.save();
 
   ctx.font = `bold ${fontSize}px Arial`;
@@ -31,15 +36,16 @@ export function drawRadialScores(
   ctx.textBaseline = "middle";
 
   // Draw each number around the circle
-  for (let i = 0; i < RADIAL_SCORES.length; i++) {
-    const score = RADIAL_SCORES[i];
+  for (let i = 0; i < radialScores.length; i++) {
+    const score = radialScores[i];
 
     // Calculate angle for this segment
     // 20 is at index 5 in our array, so we need to rotate by 5 positions
     // to put 20 at the top (-π/2 radians)
     // Each segment is 2π/20 radians = π/10 radians = 18 degrees
     // Negate the angle to flip horizontally (11 should be on left, not right)
-    const angle = -Math.PI / 2 - ((i - 5) * Math.PI) / 10;
+    // Positive board rotation turns the ring clockwise, i.e. increases the canvas angle
+    const angle = -Math.PI / 2 - ((i - 5) * Math.PI) / 10 + rotation;
 
     // Calculate position for the number
     const x = centerX + Math.cos(angle) * radius;
@@ -55,18 +61,23 @@ export function drawRadialScores(
 /**
  * Gets the radial score for a given segment index
  * @param segmentIndex - Index from 0-19 starting from rightmost going clockwise
+ * @param dartboard - Board to read the segment order from
  * @returns The score value for that segment
  */
-export function getRadialScore(segmentIndex: number): number {
-  return RADIAL_SCORES[segmentIndex % RADIAL_SCORES.length];
+export function getRadialScore(
+  segmentIndex: number,
+  dartboard: DartboardDef = REGULATION_BOARD,
+): number {
+  return dartboard.radialScores[segmentIndex % dartboard.radialScores.length];
 }
 
 /**
  * Gets all radial scores in order
+ * @param dartboard - Board to read the segment order from
  * @returns Array of all 20 radial scores
  */
-export function getAllRadialScores(): number[] {
-  return [...RADIAL_SCORES];
+export function getAllRadialScores(dartboard: DartboardDef = REGULATION_BOARD): number[] {
+  return [...dartboard.radialScores];
 }
 
 /**
@@ -76,6 +87,7 @@ export function getAllRadialScores(): number[] {
  * @param centerY - Y coordinate of dartboard center
  * @param canvasSize - Size of the canvas (width/height)
  * @param alpha - Opacity of the boundary lines (0-1)
+ * @param dartboard - Board whose rings and segment rotation to outline
  */
 export function drawSegmentBoundaries(
   ctx: CanvasRenderingContext2D,
@@ -83,7 +95,11 @@ export function drawSegmentBoundaries(
   centerY: number,
   canvasSize: number,
   alpha: number = 0.3,
+  dartboard: DartboardDef = REGULATION_BOARD,
 ): void {
+  const normalizedDartboard = normaliseDartboard(dartboard);
+  const rotation = (dartboard.segmentRotation * Math.PI) / 180;
+
   ctx.save();
 
   // Set line style for boundaries
@@ -91,15 +107,15 @@ export function drawSegmentBoundaries(
   ctx.lineWidth = 1;
 
   // Draw radial segment boundaries (20 segments)
-  for (let i = 0; i < 20; i++) {
+  for (let i = 0; i < SEGMENTS_PER_RING; i++) {
     // Calculate angle for each segment boundary
     // Each segment is 2π/20 radians = π/10 radians = 18 degrees
     // Offset by half a segment (π/20) to draw boundaries between segments
-    const angle = (i * Math.PI) / 10 + Math.PI / 20;
+    const angle = (i * Math.PI) / 10 + Math.PI / 20 + rotation;
 
     // Draw line from outer bull to outer edge (not from center)
-    const innerRadius = (NORMALIZED_DARTBOARD.bullDiameter / 2) * (canvasSize / 2); // Start from outer bull edge
-    const outerRadius = NORMALIZED_DARTBOARD.centerToOuterDouble * (canvasSize / 2); // End at outer triple ring
+    const innerRadius = (normalizedDartboard.bullDiameter / 2) * (canvasSize / 2); // Start from outer bull edge
+    const outerRadius = normalizedDartboard.centerToOuterDouble * (canvasSize / 2); // End at outer triple ring
 
     const startX = centerX + Math.cos(angle) * innerRadius;
     const startY = centerY + Math.sin(angle) * innerRadius;
@@ -115,20 +131,28 @@ export function drawSegmentBoundaries(
   // Draw concentric circles for scoring regions
   // Calculate radii as fractions of canvas size based on regulation dartboard (451mm total)
   const regions = [
-    { radius: NORMALIZED_DARTBOARD.doubleBullDiameter / 2, name: "inner-bull" }, // Inner bull (50 points) - 12.7mm diameter
-    { radius: NORMALIZED_DARTBOARD.bullDiameter / 2, name: "outer-bull" }, // Outer bull (25 points) - 32mm diameter
+    { radius: normalizedDartboard.doubleBullDiameter / 2, name: "inner-bull" }, // Inner bull (50 points) - 12.7mm diameter
+    { radius: normalizedDartboard.bullDiameter / 2, name: "outer-bull" }, // Outer bull (25 points) - 32mm diameter
     {
-      radius: NORMALIZED_DARTBOARD.centerToOuterTriple - NORMALIZED_DARTBOARD.tripleRingWidth,
+      radius: normalizedDartboard.centerToOuterTriple - normalizedDartboard.tripleRingWidth,
       name: "triple-inner",
     }, // Inner edge of triple ring
-    { radius: NORMALIZED_DARTBOARD.centerToOuterTriple, name: "triple-outer" }, // Outer edge of triple ring
+    { radius: normalizedDartboard.centerToOuterTriple, name: "triple-outer" }, // Outer edge of triple ring
     {
-      radius: NORMALIZED_DARTBOARD.centerToOuterDouble - NORMALIZED_DARTBOARD.doubleRingWidth,
+      radius: normalizedDartboard.centerToOuterDouble - normalizedDartboard.doubleRingWidth,
       name: "double-inner",
     }, // Inner edge of double ring
-    { radius: NORMALIZED_DARTBOARD.centerToOuterDouble, name: "double-outer" }, // Outer edge of double ring (dartboard edge)
+    { radius: normalizedDartboard.centerToOuterDouble, name: "double-outer" }, // Outer edge of double ring (dartboard edge)
   ];
 
+  const quadrupleRing = getQuadrupleRing(normalizedDartboard);
+  if (quadrupleRing) {
+    regions.push(
+      { radius: quadrupleRing.innerRadius, name: "quadruple-inner" },
+      { radius: quadrupleRing.outerRadius, name: "quadruple-outer" },
+    );
+  }
+
   ctx.lineWidth = 0.5;
 
   for (const region of regions) {
@@ -0,0 +1,48 @@
+import {
+  DartboardDef,
+  QUADRO_BOARD,
+  REGULATION_BOARD,
+  SEGMENTS_PER_RING,
+  getQuadrupleRing,
+} from "./dartboard-definition";
+
+const boards = new Map<string, DartboardDef>();
+
+/**
+ * Add a board definition to the registry so it can be selected at runtime.
+ * Registering a board with an existing id replaces the previous definition.
+ */
+export function registerDartboard(dartboard: DartboardDef): void {
+  if (dartboard.radialScores.length !== SEGMENTS_PER_RING) {
+    throw new Error(
+      `Dartboard "${dartboard.id}" must have ${SEGMENTS_PER_RING} radial scores, got ${dartboard.radialScores.length}`,
+    );
+  }
+  if (dartboard.centerToOuterDouble * 2 > dartboard.wholeBoardDiameter) {
+    throw new Error(`Dartboard "${dartboard.id}" has a double ring outside the board`);
+  }
+  const quadrupleRing = getQuadrupleRing(dartboard);
+  if (
+    quadrupleRing &&
+    (quadrupleRing.innerRadius < dartboard.centerToOuterTriple ||
+      quadrupleRing.outerRadius > dartboard.centerToOuterDouble - dartboard.doubleRingWidth)
+  ) {
+    throw new Error(
+      `Dartboard "${dartboard.id}" must have its quadruple ring between the triple and double rings`,
+    );
+  }
+  boards.set(dartboard.id, dartboard);
+}
+
+/** All registered boards, in registration order */
+export function getDartboards(): DartboardDef[] {
+  return [...boards.values()];
+}
+
+/** Look up a board by id, falling back to the regulation board for unknown ids */
+export function getDartboard(id: string): DartboardDef {
+  return boards.get(id) ?? REGULATION_BOARD;
+}
+
+registerDartboard(REGULATION_BOARD);
+registerDartboard(QUADRO_BOARD);
@@ -0,0 +1,220 @@
+import {
+  DartboardDef,
+  SEGMENTS_PER_RING,
+  getQuadrupleRing,
+  getSliceIndex,
+  hasQuadrupleRing,
+} from "./dartboard-definition";
+
+// Segment indexes shared by the CPU tables and the shaders:
+// 0-19=singles, 20-39=triples, 40-59=doubles, 60=outer bull, 61=bull, 62=miss,
+// 63-82=quadruples (only on boards with a quadruple ring)
+export const TRIPLE_SEGMENT_OFFSET = 20;
+export const DOUBLE_SEGMENT_OFFSET = 40;
+export const OUTER_BULL_SEGMENT = 60;
+export const BULL_SEGMENT = 61;
+export const MISS_SEGMENT = 62;
+export const QUADRUPLE_SEGMENT_OFFSET = 63;
+export const SEGMENT_COUNT = 83;
+
+export type SegmentRing =
+  | "single"
+  | "triple"
+  | "quadruple"
+  | "double"
+  | "outer-bull"
+  | "bull"
+  | "miss";
+
+export interface SegmentInfo {
+  /** Segment index (0-82) */
+  id: number;
+  ring: SegmentRing;
+  /** Score of the radial slice, or the bull/miss score for the special segments */
+  baseScore: number;
+  /** Points scored by a dart landing in this segment */
+  score: number;
+  /** Scoresheet notation, e.g. "T20", "Q20", "D16", "5", "25", "50" */
+  shortName: string;
+  /** Long form used in tables, e.g. "T20 (Triple)" */
+  label: string;
+}
+
+/** Describe a segment index for the given board */
+export function getSegmentInfo(id: number, dartboard: DartboardDef): SegmentInfo {
+  if (id === BULL_SEGMENT) {
+    return { id, ring: "bull", baseScore: 50, score: 50, shortName: "50", label: "Bull" };
+  }
+  if (id === OUTER_BULL_SEGMENT) {
+    return {
+      id,
+      ring: "outer-bull",
+      baseScore: 25,
+      score: 25,
+      shortName: "25",
+      label: "Outer Bull",
+    };
+  }
+  if (id < 0 || id >= SEGMENT_COUNT || id === MISS_SEGMENT) {
+    return { id, ring: "miss", baseScore: 0, score: 0, shortName: "0", label: "Miss" };
+  }
+
+  const sliceIdx =
+    (id - (id >= QUADRUPLE_SEGMENT_OFFSET ? QUADRUPLE_SEGMENT_OFFSET : 0)) % SEGMENTS_PER_RING;
+  const baseScore = dartboard.radialScores[sliceIdx];
+  if (id >= QUADRUPLE_SEGMENT_OFFSET) {
+    return {
+      id,
+      ring: "quadruple",
+      baseScore,
+      score: baseScore * 4,
+      shortName: `Q${baseScore}`,
+      label: `Q${baseScore} (Quadruple)`,
+    };
+  }
+  if (id < TRIPLE_SEGMENT_OFFSET) {
+    return {
+      id,
+      ring: "single",
+      baseScore,
+      score: baseScore,
+      shortName: `${baseScore}`,
+      label: `${baseScore} (Single)`,
+    };
+  }
+  if (id < DOUBLE_SEGMENT_OFFSET) {
+    return {
+      id,
+      ring: "triple",
+      baseScore,
+      score: baseScore * 3,
+      shortName: `T${baseScore}`,
+      label: `T${baseScore} (Triple)`,
+    };
+  }
+  return {
+    id,
+    ring: "double",
+    baseScore,
+    score: baseScore * 2,
+    shortName: `D${baseScore}`,
+    label: `D${baseScore} (Double)`,
+  };
+}
+
+/**
+ * Describe every segment on the board, in segment index order. Quadruple segments are only
+ * included for boards that have a quadruple ring.
+ */
+export function getAllSegments(dartboard: DartboardDef): SegmentInfo[] {
+  const count = hasQuadrupleRing(dartboard) ? SEGMENT_COUNT : QUADRUPLE_SEGMENT_OFFSET;
+  return Array.from({ length: count }, (_, id) => getSegmentInfo(id, dartboard));
+}
+
+/**
+ * Get the segment index for normalised coordinates (-1 to 1).
+ * Matches getSegmentId in segment-probabilities.wgsl.
+ * @param dartboard - A normalised board definition
+ */
+export function getSegmentId(x: number, y: number, dartboard: DartboardDef): number {
+  const r = Math.sqrt(x * x + y * y);
+
+  if (r > 1.0) {
+    return MISS_SEGMENT;
+  }
+  if (r < dartboard.doubleBullDiameter / 2) {
+    return BULL_SEGMENT;
+  }
+  if (r < dartboard.bullDiameter / 2) {
+    return OUTER_BULL_SEGMENT;
+  }
+
+  const sliceIdx = getSliceIndex(x, y, dartboard);
+  const innerTripleRadius = dartboard.centerToOuterTriple - dartboard.tripleRingWidth;
+  const innerDoubleRadius = dartboard.centerToOuterDouble - dartboard.doubleRingWidth;
+
+  const quadrupleRing = getQuadrupleRing(dartboard);
+  if (quadrupleRing && r >= quadrupleRing.innerRadius && r <= quadrupleRing.outerRadius) {
+    return QUADRUPLE_SEGMENT_OFFSET + sliceIdx;
+  }
+
+  if (r < innerTripleRadius) {
+    return sliceIdx;
+  } else if (r <= dartboard.centerToOuterTriple) {
+    return TRIPLE_SEGMENT_OFFSET + sliceIdx;
+  } else if (r < innerDoubleRadius) {
+    return sliceIdx;
+  } else if (r <= dartboard.centerToOuterDouble) {
+    return DOUBLE_SEGMENT_OFFSET + sliceIdx;
+  }
+  return MISS_SEGMENT;
+}
+
+/**
+ * Find a segment from scoresheet notation, e.g. "T20", "D16", "Q20", "5", "25", "50", "Bull",
+ * "Miss". Singles map to the single segment of that number. Returns undefined if the board has
+ * no such segment.
+ */
+export function findSegmentByName(name: string, dartboard: DartboardDef): number | undefined {
+  const normalised = name.trim().toUpperCase();
+  if (["50", "BULL", "DB", "BULLSEYE"].includes(normalised)) return BULL_SEGMENT;
+  if (["25", "OB", "SB", "OUTER BULL"].includes(normalised)) return OUTER_BULL_SEGMENT;
+  if (["0", "M", "MISS", "-"].includes(normalised)) return MISS_SEGMENT;
+
+  const match = /^([SDTQ]?)(\d+)$/.exec(normalised);
+  if (!match) return undefined;
+
+  const sliceIdx = dartboard.radialScores.indexOf(Number(match[2]));
+  if (sliceIdx === -1) return undefined;
+
+  switch (match[1]) {
+    case "T":
+      return TRIPLE_SEGMENT_OFFSET + sliceIdx;
+    case "D":
+      return DOUBLE_SEGMENT_OFFSET + sliceIdx;
+    case "Q":
+      return hasQuadrupleRing(dartboard) ? QUADRUPLE_SEGMENT_OFFSET + sliceIdx : undefined;
+    default:
+      return sliceIdx;
+  }
+}
+
+/**
+ * Get the natural aim point for a segment in mm from the board centre (positive y is down): the
+ * middle of the ring within the segment's slice. Singles use the inner single area.
+ */
+export function getSegmentCentreMm(id: number, dartboard: DartboardDef): { x: number; y: number } {
+  if (id === BULL_SEGMENT || id === OUTER_BULL_SEGMENT) {
+    return { x: 0, y: 0 };
+  }
+  if (id < 0 || id >= SEGMENT_COUNT || id === MISS_SEGMENT) {
+    throw new Error(`Segment ${id} has no aim point`);
+  }
+
+  let radius: number;
+  let sliceIdx: number;
+  if (id >= QUADRUPLE_SEGMENT_OFFSET) {
+    const quadrupleRing = getQuadrupleRing(dartboard);
+    if (!quadrupleRing) {
+      throw new Error(`Dartboard "${dartboard.id}" has no quadruple ring`);
+    }
+    sliceIdx = id - QUADRUPLE_SEGMENT_OFFSET;
+    radius = (quadrupleRing.innerRadius + quadrupleRing.outerRadius) / 2;
+  } else if (id >= DOUBLE_SEGMENT_OFFSET) {
+    sliceIdx = id - DOUBLE_SEGMENT_OFFSET;
+    radius = dartboard.centerToOuterDouble - dartboard.doubleRingWidth / 2;
+  } else if (id >= TRIPLE_SEGMENT_OFFSET) {
+    sliceIdx = id - TRIPLE_SEGMENT_OFFSET;
+    radius = dartboard.centerToOuterTriple - dartboard.tripleRingWidth / 2;
+  } else {
+    sliceIdx = id;
+    const innerTripleRadius = dartboard.centerToOuterTriple - dartboard.tripleRingWidth;
+    radius = (dartboard.bullDiameter / 2 + innerTripleRadius) / 2;
+  }
+
+  // Inverse of getSliceIndex: slice i is centred at canvas angle i * 18° anticlockwise from
+  // 3 o'clock, less the board's clockwise rotation
+  const angle =
+    (sliceIdx * 2 * Math.PI) / SEGMENTS_PER_RING - (dartboard.segmentRotation * Math.PI) / 180;
+  return { x: radius * Math.cos(angle), y: -radius * Math.sin(angle) };
+}
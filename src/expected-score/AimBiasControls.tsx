@@ -0,0 +1,68 @@
+import React from "react";
+import { AimBias, NO_AIM_BIAS } from "../shared/throwModelAtom";
+
+interface AimBiasControlsProps {
+  /** Offset of the grouping centre from the aim point in mm (positive y is down) */
+  aimBias: AimBias;
+  onAimBiasChange: (bias: AimBias) => void;
+  maxBiasMm?: number;
+}
+
+export const AimBiasControls: React.FC<AimBiasControlsProps> = ({
+  aimBias,
+  onAimBiasChange,
+  maxBiasMm = 60,
+}) => {
+  const describeX = aimBias.x < 0 ? "left" : aimBias.x > 0 ? "right" : "";
+  const describeY = aimBias.y < 0 ? "high" : aimBias.y > 0 ? "low" : "";
+
+  return (
+    <div style={{ marginTop: "30px" }}>
+      <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>Aim Bias</label>
+
+      <label style={{ display: "block", marginBottom: "4px", fontSize: "14px" }}>
+        Horizontal: {Math.abs(aimBias.x).toFixed(0)} mm {describeX}
+      </label>
+      <input
+        type="range"
+        min={-maxBiasMm}
+        max={maxBiasMm}
+        step="1"
+        value={aimBias.x}
+        onChange={(e) => onAimBiasChange({ ...aimBias, x: Number(e.target.value) })}
+        style={{ width: "100%", marginBottom: "8px" }}
+      />
+
+      <label style={{ display: "block", marginBottom: "4px", fontSize: "14px" }}>
+        Vertical: {Math.abs(aimBias.y).toFixed(0)} mm {describeY}
+      </label>
+      <input
+        type="range"
+        min={-maxBiasMm}
+        max={maxBiasMm}
+        step="1"
+        value={aimBias.y}
+        onChange={(e) => onAimBiasChange({ ...aimBias, y: Number(e.target.value) })}
+        style={{ width: "100%", marginBottom: "8px" }}
+      />
+
+      <button
+        onClick={() => onAimBiasChange(NO_AIM_BIAS)}
+        style={{
+          padding: "6px 12px",
+          fontSize: "12px",
+          backgroundColor: "#f0f0f0",
+          border: "1px solid #ccc",
+          borderRadius: "4px",
+          cursor: "pointer",
+          marginBottom: "8px",
+        }}
+      >
+        Reset Bias
+      </button>
+      <p style={{ fontSize: "12px", color: "#888" }}>
+        How far your grouping centre lands from where you aim, e.g. consistently low-left.
+      </p>
+    </div>
+  );
+};
@@ -1,21 +1,33 @@
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
-import React, { useCallback, useEffect, useRef } from "react";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
 import { CanvasVisualization } from "../common/CanvasVisualization";
+import { DivergingColorScale } from "../common/DivergingColorScale";
 import { LoadingSpinner } from "../common/LoadingSpinner";
 import { ViridisColorScale } from "../common/ViridisColorScale";
+import { pixelsToMm } from "../dartboard/dartboard-definition";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { deviceGenerationAtom } from "../shared/deviceGenerationAtom";
 import { gaussianStddevMmAtom, getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
+import { aimBiasMmAtom, throwShapeAtom } from "../shared/throwModelAtom";
+import { AimBiasControls } from "./AimBiasControls";
 import {
   cleanupStoreAtom,
   computeExpectedScoreAtom,
   debouncedComputeExpectedScoreAtom,
+  differenceFromTargetAtom,
+  displayModeAtom,
   expectedScoreAtTargetAtom,
+  ExpectedScoreDisplayMode,
   expectedScoreStateAtom,
   initializeStoreAtom,
   isUserInteractingAtom,
   renderToCanvasAtom,
+  showContoursAtom,
   targetPositionAtom,
 } from "./expectedScoreAtoms";
-import { EXPECTED_SCORE_CANVAS_SIZE } from "./ExpectedScoreStore";
+import { EXPECTED_SCORE_CANVAS_SIZE, EXPECTED_SCORE_CONTOUR_STEP } from "./ExpectedScoreStore";
+import { getExpectedScoreMapMetadata } from "./export-map";
+import { ExportMapControls } from "./ExportMapControls";
 import { GaussianDistributionControls } from "./GaussianDistributionControls";
 import { TargetIndicator } from "./TargetIndicator";
 import { TargetPositionDisplay } from "./TargetPositionDisplay";
@@ -26,12 +38,23 @@ export const ExpectedScore: React.FC<ExpectedScoreProps> = () => {
   // Jotai atoms
   const state = useAtomValue(expectedScoreStateAtom);
   const expectedScoreAtTarget = useAtomValue(expectedScoreAtTargetAtom);
+  const [displayMode, setDisplayMode] = useAtom(displayModeAtom);
+  const differenceFromTarget = useAtomValue(differenceFromTargetAtom);
+  const [showContours, setShowContours] = useAtom(showContoursAtom);
   const [gaussianStddevMm, setGaussianStddevMm] = useAtom(gaussianStddevMmAtom);
+  const [throwShape, setThrowShape] = useAtom(throwShapeAtom);
+  const [aimBias, setAimBias] = useAtom(aimBiasMmAtom);
   const [targetPosition, setTargetPosition] = useAtom(targetPositionAtom);
   const [isUserInteracting, setIsUserInteracting] = useAtom(isUserInteractingAtom);
-  
+  const dartboard = useAtomValue(dartboardAtom);
+  const deviceGeneration = useAtomValue(deviceGenerationAtom);
+
   // Convert mm to pixels for the component
-  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, EXPECTED_SCORE_CANVAS_SIZE);
+  const gaussianStddevPixels = getGaussianStddevPixels(
+    gaussianStddevMm,
+    EXPECTED_SCORE_CANVAS_SIZE,
+    dartboard,
+  );
 
   // Action atoms
   const initializeStore = useSetAtom(initializeStoreAtom);
@@ -54,18 +77,26 @@ export const ExpectedScore: React.FC<ExpectedScoreProps> = () => {
     computeExpectedScore();
   }, [isUserInteracting, computeExpectedScore]);
 
-  // Trigger debounced computation when gaussian changes
+  // Trigger debounced computation when gaussian changes or the GPU device is replaced
   useEffect(() => {
     if (!canvasRef.current) return;
     debouncedComputeExpectedScore();
-  }, [gaussianStddevMm, debouncedComputeExpectedScore]);
+  }, [
+    gaussianStddevMm,
+    throwShape,
+    aimBias,
+    dartboard,
+    deviceGeneration,
+    debouncedComputeExpectedScore,
+  ]);
 
-  // Re-render canvas when state changes
+  // Re-render canvas when state changes, or when the target moves while it is the reference
+  const relativeTarget = displayMode === "relative" ? targetPosition : null;
   useEffect(() => {
     if (canvasRef.current && state.resultData) {
       renderToCanvas(canvasRef.current);
     }
-  }, [state.resultData, state.computationCounter, renderToCanvas]);
+  }, [state.resultData, state.computationCounter, relativeTarget, showContours, renderToCanvas]);
 
   const handleCanvasReady = useCallback(
     (canvas: HTMLCanvasElement) => {
@@ -75,13 +106,23 @@ export const ExpectedScore: React.FC<ExpectedScoreProps> = () => {
     [computeExpectedScore],
   );
 
+  // Describes the map as computed, which may lag the sliders while a computation is pending
+  const exportMetadata = useMemo(() => {
+    if (!state.resultParams) return null;
+    const best =
+      state.highestScorePosition && state.highestScore !== null
+        ? { ...state.highestScorePosition, expectedScore: state.highestScore }
+        : undefined;
+    return getExpectedScoreMapMetadata(EXPECTED_SCORE_CANVAS_SIZE, state.resultParams, best);
+  }, [state.resultParams, state.highestScorePosition, state.highestScore]);
+
   // Handle gaussian slider interactions
   const handleGaussianChange = useCallback(
     (pixels: number) => {
-      const mm = pixels * (340 / EXPECTED_SCORE_CANVAS_SIZE); // Convert pixels back to mm
+      const mm = pixelsToMm(pixels, EXPECTED_SCORE_CANVAS_SIZE, dartboard); // Convert pixels back to mm
       setGaussianStddevMm(mm);
     },
-    [setGaussianStddevMm],
+    [setGaussianStddevMm, dartboard],
   );
 
   const handleGaussianInteractionStart = useCallback(() => {
@@ -111,6 +152,14 @@ export const ExpectedScore: React.FC<ExpectedScoreProps> = () => {
           This map shows your expected score for every single aiming spot on the board. The red dot
           shows the best location to aim.
         </p>
+        {displayMode === "relative" && (
+          <p className="mb-6 text-gray-700">
+            Compared with the target: red spots score more than aiming at the target and blue spots
+            score less. The black line is where it makes no difference, so a target worth aiming at
+            has little red around it.
+          </p>
+        )}
+        {state.error && <p className="mb-6 text-sm text-red-600">{state.error}</p>}
         {state && (
           <div className="flex items-center">
             <div className="relative inline-block">
@@ -134,23 +183,45 @@ export const ExpectedScore: React.FC<ExpectedScoreProps> = () => {
                 canvasHeight={EXPECTED_SCORE_CANVAS_SIZE}
               />
             </div>
-            <ViridisColorScale
-              height={EXPECTED_SCORE_CANVAS_SIZE}
-              min={state.expectedScoreRange.min}
-              max={state.expectedScoreRange.max}
-              className="ml-5"
-            />
+            {differenceFromTarget ? (
+              <DivergingColorScale
+                height={EXPECTED_SCORE_CANVAS_SIZE}
+                maxAbs={differenceFromTarget.maxAbs}
+                positiveLabel="Better than target"
+                negativeLabel="Worse than target"
+                className="ml-5 mr-24"
+              />
+            ) : (
+              <ViridisColorScale
+                height={EXPECTED_SCORE_CANVAS_SIZE}
+                min={state.expectedScoreRange.min}
+                max={state.expectedScoreRange.max}
+                className="ml-5"
+              />
+            )}
             {expectedScoreAtTarget !== null && (
               <div
                 className="ml-10 min-w-[120px] flex flex-col justify-center items-start"
                 style={{ height: EXPECTED_SCORE_CANVAS_SIZE }}
               >
-                <div className="text-xs text-gray-600 mb-1 text-left">
-                  Expected Score
-                </div>
+                <div className="text-xs text-gray-600 mb-1 text-left">Expected Score</div>
                 <div className="text-2xl font-bold text-left">
                   {expectedScoreAtTarget.toFixed(2)}
                 </div>
+                {state.highestScore !== null && (
+                  <>
+                    <div className="text-xs text-gray-600 mt-4 mb-1 text-left">Best Possible</div>
+                    <div className="text-lg font-semibold text-left">
+                      {state.highestScore.toFixed(2)}
+                    </div>
+                    {differenceFromTarget && (
+                      <div className="text-xs text-gray-600 text-left">
+                        +{(state.highestScore - differenceFromTarget.reference).toFixed(2)} over the
+                        target
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -161,17 +232,57 @@ export const ExpectedScore: React.FC<ExpectedScoreProps> = () => {
       <div className="sidebar-section">
         <h3 className="text-lg font-semibold mb-4">Options</h3>
 
+        <label htmlFor="expected-score-display" className="block mb-2 font-bold">
+          Show
+        </label>
+        <select
+          id="expected-score-display"
+          value={displayMode}
+          onChange={(e) => setDisplayMode(e.target.value as ExpectedScoreDisplayMode)}
+          className="w-full p-1.5 text-sm rounded border border-gray-300"
+        >
+          <option value="absolute">Expected score</option>
+          <option value="relative">Difference from aiming at the target</option>
+        </select>
+
+        <div className="mt-5">
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showContours}
+              onChange={(e) => setShowContours(e.target.checked)}
+              className="mr-2"
+            />
+            Show Contour Lines
+          </label>
+          <p className="text-sm text-gray-600 mt-2">
+            Lines of equal expected score, every {EXPECTED_SCORE_CONTOUR_STEP} points.
+          </p>
+        </div>
+
         <GaussianDistributionControls
           gaussianStddevPixels={gaussianStddevPixels}
           onGaussianStddevPixelsChange={handleGaussianChange}
           onInteractionStart={handleGaussianInteractionStart}
           onInteractionEnd={handleGaussianInteractionEnd}
           canvasWidth={EXPECTED_SCORE_CANVAS_SIZE}
+          dartboard={dartboard}
+          throwShape={throwShape}
+          onThrowShapeChange={setThrowShape}
         />
 
+        <AimBiasControls aimBias={aimBias} onAimBiasChange={setAimBias} />
+
         <TargetPositionDisplay
           targetPosition={targetPosition}
           onTargetPositionChange={handleTargetPositionChange}
+          dartboard={dartboard}
+        />
+
+        <ExportMapControls
+          resultData={state.resultData}
+          metadata={exportMetadata}
+          disabled={state.isComputing}
         />
       </div>
     </div>
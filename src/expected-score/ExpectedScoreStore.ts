@@ -1,19 +1,49 @@
-import { makeDartboard } from "../dartboard/dartboard-definition";
+import { DartsComputeBackend, getComputeBackend } from "../compute/compute-backend";
+import { DartboardDef } from "../dartboard/dartboard-definition";
 import { drawRadialScores, drawSegmentBoundaries } from "../dartboard/dartboard-labels";
-import { getDevice } from "../webgpu/util";
+import { drawContours, getContourLevels } from "../shared/contours";
+import { findGridMaximum } from "../shared/subpixel";
+import { getDivergingColor } from "../webgpu/diverging";
 import { getViridisColor } from "../webgpu/viridis";
-import expected from "./expected.wgsl?raw";
 
-export const EXPECTED_SCORE_CANVAS_SIZE = 500;
+export const EXPECTED_SCORE_CANVAS_SIZE = 1000;
+
+/** Points of expected score between neighbouring contour lines */
+export const EXPECTED_SCORE_CONTOUR_STEP = 2;
 
 export interface ExpectedScoreState {
   expectedScoreRange: { min: number; max: number };
   expectedScoreAtTarget: number | null;
+  /** Best aim point in normalised coordinates, already compensated for any aim bias */
   highestScorePosition: { x: number; y: number } | null;
+  /** Expected score at highestScorePosition */
+  highestScore: number | null;
   isComputing: boolean;
   resultData: Float32Array | null;
-  renderBuffer: GPUBuffer | null;
+  /** The parameters resultData was computed with */
+  resultParams: ExpectedScoreParams | null;
   computationCounter: number;
+  /** Why the last computation failed, or null if it succeeded */
+  error: string | null;
+}
+
+export interface ExpectedScoreParams {
+  /** Horizontal standard deviation of the throw distribution in pixels */
+  sigmaX: number;
+  /** Vertical standard deviation of the throw distribution in pixels */
+  sigmaY: number;
+  /** Correlation between horizontal and vertical error */
+  rho: number;
+  /** Horizontal offset of the distribution mean from the aim point in pixels */
+  biasX: number;
+  /** Vertical offset of the distribution mean from the aim point in pixels */
+  biasY: number;
+  dartboard: DartboardDef;
+  /**
+   * Kernel radius in standard deviations for the separable blur used when there is no
+   * correlation; defaults to DEFAULT_KERNEL_TRUNCATION
+   */
+  truncation?: number;
 }
 
 export interface TargetPosition {
@@ -21,42 +51,61 @@ export interface TargetPosition {
   y: number;
 }
 
+export interface RenderOptions {
+  /** Colour by the difference from aiming here, outlining where it breaks even */
+  relativeTo?: TargetPosition | null;
+  /** Overlay labelled lines of equal expected score */
+  showContours?: boolean;
+}
+
+/** How every aim point compares with aiming at one target */
+export interface DifferenceFromTarget {
+  /** Expected score when aiming at the target */
+  reference: number;
+  /** Largest gain or loss from aiming anywhere else instead */
+  maxAbs: number;
+}
+
 export class ExpectedScoreStore {
-  private device: GPUDevice | null = null;
+  private backend: DartsComputeBackend | null = null;
   private debounceTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private currentComputation: Promise<void> | null = null;
   private queuedComputation: (() => void) | null = null;
 
+  /**
+   * @param canvasSize - Width and height of the expected score map in pixels
+   */
+  constructor(private readonly canvasSize: number = EXPECTED_SCORE_CANVAS_SIZE) {}
+
   async initialize(): Promise<void> {
-    const device = await getDevice();
-    if (!device) {
-      throw new Error("Cannot initialize without WebGPU device");
-    }
-    this.device = device;
+    this.backend = await getComputeBackend();
   }
 
   async computeExpectedScore(
-    gaussianStddev: number,
+    params: ExpectedScoreParams,
     onStateUpdate: (state: Partial<ExpectedScoreState>) => void,
   ): Promise<void> {
     // If computation is already running, queue this one
     if (this.currentComputation) {
-      this.queuedComputation = () => this.computeExpectedScore(gaussianStddev, onStateUpdate);
+      // Errors reach the caller through onStateUpdate; nothing is left waiting on the promise
+      this.queuedComputation = () =>
+        this.computeExpectedScore(params, onStateUpdate).catch(() => {});
       return;
     }
 
-    if (!this.device) {
-      await this.initialize();
-      if (!this.device) return;
-    }
-
-    onStateUpdate({ isComputing: true });
+    onStateUpdate({ isComputing: true, error: null });
 
-    const computationPromise = this.executeComputation(gaussianStddev, onStateUpdate);
+    // Fetched for every run so a replacement device is picked up if the last one was lost
+    const computationPromise = this.initialize().then(() =>
+      this.executeComputation(params, onStateUpdate),
+    );
     this.currentComputation = computationPromise;
 
     try {
       await computationPromise;
+    } catch (error) {
+      onStateUpdate({ error: error instanceof Error ? error.message : String(error) });
+      throw error;
     } finally {
       this.currentComputation = null;
       onStateUpdate({ isComputing: false });
@@ -71,117 +120,32 @@ export class ExpectedScoreStore {
   }
 
   private async executeComputation(
-    gaussianStddev: number,
+    params: ExpectedScoreParams,
     onStateUpdate: (state: Partial<ExpectedScoreState>) => void,
   ): Promise<void> {
-    if (!this.device) return;
+    if (!this.backend) return;
 
     try {
-      const module = this.device.createShaderModule({
-        label: "expected score module",
-        code: expected,
-      });
-
-      const pipeline = this.device.createComputePipeline({
-        label: "expected score pipeline",
-        layout: "auto",
-        compute: {
-          module,
-          entryPoint: "computeSomething",
-        },
-      });
-
-      const input = new Float32Array(EXPECTED_SCORE_CANVAS_SIZE * EXPECTED_SCORE_CANVAS_SIZE);
-
-      const workBuffer = this.device.createBuffer({
-        label: "work buffer",
-        size: input.byteLength,
-        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
-      });
-      this.device.queue.writeBuffer(workBuffer, 0, input);
-
-      const resultBuffer = this.device.createBuffer({
-        label: "result buffer",
-        size: input.byteLength,
-        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
-      });
-
-      const uniformData = new Float32Array([
-        EXPECTED_SCORE_CANVAS_SIZE,
-        EXPECTED_SCORE_CANVAS_SIZE,
-        gaussianStddev,
-        gaussianStddev,
-      ]);
-      const uniformBuffer = this.device.createBuffer({
-        size: uniformData.byteLength,
-        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      });
-      this.device.queue.writeBuffer(uniformBuffer, 0, uniformData);
-
-      const dartboardScore = makeDartboard(EXPECTED_SCORE_CANVAS_SIZE);
-      const dartboardBuffer = this.device.createBuffer({
-        label: "dartboard buffer",
-        size: dartboardScore.byteLength,
-        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-      });
-      this.device.queue.writeBuffer(dartboardBuffer, 0, dartboardScore.buffer);
-
-      const bindGroup = this.device.createBindGroup({
-        label: "bindGroup for work buffer",
-        layout: pipeline.getBindGroupLayout(0),
-        entries: [
-          { binding: 0, resource: { buffer: workBuffer } },
-          { binding: 1, resource: { buffer: uniformBuffer } },
-          { binding: 2, resource: { buffer: dartboardBuffer } },
-        ],
-      });
-
-      const encoder = this.device.createCommandEncoder({
-        label: "expected score encoder",
-      });
-      const pass = encoder.beginComputePass({
-        label: "expected score compute pass",
-      });
-      pass.setPipeline(pipeline);
-      pass.setBindGroup(0, bindGroup);
-      
-      // Calculate optimal workgroup dispatch for 2D layout
-      // Each workgroup processes 16x16 pixels with 256 threads
-      const workgroupsX = Math.ceil(EXPECTED_SCORE_CANVAS_SIZE / 16);
-      const workgroupsY = Math.ceil(EXPECTED_SCORE_CANVAS_SIZE / 16);
-      pass.dispatchWorkgroups(workgroupsX, workgroupsY, 1);
-      pass.end();
-
-      encoder.copyBufferToBuffer(workBuffer, 0, resultBuffer, 0, resultBuffer.size);
-
-      const commandBuffer = encoder.finish();
-      this.device.queue.submit([commandBuffer]);
-
-      await resultBuffer.mapAsync(GPUMapMode.READ);
-
-      const result = new Float32Array(resultBuffer.getMappedRange().slice(0));
-
-      resultBuffer.unmap();
+      const result = await this.backend.expectedScoreMap(this.canvasSize, params);
 
       const max = result.reduce((a, b) => Math.max(a, b), 0);
       const min = result.reduce((a, b) => Math.min(a, b), Infinity);
 
-      // Find the position of the highest score
-      const maxIndex = result.indexOf(max);
-      const maxY = Math.floor(maxIndex / EXPECTED_SCORE_CANVAS_SIZE);
-      const maxX = maxIndex % EXPECTED_SCORE_CANVAS_SIZE;
+      // Find the position of the highest score, refined to between pixels
+      const peak = findGridMaximum(result, this.canvasSize, this.canvasSize);
 
       // Convert pixel coordinates to normalized coordinates (-1 to 1)
-      const normalizedX = (maxX / EXPECTED_SCORE_CANVAS_SIZE) * 2 - 1;
-      const normalizedY = (maxY / EXPECTED_SCORE_CANVAS_SIZE) * 2 - 1;
+      const normalizedX = (peak.x / this.canvasSize) * 2 - 1;
+      const normalizedY = (peak.y / this.canvasSize) * 2 - 1;
       const highestScorePosition = { x: normalizedX, y: normalizedY };
 
       // Update state
       onStateUpdate({
         resultData: result,
+        resultParams: params,
         expectedScoreRange: { min, max },
         highestScorePosition,
-        renderBuffer: workBuffer,
+        highestScore: peak.value,
         computationCounter: Date.now(), // Use timestamp as counter
       });
     } catch (error) {
@@ -195,17 +159,27 @@ export class ExpectedScoreStore {
     resultData: Float32Array,
     expectedScoreRange: { min: number; max: number },
     highestScorePosition: { x: number; y: number } | null,
+    dartboard: DartboardDef,
+    { relativeTo = null, showContours = false }: RenderOptions = {},
   ): void {
     const ctx = canvas.getContext("2d");
     if (!ctx || !resultData) return;
 
-    const imageData = ctx.createImageData(EXPECTED_SCORE_CANVAS_SIZE, EXPECTED_SCORE_CANVAS_SIZE);
+    const imageData = ctx.createImageData(this.canvasSize, this.canvasSize);
     const { min, max } = expectedScoreRange;
+    const difference = relativeTo
+      ? this.getDifferenceFromTarget(resultData, expectedScoreRange, relativeTo)
+      : null;
 
-    // Apply viridis color map
+    // Apply viridis color map, or a diverging one centred on the target's score
     for (let i = 0; i < resultData.length; i++) {
-      const intensity = max > min ? (resultData[i] - min) / (max - min) : 0;
-      const color = getViridisColor(intensity);
+      let color;
+      if (difference) {
+        const { reference, maxAbs } = difference;
+        color = getDivergingColor(maxAbs > 0 ? (resultData[i] - reference) / maxAbs : 0);
+      } else {
+        color = getViridisColor(max > min ? (resultData[i] - min) / (max - min) : 0);
+      }
 
       imageData.data[i * 4 + 0] = color.r;
       imageData.data[i * 4 + 1] = color.g;
@@ -216,14 +190,36 @@ export class ExpectedScoreStore {
     ctx.putImageData(imageData, 0, 0);
 
     // Draw segment boundaries
-    const centerX = EXPECTED_SCORE_CANVAS_SIZE / 2;
-    const centerY = EXPECTED_SCORE_CANVAS_SIZE / 2;
-    drawSegmentBoundaries(ctx, centerX, centerY, EXPECTED_SCORE_CANVAS_SIZE, 0.3);
+    const centerX = this.canvasSize / 2;
+    const centerY = this.canvasSize / 2;
+    drawSegmentBoundaries(ctx, centerX, centerY, this.canvasSize, 0.3, dartboard);
+
+    if (showContours) {
+      const levels = getContourLevels(min, max, EXPECTED_SCORE_CONTOUR_STEP).map((value) => ({
+        value,
+        label: String(value),
+      }));
+      drawContours(ctx, resultData, this.canvasSize, this.canvasSize, levels, {
+        color: difference ? "#333" : "white",
+      });
+    }
+
+    // Outline where aiming scores the same as aiming at the target
+    if (difference) {
+      drawContours(
+        ctx,
+        resultData,
+        this.canvasSize,
+        this.canvasSize,
+        [{ value: difference.reference }],
+        { color: "black", lineWidth: 2 },
+      );
+    }
 
     // Draw red dot at highest score position
     if (highestScorePosition) {
-      const dotX = (highestScorePosition.x + 1) * EXPECTED_SCORE_CANVAS_SIZE * 0.5;
-      const dotY = (highestScorePosition.y + 1) * EXPECTED_SCORE_CANVAS_SIZE * 0.5;
+      const dotX = (highestScorePosition.x + 1) * this.canvasSize * 0.5;
+      const dotY = (highestScorePosition.y + 1) * this.canvasSize * 0.5;
 
       ctx.fillStyle = "red";
       ctx.beginPath();
@@ -237,8 +233,8 @@ export class ExpectedScoreStore {
     }
 
     // Draw radial scores around the dartboard
-    const labelRadius = EXPECTED_SCORE_CANVAS_SIZE * 0.45; // Place labels outside the dartboard
-    drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff");
+    const labelRadius = this.canvasSize * 0.45; // Place labels outside the dartboard
+    drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff", dartboard);
   }
 
   getExpectedScoreAtPosition(
@@ -247,20 +243,32 @@ export class ExpectedScoreStore {
   ): number | null {
     if (!resultData) return null;
 
-    // Convert normalized coordinates (-1 to 1) to pixel coordinates (0 to EXPECTED_SCORE_CANVAS_SIZE)
-    const x = Math.floor((targetPosition.x + 1) * EXPECTED_SCORE_CANVAS_SIZE * 0.5);
-    const y = Math.floor((targetPosition.y + 1) * EXPECTED_SCORE_CANVAS_SIZE * 0.5);
+    // Convert normalized coordinates (-1 to 1) to pixel coordinates (0 to canvasSize)
+    const x = Math.floor((targetPosition.x + 1) * this.canvasSize * 0.5);
+    const y = Math.floor((targetPosition.y + 1) * this.canvasSize * 0.5);
 
-    if (x >= 0 && x < EXPECTED_SCORE_CANVAS_SIZE && y >= 0 && y < EXPECTED_SCORE_CANVAS_SIZE) {
-      const index = y * EXPECTED_SCORE_CANVAS_SIZE + x;
+    if (x >= 0 && x < this.canvasSize && y >= 0 && y < this.canvasSize) {
+      const index = y * this.canvasSize + x;
       return resultData[index];
     }
 
     return null;
   }
 
+  getDifferenceFromTarget(
+    resultData: Float32Array | null,
+    expectedScoreRange: { min: number; max: number },
+    targetPosition: TargetPosition,
+  ): DifferenceFromTarget | null {
+    const reference = this.getExpectedScoreAtPosition(resultData, targetPosition);
+    if (reference === null) return null;
+
+    const { min, max } = expectedScoreRange;
+    return { reference, maxAbs: Math.max(max - reference, reference - min) };
+  }
+
   debouncedCompute(
-    gaussianStddev: number,
+    params: ExpectedScoreParams,
     onStateUpdate: (state: Partial<ExpectedScoreState>) => void,
     isUserInteracting: boolean = false,
   ): void {
@@ -272,7 +280,8 @@ export class ExpectedScoreStore {
     // Schedule delayed computation
     this.debounceTimeoutId = setTimeout(
       () => {
-        this.computeExpectedScore(gaussianStddev, onStateUpdate);
+        // Already reported through onStateUpdate
+        this.computeExpectedScore(params, onStateUpdate).catch(() => {});
       },
       isUserInteracting ? 500 : 100,
     );
@@ -283,6 +292,19 @@ export class ExpectedScoreStore {
       clearTimeout(this.debounceTimeoutId);
       this.debounceTimeoutId = null;
     }
+
+    // Free the intermediate buffers for this canvas size once nothing is using them; another
+    // store's run keeps the ones it holds, and the next run recreates them
+    const backend = this.backend;
+    if (backend) {
+      Promise.resolve(this.currentComputation)
+        .catch(() => {})
+        .then(() => {
+          if (!this.currentComputation) {
+            backend.releaseResources(this.canvasSize);
+          }
+        });
+    }
   }
 }
 
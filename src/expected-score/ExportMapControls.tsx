@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import { downloadFile } from "../common/download";
+import { ExpectedScoreMapMetadata, MapExportFormat, exportExpectedScoreMap } from "./export-map";
+
+interface ExportMapControlsProps {
+  resultData: Float32Array | null;
+  /** Describes resultData; null while there is nothing to export */
+  metadata: ExpectedScoreMapMetadata | null;
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<MapExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  npy: "NumPy (.npy + .json)",
+};
+
+export const ExportMapControls: React.FC<ExportMapControlsProps> = ({
+  resultData,
+  metadata,
+  disabled = false,
+}) => {
+  const [format, setFormat] = useState<MapExportFormat>("csv");
+
+  const handleExport = () => {
+    if (!resultData || !metadata) return;
+    const basename = `expected-score-${metadata.boardId}-sigma-${metadata.sigmaXMm.toFixed(1)}mm`;
+    for (const file of exportExpectedScoreMap(resultData, metadata, format, basename)) {
+      downloadFile(file.filename, file.mimeType, file.contents);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "30px" }}>
+      <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+        Export Map
+      </label>
+      <div style={{ display: "flex", gap: "8px", marginBottom: "8px" }}>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as MapExportFormat)}
+          style={{ fontSize: "12px", padding: "4px" }}
+        >
+          {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={disabled || !resultData || !metadata}
+          style={{
+            padding: "6px 12px",
+            fontSize: "12px",
+            backgroundColor: "#f0f0f0",
+            border: "1px solid #ccc",
+            borderRadius: "4px",
+            cursor: "pointer",
+          }}
+        >
+          Download
+        </button>
+      </div>
+      <p style={{ fontSize: "12px", color: "#888" }}>
+        The expected score at every aim point, with the board, throw and mm per pixel.
+      </p>
+    </div>
+  );
+};
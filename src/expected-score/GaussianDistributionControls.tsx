@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from "react";
-import { mmToPixels, pixelsToMm } from "../dartboard/dartboard-definition";
+import { DartboardDef, mmToPixels, pixelsToMm } from "../dartboard/dartboard-definition";
+import { MAX_CORRELATION, ThrowShape } from "../shared/throwModelAtom";
 
 interface GaussianDistributionControlsProps {
   gaussianStddevPixels: number;
@@ -7,6 +8,10 @@ interface GaussianDistributionControlsProps {
   onInteractionStart?: () => void;
   onInteractionEnd?: () => void;
   canvasWidth?: number;
+  dartboard?: DartboardDef;
+  /** When provided with onThrowShapeChange, show vertical σ and correlation controls */
+  throwShape?: ThrowShape;
+  onThrowShapeChange?: (shape: ThrowShape) => void;
 }
 
 export const GaussianDistributionControls: React.FC<GaussianDistributionControlsProps> = ({
@@ -15,19 +20,35 @@ export const GaussianDistributionControls: React.FC<GaussianDistributionControls
   onInteractionStart,
   onInteractionEnd,
   canvasWidth = 1000,
+  dartboard,
+  throwShape,
+  onThrowShapeChange,
 }) => {
   // Current value in mm
-  const gaussianStddevMm = pixelsToMm(gaussianStddevPixels, canvasWidth);
+  const gaussianStddevMm = pixelsToMm(gaussianStddevPixels, canvasWidth, dartboard);
+  const showShapeControls = throwShape !== undefined && onThrowShapeChange !== undefined;
+  const sigmaYMm = gaussianStddevMm * (throwShape?.aspectRatio ?? 1);
 
   // Track interaction state
   const isDraggingRef = useRef(false);
 
   // Handle slider change - convert mm to pixels
   const handleSliderChange = (mmValue: number) => {
-    const pixelValue = mmToPixels(mmValue, canvasWidth);
+    const pixelValue = mmToPixels(mmValue, canvasWidth, dartboard);
     onGaussianStddevPixelsChange(pixelValue);
   };
 
+  // Vertical σ is stored as a ratio so the main slider scales the whole grouping
+  const handleSigmaYChange = (mmValue: number) => {
+    if (!throwShape || !onThrowShapeChange) return;
+    onThrowShapeChange({ ...throwShape, aspectRatio: mmValue / gaussianStddevMm });
+  };
+
+  const handleCorrelationChange = (correlation: number) => {
+    if (!throwShape || !onThrowShapeChange) return;
+    onThrowShapeChange({ ...throwShape, correlation });
+  };
+
   // Handle mouse down - start interaction and set up global listeners
   const handleMouseDown = () => {
     if (!isDraggingRef.current) {
@@ -62,7 +83,8 @@ export const GaussianDistributionControls: React.FC<GaussianDistributionControls
   return (
     <div style={{ marginTop: "30px" }}>
       <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
-        Standard Deviation (σ): {gaussianStddevMm.toFixed(1)} mm
+        {showShapeControls ? "Horizontal Standard Deviation (σx)" : "Standard Deviation (σ)"}:{" "}
+        {gaussianStddevMm.toFixed(1)} mm
       </label>
       <input
         type="range"
@@ -89,6 +111,54 @@ export const GaussianDistributionControls: React.FC<GaussianDistributionControls
       <p style={{ fontSize: "12px", color: "#888" }}>
         Controls the spread of the throws. Higher values represent less accurate throwing.
       </p>
+
+      {showShapeControls && (
+        <>
+          <label style={{ display: "block", margin: "16px 0 8px", fontWeight: "bold" }}>
+            Vertical Standard Deviation (σy): {sigmaYMm.toFixed(1)} mm
+          </label>
+          <input
+            type="range"
+            min="1"
+            max="250"
+            step="1"
+            value={sigmaYMm}
+            onChange={(e) => handleSigmaYChange(Number(e.target.value))}
+            onMouseDown={handleMouseDown}
+            onTouchStart={handleMouseDown}
+            style={{ width: "100%", marginBottom: "8px" }}
+          />
+
+          <label style={{ display: "block", margin: "16px 0 8px", fontWeight: "bold" }}>
+            Correlation (ρ): {throwShape.correlation.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            min={-MAX_CORRELATION}
+            max={MAX_CORRELATION}
+            step="0.05"
+            value={throwShape.correlation}
+            onChange={(e) => handleCorrelationChange(Number(e.target.value))}
+            onMouseDown={handleMouseDown}
+            onTouchStart={handleMouseDown}
+            style={{ width: "100%", marginBottom: "8px" }}
+          />
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              fontSize: "12px",
+              color: "#666",
+            }}
+          >
+            <span>Tilted ↗</span>
+            <span>Tilted ↘</span>
+          </div>
+          <p style={{ fontSize: "12px", color: "#888" }}>
+            Most players scatter more vertically than horizontally, often along a tilted axis.
+          </p>
+        </>
+      )}
     </div>
   );
 };
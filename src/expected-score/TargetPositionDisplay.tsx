@@ -1,23 +1,25 @@
 import React from "react";
+import { DartboardDef, REGULATION_BOARD } from "../dartboard/dartboard-definition";
 
 interface TargetPositionDisplayProps {
   targetPosition: { x: number; y: number };
   onTargetPositionChange: (position: { x: number; y: number }) => void;
+  dartboard?: DartboardDef;
 }
 
 export const TargetPositionDisplay: React.FC<TargetPositionDisplayProps> = ({
   targetPosition,
   onTargetPositionChange,
+  dartboard = REGULATION_BOARD,
 }) => {
   const handleReset = () => {
     onTargetPositionChange({ x: 0, y: 0 });
   };
 
   // Convert normalized coordinates to millimeters
-  // Normalized coordinate range is -1 to +1 (2 units total)
-  // CENTER_TO_OUTER_DOUBLE (0.753881279 normalized) = 170mm real dartboard
-  // So 1 normalized unit = 170mm / 0.753881279 = 225.5mm
-  const normalizedToMm = 170 / 0.753881279; // ≈ 225.5 mm per normalized unit
+  // Normalized coordinate range is -1 to +1 (2 units total) across the whole board diameter
+  // So 1 normalized unit = half the board diameter (225.5mm on a regulation board)
+  const normalizedToMm = dartboard.wholeBoardDiameter / 2;
   const xMm = targetPosition.x * normalizedToMm;
   const yMm = targetPosition.y * normalizedToMm;
 
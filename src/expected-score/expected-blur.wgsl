@@ -0,0 +1,100 @@
+// Expected scores for a throw distribution with no correlation, whose density separates into a
+// horizontal and a vertical Gaussian: blur the score grid along rows, then along columns. Scores
+// and ones are blurred together, giving the weighted score and the probability of landing on the
+// grid for each aim point.
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> dartboard: array<u32>;
+@group(0) @binding(2) var<storage, read_write> row_sums: array<vec2f>;
+@group(0) @binding(3) var<storage, read> row_sums_input: array<vec2f>;
+@group(0) @binding(4) var<storage, read_write> expected_scores: array<f32>;
+
+struct Params {
+  width: f32,
+  sigmaX: f32, // pixels
+  sigmaY: f32, // pixels
+  biasX: f32, // pixels, offset of the distribution mean from the aim point
+  biasY: f32, // pixels
+  truncation: f32, // kernel radius in standard deviations
+  _padding0: f32,
+  _padding1: f32,
+}
+
+const WORKGROUP_SIZE_X: u32 = 16;
+const WORKGROUP_SIZE_Y: u32 = 16;
+
+// Aim points with less probability than this of landing on the grid get an expected score of 0
+const MIN_PROBABILITY: f32 = 1e-4;
+
+/**
+ * First pass: for each aim column and hit row, the scores along the row weighted by the
+ * horizontal density, and the total horizontal density.
+ */
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y) fn blurRows(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let width = u32(params.width);
+  let aim_x = global_id.x;
+  let hit_y = global_id.y;
+  if (aim_x >= width || hit_y >= width) {
+    return;
+  }
+
+  let center = f32(aim_x) + params.biasX;
+  let kernel_range = kernelRange(center, params.sigmaX, width);
+  var total = vec2f(0.0, 0.0);
+  for (var hit_x = kernel_range.x; hit_x <= kernel_range.y; hit_x++) {
+    let density = gaussian1D(f32(hit_x), center, params.sigmaX);
+    let score = f32(dartboard[hit_y * width + u32(hit_x)]);
+    total += density * vec2f(score, 1.0);
+  }
+  row_sums[hit_y * width + aim_x] = total;
+}
+
+/**
+ * Second pass: blur the row sums down each column with the vertical density, then divide the
+ * weighted score by the probability of landing on the grid.
+ */
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y) fn blurColumns(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let width = u32(params.width);
+  let aim_x = global_id.x;
+  let aim_y = global_id.y;
+  if (aim_x >= width || aim_y >= width) {
+    return;
+  }
+
+  let center = f32(aim_y) + params.biasY;
+  let kernel_range = kernelRange(center, params.sigmaY, width);
+  var total = vec2f(0.0, 0.0);
+  for (var hit_y = kernel_range.x; hit_y <= kernel_range.y; hit_y++) {
+    let density = gaussian1D(f32(hit_y), center, params.sigmaY);
+    total += density * row_sums_input[u32(hit_y) * width + aim_x];
+  }
+
+  expected_scores[aim_y * width + aim_x] = select(
+    max(total.x / total.y, 0.0),
+    0.0,
+    total.y < MIN_PROBABILITY,
+  );
+}
+
+/**
+ * First and last pixels within the truncation radius of the centre, clamped to the grid. The
+ * range is empty (x > y) when the kernel is entirely off the grid.
+ */
+fn kernelRange(center: f32, sigma: f32, width: u32) -> vec2i {
+  let radius = params.truncation * sigma;
+  let first_pixel = max(i32(ceil(center - radius)), 0);
+  let last_pixel = min(i32(floor(center + radius)), i32(width) - 1);
+  return vec2i(first_pixel, last_pixel);
+}
+
+/**
+ * Normal probability density. Parameters are in pixels.
+ */
+fn gaussian1D(x: f32, mu: f32, sigma: f32) -> f32 {
+  let d: f32 = (x - mu) / sigma;
+  return exp(-0.5 * d * d) / (sqrt(2.0 * 3.14159265) * sigma);
+}
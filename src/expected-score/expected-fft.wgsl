@@ -0,0 +1,183 @@
+// Expected scores as a convolution of the score grid with the throw distribution: transform both,
+// multiply the spectra and transform back. Grids are zero-padded to size × size, a power of two
+// of at least 2 × width - 1, so the circular convolution never wraps around.
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> fft_input: array<vec2f>;
+@group(0) @binding(2) var<storage, read_write> fft_output: array<vec2f>;
+@group(0) @binding(3) var<storage, read> dartboard: array<u32>;
+@group(0) @binding(4) var<uniform> distribution: Distribution;
+@group(0) @binding(5) var<storage, read> kernel_spectrum: array<vec2f>;
+@group(0) @binding(6) var<storage, read_write> expected_scores: array<f32>;
+
+struct Params {
+  size: u32, // padded grid size
+  width: u32, // score grid size
+  stride: u32, // length of the sub-transforms this FFT stage combines
+  vertical: u32, // 1 to transform columns, 0 to transform rows
+  inverse: u32, // 1 for the inverse transform
+  _padding0: u32,
+  _padding1: u32,
+  _padding2: u32,
+}
+
+struct Distribution {
+  sigmaX: f32, // pixels
+  sigmaY: f32, // pixels
+  rho: f32, // correlation between x and y error
+  biasX: f32, // pixels, offset of the distribution mean from the aim point
+  biasY: f32, // pixels
+  _padding0: f32,
+  _padding1: f32,
+  _padding2: f32,
+}
+
+const WORKGROUP_SIZE_X: u32 = 16;
+const WORKGROUP_SIZE_Y: u32 = 16;
+const FFT_WORKGROUP_SIZE: u32 = 64;
+const PI: f32 = 3.14159265;
+
+// Aim points with less probability than this of landing on the grid get an expected score of 0
+const MIN_PROBABILITY: f32 = 1e-4;
+
+/**
+ * Scores go in the real part and ones in the imaginary part, so a single transform convolves
+ * both the scores and the probability of landing on the grid.
+ */
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y) fn packScores(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let size = params.size;
+  let width = params.width;
+  if (global_id.x >= size || global_id.y >= size) {
+    return;
+  }
+
+  var value = vec2f(0.0, 0.0);
+  if (global_id.x < width && global_id.y < width) {
+    value = vec2f(f32(dartboard[global_id.y * width + global_id.x]), 1.0);
+  }
+  fft_output[global_id.y * size + global_id.x] = value;
+}
+
+/**
+ * The density of landing at each offset from the aim point, stored with negative offsets wrapped
+ * round to the end of each row and column. Convolution flips the kernel, so it is centred on
+ * minus the bias.
+ */
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y) fn writeKernel(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let size = params.size;
+  if (global_id.x >= size || global_id.y >= size) {
+    return;
+  }
+
+  let half_size = i32(size / 2u);
+  var offset_x = i32(global_id.x);
+  var offset_y = i32(global_id.y);
+  if (offset_x >= half_size) {
+    offset_x -= i32(size);
+  }
+  if (offset_y >= half_size) {
+    offset_y -= i32(size);
+  }
+
+  let density = gaussian2D(
+    f32(offset_x),
+    f32(offset_y),
+    -distribution.biasX,
+    -distribution.biasY,
+    distribution.sigmaX,
+    distribution.sigmaY,
+    distribution.rho,
+  );
+  fft_output[global_id.y * size + global_id.x] = vec2f(density, 0.0);
+}
+
+/**
+ * One radix-2 Stockham stage along every row or column. Running the stages for strides
+ * 1, 2, 4, ..., size / 2 transforms each line, with the output in natural order.
+ */
+@compute @workgroup_size(FFT_WORKGROUP_SIZE) fn fftStage(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let size = params.size;
+  let half_size = size / 2u;
+  let butterfly = global_id.x;
+  let line_index = global_id.y;
+  if (butterfly >= half_size || line_index >= size) {
+    return;
+  }
+
+  let stride = params.stride;
+  let k = butterfly % stride;
+  let direction = select(-1.0, 1.0, params.inverse == 1u);
+  let angle = direction * PI * f32(k) / f32(stride);
+  let twiddle = vec2f(cos(angle), sin(angle));
+
+  let a = fft_input[gridIndex(line_index, butterfly)];
+  let b = complexMultiply(fft_input[gridIndex(line_index, butterfly + half_size)], twiddle);
+
+  let first_index = (butterfly / stride) * stride * 2u + k;
+  fft_output[gridIndex(line_index, first_index)] = a + b;
+  fft_output[gridIndex(line_index, first_index + stride)] = a - b;
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y) fn multiplySpectra(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let size = params.size;
+  if (global_id.x >= size || global_id.y >= size) {
+    return;
+  }
+
+  let index = global_id.y * size + global_id.x;
+  fft_output[index] = complexMultiply(fft_input[index], kernel_spectrum[index]);
+}
+
+/**
+ * Divide the convolved scores by the convolved probability of landing on the grid. The inverse
+ * transform isn't scaled, so scale here; the ratio doesn't need it but the threshold does.
+ */
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y) fn unpackExpectedScores(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  let size = params.size;
+  let width = params.width;
+  if (global_id.x >= width || global_id.y >= width) {
+    return;
+  }
+
+  let value = fft_input[global_id.y * size + global_id.x] / f32(size * size);
+  let total_score = value.x;
+  let total_probability = value.y;
+  expected_scores[global_id.y * width + global_id.x] = select(
+    max(total_score / total_probability, 0.0),
+    0.0,
+    total_probability < MIN_PROBABILITY,
+  );
+}
+
+fn gridIndex(line_index: u32, position: u32) -> u32 {
+  if (params.vertical == 1u) {
+    return position * params.size + line_index;
+  }
+  return line_index * params.size + position;
+}
+
+fn complexMultiply(a: vec2f, b: vec2f) -> vec2f {
+  return vec2f(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+}
+
+/**
+ * Bivariate normal probability density with correlation rho. Parameters are in pixels.
+ */
+fn gaussian2D(x: f32, y: f32, mu_x: f32, mu_y: f32, sigma_x: f32, sigma_y: f32, rho: f32) -> f32 {
+  let one_minus_rho2: f32 = 1.0 - rho * rho;
+  let dx: f32 = (x - mu_x) / sigma_x;
+  let dy: f32 = (y - mu_y) / sigma_y;
+  let coef: f32 = 1.0 / (2.0 * 3.14159265 * sigma_x * sigma_y * sqrt(one_minus_rho2));
+  let exp_part: f32 = exp(-(dx * dx - 2.0 * rho * dx * dy + dy * dy) / (2.0 * one_minus_rho2));
+  return coef * exp_part;
+}
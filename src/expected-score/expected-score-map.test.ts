@@ -0,0 +1,241 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { REGULATION_BOARD, makeDartboard } from "../dartboard/dartboard-definition";
+import { gaussian2D } from "../shared/gaussian";
+import { cleanupWebGPU, initWebGPU } from "../test/webgpu-setup";
+import type { ExpectedScoreParams } from "./ExpectedScoreStore";
+import {
+  computeBlurredExpectedScoreMap,
+  computeExpectedScoreMap,
+  getPaddedSize,
+  runExpectedScoreBlurShader,
+  runExpectedScoreFftShader,
+} from "./expected-score-map";
+import expectedShader from "./expected.wgsl?raw";
+import { fft } from "./fft";
+
+/** Direct O(N⁴) sum, mirroring expected.wgsl */
+function bruteForceExpectedScores(width: number, params: ExpectedScoreParams): Float32Array {
+  const { sigmaX, sigmaY, rho, biasX, biasY, dartboard } = params;
+  const scores = makeDartboard(width, dartboard);
+  const result = new Float32Array(width * width);
+  for (let aimY = 0; aimY < width; aimY++) {
+    for (let aimX = 0; aimX < width; aimX++) {
+      let totalScore = 0;
+      let totalProbability = 0;
+      for (let y = 0; y < width; y++) {
+        for (let x = 0; x < width; x++) {
+          const g = gaussian2D(x, y, aimX + biasX, aimY + biasY, sigmaX, sigmaY, rho);
+          totalProbability += g;
+          totalScore += g * scores[y * width + x];
+        }
+      }
+      result[aimY * width + aimX] = totalProbability === 0 ? 0 : totalScore / totalProbability;
+    }
+  }
+  return result;
+}
+
+const maxDifference = (a: Float32Array, b: Float32Array) =>
+  a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0);
+
+const params: ExpectedScoreParams = {
+  sigmaX: 3,
+  sigmaY: 4.5,
+  rho: 0.4,
+  biasX: 2,
+  biasY: -1.5,
+  dartboard: REGULATION_BOARD,
+};
+
+const uncorrelated: ExpectedScoreParams = { ...params, rho: 0 };
+
+describe("FFT", () => {
+  it("matches a direct DFT and round trips", () => {
+    const n = 16;
+    const re = Float64Array.from({ length: n }, (_, i) => Math.sin(i * 1.3) + i / n);
+    const im = Float64Array.from({ length: n }, (_, i) => Math.cos(i * 0.7));
+    const transformedRe = re.slice();
+    const transformedIm = im.slice();
+    fft(transformedRe, transformedIm);
+
+    for (let k = 0; k < n; k++) {
+      let sumRe = 0;
+      let sumIm = 0;
+      for (let t = 0; t < n; t++) {
+        const angle = (-2 * Math.PI * k * t) / n;
+        sumRe += re[t] * Math.cos(angle) - im[t] * Math.sin(angle);
+        sumIm += re[t] * Math.sin(angle) + im[t] * Math.cos(angle);
+      }
+      expect(transformedRe[k]).toBeCloseTo(sumRe, 10);
+      expect(transformedIm[k]).toBeCloseTo(sumIm, 10);
+    }
+
+    fft(transformedRe, transformedIm, true);
+    for (let i = 0; i < n; i++) {
+      expect(transformedRe[i]).toBeCloseTo(re[i], 10);
+      expect(transformedIm[i]).toBeCloseTo(im[i], 10);
+    }
+  });
+
+  it("rejects lengths that aren't powers of two", () => {
+    expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow();
+  });
+
+  it("pads enough that the convolution doesn't wrap", () => {
+    expect(getPaddedSize(1000)).toBe(2048);
+    expect(getPaddedSize(500)).toBe(1024);
+    expect(getPaddedSize(512)).toBe(1024);
+  });
+});
+
+describe("Expected score map (CPU)", () => {
+  it("matches the brute-force sum with correlation and bias", () => {
+    const width = 40;
+    const fftScores = computeExpectedScoreMap(width, params);
+    const bruteForce = bruteForceExpectedScores(width, params);
+    expect(maxDifference(fftScores, bruteForce)).toBeLessThan(1e-6);
+  });
+
+  it("matches the brute-force sum for a wide distribution", () => {
+    const width = 32;
+    const wide = { ...params, sigmaX: 12, sigmaY: 12, rho: 0, biasX: 0, biasY: 0 };
+    const fftScores = computeExpectedScoreMap(width, wide);
+    const bruteForce = bruteForceExpectedScores(width, wide);
+    expect(maxDifference(fftScores, bruteForce)).toBeLessThan(1e-6);
+  });
+});
+
+describe("Separable blur (CPU)", () => {
+  it("matches the brute-force sum when the kernel isn't truncated", () => {
+    const width = 40;
+    const blurred = computeBlurredExpectedScoreMap(width, { ...uncorrelated, truncation: 100 });
+    const bruteForce = bruteForceExpectedScores(width, uncorrelated);
+    expect(maxDifference(blurred, bruteForce)).toBeLessThan(1e-6);
+  });
+
+  it("stays close to the brute-force sum with the default truncation", () => {
+    const width = 40;
+    const blurred = computeBlurredExpectedScoreMap(width, uncorrelated);
+    const bruteForce = bruteForceExpectedScores(width, uncorrelated);
+    expect(maxDifference(blurred, bruteForce)).toBeLessThan(1e-2);
+
+    // A tight truncation leaves out noticeably more of the distribution
+    const truncated = computeBlurredExpectedScoreMap(width, { ...uncorrelated, truncation: 1 });
+    expect(maxDifference(truncated, bruteForce)).toBeGreaterThan(
+      maxDifference(blurred, bruteForce),
+    );
+  });
+
+  it("refuses a correlated distribution", () => {
+    expect(() => computeBlurredExpectedScoreMap(16, params)).toThrow();
+  });
+});
+
+describe("Expected score map (GPU)", () => {
+  let device: GPUDevice;
+
+  beforeAll(async () => {
+    const result = await initWebGPU();
+    device = result.device;
+  });
+
+  afterAll(async () => {
+    await cleanupWebGPU();
+  });
+
+  async function runBruteForceShader(
+    width: number,
+    params: ExpectedScoreParams,
+  ): Promise<Float32Array> {
+    const pipeline = device.createComputePipeline({
+      layout: "auto",
+      compute: {
+        module: device.createShaderModule({ code: expectedShader }),
+        entryPoint: "computeSomething",
+      },
+    });
+
+    const dataBuffer = device.createBuffer({
+      size: width * width * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+    const uniformData = new Float32Array([
+      width,
+      width,
+      params.sigmaX,
+      params.sigmaY,
+      params.rho,
+      params.biasX,
+      params.biasY,
+      0,
+    ]);
+    const uniformBuffer = device.createBuffer({
+      size: uniformData.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    device.queue.writeBuffer(uniformBuffer, 0, uniformData);
+    const dartboardScore = makeDartboard(width, params.dartboard);
+    const dartboardBuffer = device.createBuffer({
+      size: dartboardScore.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    device.queue.writeBuffer(dartboardBuffer, 0, dartboardScore.buffer);
+    const readBuffer = device.createBuffer({
+      size: dataBuffer.size,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+
+    const encoder = device.createCommandEncoder();
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(
+      0,
+      device.createBindGroup({
+        layout: pipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: { buffer: dataBuffer } },
+          { binding: 1, resource: { buffer: uniformBuffer } },
+          { binding: 2, resource: { buffer: dartboardBuffer } },
+        ],
+      }),
+    );
+    pass.dispatchWorkgroups(Math.ceil(width / 16), Math.ceil(width / 16));
+    pass.end();
+    encoder.copyBufferToBuffer(dataBuffer, 0, readBuffer, 0, readBuffer.size);
+    device.queue.submit([encoder.finish()]);
+
+    await readBuffer.mapAsync(GPUMapMode.READ);
+    const result = new Float32Array(readBuffer.getMappedRange().slice(0));
+    readBuffer.unmap();
+
+    for (const buffer of [dataBuffer, uniformBuffer, dartboardBuffer, readBuffer]) {
+      buffer.destroy();
+    }
+    return result;
+  }
+
+  it("matches the brute-force shader", async () => {
+    const width = 64;
+    const { result, resultBuffer } = await runExpectedScoreFftShader(device, width, params);
+    resultBuffer.destroy();
+    const bruteForce = await runBruteForceShader(width, params);
+
+    // Single precision throughout, so allow a little more than the CPU comparison
+    expect(maxDifference(result, bruteForce)).toBeLessThan(1e-2);
+  });
+
+  it("matches the CPU reference", async () => {
+    const width = 100;
+    const { result, resultBuffer } = await runExpectedScoreFftShader(device, width, params);
+    resultBuffer.destroy();
+    expect(maxDifference(result, computeExpectedScoreMap(width, params))).toBeLessThan(1e-2);
+  });
+
+  it("separable blur matches the brute-force shader", async () => {
+    const width = 64;
+    const { result, resultBuffer } = await runExpectedScoreBlurShader(device, width, uncorrelated);
+    resultBuffer.destroy();
+    const bruteForce = await runBruteForceShader(width, uncorrelated);
+    expect(maxDifference(result, bruteForce)).toBeLessThan(1e-2);
+  });
+});
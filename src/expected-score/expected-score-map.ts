@@ -0,0 +1,408 @@
+import { DartboardDef, makeDartboard } from "../dartboard/dartboard-definition";
+import { gaussian2D } from "../shared/gaussian";
+import { GpuResourceScope, getResourceCache } from "../webgpu/resource-cache";
+import type { ExpectedScoreParams } from "./ExpectedScoreStore";
+import expectedBlurShader from "./expected-blur.wgsl?raw";
+import expectedFftShader from "./expected-fft.wgsl?raw";
+import { fft2D, nextPowerOfTwo } from "./fft";
+
+export interface ExpectedScoreMapResult {
+  /** Expected score for each aim point, row by row */
+  result: Float32Array;
+  /** The same scores on the GPU, for rendering; the caller owns it */
+  resultBuffer: GPUBuffer;
+}
+
+// Matches MIN_PROBABILITY in expected-fft.wgsl and expected-blur.wgsl
+export const MIN_PROBABILITY = 1e-4;
+
+// Density beyond four standard deviations is under 0.01% of the total in each direction
+export const DEFAULT_KERNEL_TRUNCATION = 4;
+
+const WORKGROUP_SIZE = 16;
+const FFT_WORKGROUP_SIZE = 64;
+
+/** Padded grid size for a width × width board, large enough that the convolution doesn't wrap */
+export function getPaddedSize(width: number): number {
+  return nextPowerOfTwo(2 * width - 1);
+}
+
+/**
+ * Expected score for every aim point on a width × width grid, as the score grid convolved with
+ * the throw distribution and divided by the probability of landing on the grid. Gives the same
+ * result as the brute-force expected.wgsl in O(N² log N) rather than O(N⁴).
+ */
+export async function runExpectedScoreFftShader(
+  device: GPUDevice,
+  width: number,
+  params: ExpectedScoreParams,
+): Promise<ExpectedScoreMapResult> {
+  const { sigmaX, sigmaY, rho, biasX, biasY, dartboard } = params;
+  const size = getPaddedSize(width);
+
+  const resources = getResourceCache(device).scope(expectedFftShader, width, "expected score fft");
+  const packPipeline = resources.getPipeline("packScores");
+  const kernelPipeline = resources.getPipeline("writeKernel");
+  const stagePipeline = resources.getPipeline("fftStage");
+  const multiplyPipeline = resources.getPipeline("multiplySpectra");
+  const unpackPipeline = resources.getPipeline("unpackExpectedScores");
+
+  const gridBytes = size * size * 8; // vec2f per cell
+  const getGridBuffer = (label: string) =>
+    resources.getBuffer(label, { size: gridBytes, usage: GPUBufferUsage.STORAGE });
+  const scoresA = getGridBuffer("expected score grid A");
+  const scoresB = getGridBuffer("expected score grid B");
+  const kernelA = getGridBuffer("expected score kernel A");
+  const kernelB = getGridBuffer("expected score kernel B");
+
+  const dartboardBuffer = getDartboardBuffer(device, resources, width, dartboard);
+
+  // Matches the Distribution struct in expected-fft.wgsl
+  const distributionData = new Float32Array([sigmaX, sigmaY, rho, biasX, biasY, 0, 0, 0]);
+  const distributionBuffer = resources.getBuffer("distribution buffer", {
+    size: distributionData.byteLength,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+  device.queue.writeBuffer(distributionBuffer, 0, distributionData);
+
+  // Matches the Params struct in expected-fft.wgsl; one buffer per distinct FFT stage, which
+  // depends only on the canvas size
+  const getParamsBuffer = (stride = 0, vertical = false, inverse = false) => {
+    const data = new Uint32Array([size, width, stride, +vertical, +inverse, 0, 0, 0]);
+    return resources.getBuffer(
+      `expected score params ${stride}:${vertical}:${inverse}`,
+      { size: data.byteLength, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST },
+      (buffer) => device.queue.writeBuffer(buffer, 0, data),
+    );
+  };
+
+  // The result buffer is handed to the caller, so it isn't cached
+  const resultBuffer = device.createBuffer({
+    label: "expected score buffer",
+    size: width * width * 4,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+  });
+  const readBuffer = resources.getBuffer("expected score read buffer", {
+    size: resultBuffer.size,
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
+
+  const encoder = device.createCommandEncoder({ label: "expected score fft encoder" });
+  const pass = encoder.beginComputePass({ label: "expected score fft compute pass" });
+
+  const dispatch = (
+    pipeline: GPUComputePipeline,
+    entries: [number, GPUBuffer][],
+    workgroupsX: number,
+    workgroupsY: number,
+  ) => {
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(
+      0,
+      device.createBindGroup({
+        layout: pipeline.getBindGroupLayout(0),
+        entries: entries.map(([binding, buffer]) => ({ binding, resource: { buffer } })),
+      }),
+    );
+    pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+  };
+
+  // 2D FFT, ping-ponging between the two buffers. There is an even number of stages, so the
+  // transform always ends up back in the first buffer.
+  const transform = (first: GPUBuffer, second: GPUBuffer, inverse: boolean) => {
+    let [input, output] = [first, second];
+    for (const vertical of [false, true]) {
+      for (let stride = 1; stride < size; stride *= 2) {
+        dispatch(
+          stagePipeline,
+          [
+            [0, getParamsBuffer(stride, vertical, inverse)],
+            [1, input],
+            [2, output],
+          ],
+          Math.ceil(size / 2 / FFT_WORKGROUP_SIZE),
+          size,
+        );
+        [input, output] = [output, input];
+      }
+    }
+    return input;
+  };
+
+  const gridWorkgroups = Math.ceil(size / WORKGROUP_SIZE);
+  dispatch(
+    packPipeline,
+    [
+      [0, getParamsBuffer()],
+      [2, scoresA],
+      [3, dartboardBuffer],
+    ],
+    gridWorkgroups,
+    gridWorkgroups,
+  );
+  dispatch(
+    kernelPipeline,
+    [
+      [0, getParamsBuffer()],
+      [2, kernelA],
+      [4, distributionBuffer],
+    ],
+    gridWorkgroups,
+    gridWorkgroups,
+  );
+  const scoreSpectrum = transform(scoresA, scoresB, false);
+  const kernelSpectrum = transform(kernelA, kernelB, false);
+  dispatch(
+    multiplyPipeline,
+    [
+      [0, getParamsBuffer()],
+      [1, scoreSpectrum],
+      [2, scoresB],
+      [5, kernelSpectrum],
+    ],
+    gridWorkgroups,
+    gridWorkgroups,
+  );
+  const convolution = transform(scoresB, scoresA, true);
+  const outputWorkgroups = Math.ceil(width / WORKGROUP_SIZE);
+  dispatch(
+    unpackPipeline,
+    [
+      [0, getParamsBuffer()],
+      [1, convolution],
+      [6, resultBuffer],
+    ],
+    outputWorkgroups,
+    outputWorkgroups,
+  );
+  pass.end();
+
+  encoder.copyBufferToBuffer(resultBuffer, 0, readBuffer, 0, readBuffer.size);
+  device.queue.submit([encoder.finish()]);
+
+  await resources.hold(readBuffer.mapAsync(GPUMapMode.READ));
+  const result = new Float32Array(readBuffer.getMappedRange().slice(0));
+  readBuffer.unmap();
+
+  return { result, resultBuffer };
+}
+
+/** The score grid for the board, rewritten only when the board changes */
+function getDartboardBuffer(
+  device: GPUDevice,
+  resources: GpuResourceScope,
+  width: number,
+  dartboard: DartboardDef,
+): GPUBuffer {
+  return resources.getBuffer(
+    "dartboard buffer",
+    { size: width * width * 4, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST },
+    (buffer) => device.queue.writeBuffer(buffer, 0, makeDartboard(width, dartboard).buffer),
+    JSON.stringify(dartboard),
+  );
+}
+
+/**
+ * CPU equivalent of runExpectedScoreFftShader, in double precision. Useful where there is no GPU
+ * and as a test reference.
+ */
+export function computeExpectedScoreMap(width: number, params: ExpectedScoreParams): Float32Array {
+  const { sigmaX, sigmaY, rho, biasX, biasY, dartboard } = params;
+  const size = getPaddedSize(width);
+  const scores = makeDartboard(width, dartboard);
+
+  const re = new Float64Array(size * size);
+  const im = new Float64Array(size * size);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      re[y * size + x] = scores[y * width + x];
+      im[y * size + x] = 1;
+    }
+  }
+
+  const kernelRe = new Float64Array(size * size);
+  const kernelIm = new Float64Array(size * size);
+  const wrap = (i: number) => (i < size / 2 ? i : i - size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      kernelRe[y * size + x] = gaussian2D(wrap(x), wrap(y), -biasX, -biasY, sigmaX, sigmaY, rho);
+    }
+  }
+
+  fft2D(re, im, size);
+  fft2D(kernelRe, kernelIm, size);
+  for (let i = 0; i < size * size; i++) {
+    const productRe = re[i] * kernelRe[i] - im[i] * kernelIm[i];
+    im[i] = re[i] * kernelIm[i] + im[i] * kernelRe[i];
+    re[i] = productRe;
+  }
+  fft2D(re, im, size, true);
+
+  const result = new Float32Array(width * width);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const totalScore = re[y * size + x];
+      const totalProbability = im[y * size + x];
+      result[y * width + x] =
+        totalProbability < MIN_PROBABILITY ? 0 : Math.max(totalScore / totalProbability, 0);
+    }
+  }
+  return result;
+}
+
+/**
+ * Expected score for every aim point on a width × width grid when the throw distribution has no
+ * correlation, as two one-dimensional Gaussian blurs of the score grid. The kernel is cut off at
+ * params.truncation standard deviations, so this costs O(N² σ) and beats the FFT for the usual
+ * spreads.
+ */
+export async function runExpectedScoreBlurShader(
+  device: GPUDevice,
+  width: number,
+  params: ExpectedScoreParams,
+): Promise<ExpectedScoreMapResult> {
+  const {
+    sigmaX,
+    sigmaY,
+    rho,
+    biasX,
+    biasY,
+    dartboard,
+    truncation = DEFAULT_KERNEL_TRUNCATION,
+  } = params;
+  if (rho !== 0) {
+    throw new Error("The separable blur needs a throw distribution with no correlation");
+  }
+
+  const resources = getResourceCache(device).scope(
+    expectedBlurShader,
+    width,
+    "expected score blur",
+  );
+  const rowsPipeline = resources.getPipeline("blurRows");
+  const columnsPipeline = resources.getPipeline("blurColumns");
+
+  // Matches the Params struct in expected-blur.wgsl
+  const uniformData = new Float32Array([width, sigmaX, sigmaY, biasX, biasY, truncation, 0, 0]);
+  const uniformBuffer = resources.getBuffer("expected score blur params buffer", {
+    size: uniformData.byteLength,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+  device.queue.writeBuffer(uniformBuffer, 0, uniformData);
+
+  const dartboardBuffer = getDartboardBuffer(device, resources, width, dartboard);
+
+  const rowSumsBuffer = resources.getBuffer("expected score row sums buffer", {
+    size: width * width * 8, // vec2f per cell
+    usage: GPUBufferUsage.STORAGE,
+  });
+  // The result buffer is handed to the caller, so it isn't cached
+  const resultBuffer = device.createBuffer({
+    label: "expected score buffer",
+    size: width * width * 4,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+  });
+  const readBuffer = resources.getBuffer("expected score read buffer", {
+    size: resultBuffer.size,
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
+
+  const rowsBindGroup = device.createBindGroup({
+    label: "expected score blur rows bind group",
+    layout: rowsPipeline.getBindGroupLayout(0),
+    entries: [
+      { binding: 0, resource: { buffer: uniformBuffer } },
+      { binding: 1, resource: { buffer: dartboardBuffer } },
+      { binding: 2, resource: { buffer: rowSumsBuffer } },
+    ],
+  });
+  const columnsBindGroup = device.createBindGroup({
+    label: "expected score blur columns bind group",
+    layout: columnsPipeline.getBindGroupLayout(0),
+    entries: [
+      { binding: 0, resource: { buffer: uniformBuffer } },
+      { binding: 3, resource: { buffer: rowSumsBuffer } },
+      { binding: 4, resource: { buffer: resultBuffer } },
+    ],
+  });
+
+  const encoder = device.createCommandEncoder({ label: "expected score blur encoder" });
+  const pass = encoder.beginComputePass({ label: "expected score blur compute pass" });
+  const workgroups = Math.ceil(width / WORKGROUP_SIZE);
+  pass.setPipeline(rowsPipeline);
+  pass.setBindGroup(0, rowsBindGroup);
+  pass.dispatchWorkgroups(workgroups, workgroups);
+  pass.setPipeline(columnsPipeline);
+  pass.setBindGroup(0, columnsBindGroup);
+  pass.dispatchWorkgroups(workgroups, workgroups);
+  pass.end();
+
+  encoder.copyBufferToBuffer(resultBuffer, 0, readBuffer, 0, readBuffer.size);
+  device.queue.submit([encoder.finish()]);
+
+  await resources.hold(readBuffer.mapAsync(GPUMapMode.READ));
+  const result = new Float32Array(readBuffer.getMappedRange().slice(0));
+  readBuffer.unmap();
+
+  return { result, resultBuffer };
+}
+
+/**
+ * CPU equivalent of runExpectedScoreBlurShader, in double precision.
+ */
+export function computeBlurredExpectedScoreMap(
+  width: number,
+  params: ExpectedScoreParams,
+): Float32Array {
+  const {
+    sigmaX,
+    sigmaY,
+    rho,
+    biasX,
+    biasY,
+    dartboard,
+    truncation = DEFAULT_KERNEL_TRUNCATION,
+  } = params;
+  if (rho !== 0) {
+    throw new Error("The separable blur needs a throw distribution with no correlation");
+  }
+  const scores = makeDartboard(width, dartboard);
+
+  // Each pass visits the pixels within the truncation radius of the (biased) centre
+  const blur = (center: number, sigma: number, visit: (pixel: number, density: number) => void) => {
+    const radius = truncation * sigma;
+    const first = Math.max(Math.ceil(center - radius), 0);
+    const last = Math.min(Math.floor(center + radius), width - 1);
+    for (let pixel = first; pixel <= last; pixel++) {
+      const d = (pixel - center) / sigma;
+      visit(pixel, Math.exp(-0.5 * d * d) / (Math.sqrt(2 * Math.PI) * sigma));
+    }
+  };
+
+  const rowScores = new Float64Array(width * width);
+  const rowProbabilities = new Float64Array(width * width);
+  for (let hitY = 0; hitY < width; hitY++) {
+    for (let aimX = 0; aimX < width; aimX++) {
+      const index = hitY * width + aimX;
+      blur(aimX + biasX, sigmaX, (hitX, density) => {
+        rowScores[index] += density * scores[hitY * width + hitX];
+        rowProbabilities[index] += density;
+      });
+    }
+  }
+
+  const result = new Float32Array(width * width);
+  for (let aimY = 0; aimY < width; aimY++) {
+    for (let aimX = 0; aimX < width; aimX++) {
+      let totalScore = 0;
+      let totalProbability = 0;
+      blur(aimY + biasY, sigmaY, (hitY, density) => {
+        totalScore += density * rowScores[hitY * width + aimX];
+        totalProbability += density * rowProbabilities[hitY * width + aimX];
+      });
+      result[aimY * width + aimX] =
+        totalProbability < MIN_PROBABILITY ? 0 : Math.max(totalScore / totalProbability, 0);
+    }
+  }
+  return result;
+}
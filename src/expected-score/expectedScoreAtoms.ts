@@ -1,10 +1,10 @@
 import { atom } from "jotai";
-import { gaussianStddevMmAtom, getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
+import { dartboardAtom } from "../shared/dartboardAtom";
 import { targetPositionAtom } from "../shared/targetPositionAtom";
+import { getThrowModelPixels, throwModelAtom } from "../shared/throwModelAtom";
 import {
   EXPECTED_SCORE_CANVAS_SIZE,
   ExpectedScoreState,
-  TargetPosition,
   expectedScoreStore,
 } from "./ExpectedScoreStore";
 
@@ -13,15 +13,25 @@ export { targetPositionAtom };
 
 export const isUserInteractingAtom = atom<boolean>(false);
 
+export type ExpectedScoreDisplayMode = "absolute" | "relative";
+
+// Whether the map shows expected scores, or how each aim point compares with the target
+export const displayModeAtom = atom<ExpectedScoreDisplayMode>("absolute");
+
+// Whether to overlay labelled lines of equal expected score
+export const showContoursAtom = atom<boolean>(false);
+
 // Internal state atom
 export const expectedScoreStateAtom = atom<ExpectedScoreState>({
   expectedScoreRange: { min: 0, max: 0 },
   expectedScoreAtTarget: null,
   highestScorePosition: null,
+  highestScore: null,
   isComputing: false,
   resultData: null,
-  renderBuffer: null,
+  resultParams: null,
   computationCounter: 0,
+  error: null,
 });
 
 // Computed atom for expected score at target position
@@ -32,28 +42,51 @@ export const expectedScoreAtTargetAtom = atom<number | null>((get) => {
   return expectedScoreStore.getExpectedScoreAtPosition(state.resultData, targetPosition);
 });
 
+// How much better or worse every aim point is than the target, in relative mode
+export const differenceFromTargetAtom = atom((get) => {
+  if (get(displayModeAtom) !== "relative") return null;
+  const state = get(expectedScoreStateAtom);
+
+  return expectedScoreStore.getDifferenceFromTarget(
+    state.resultData,
+    state.expectedScoreRange,
+    get(targetPositionAtom),
+  );
+});
+
 // Action atoms for triggering computations
 export const computeExpectedScoreAtom = atom(null, async (get, set) => {
-  const gaussianStddevMm = get(gaussianStddevMmAtom);
-  const gaussianStddev = getGaussianStddevPixels(gaussianStddevMm, EXPECTED_SCORE_CANVAS_SIZE);
+  const dartboard = get(dartboardAtom);
+  const throwModel = getThrowModelPixels(
+    get(throwModelAtom),
+    EXPECTED_SCORE_CANVAS_SIZE,
+    dartboard,
+  );
 
   const updateState = (updates: Partial<ExpectedScoreState>) => {
     set(expectedScoreStateAtom, (prev) => ({ ...prev, ...updates }));
   };
 
-  await expectedScoreStore.computeExpectedScore(gaussianStddev, updateState);
+  // A failure is shown from the state's error, so there's nothing more to do with it here
+  await expectedScoreStore
+    .computeExpectedScore({ ...throwModel, dartboard }, updateState)
+    .catch(() => {});
 });
 
 export const debouncedComputeExpectedScoreAtom = atom(null, (get, set) => {
-  const gaussianStddevMm = get(gaussianStddevMmAtom);
-  const gaussianStddev = getGaussianStddevPixels(gaussianStddevMm, EXPECTED_SCORE_CANVAS_SIZE);
+  const dartboard = get(dartboardAtom);
+  const throwModel = getThrowModelPixels(
+    get(throwModelAtom),
+    EXPECTED_SCORE_CANVAS_SIZE,
+    dartboard,
+  );
   const isUserInteracting = get(isUserInteractingAtom);
 
   const updateState = (updates: Partial<ExpectedScoreState>) => {
     set(expectedScoreStateAtom, (prev) => ({ ...prev, ...updates }));
   };
 
-  expectedScoreStore.debouncedCompute(gaussianStddev, updateState, isUserInteracting);
+  expectedScoreStore.debouncedCompute({ ...throwModel, dartboard }, updateState, isUserInteracting);
 });
 
 export const renderToCanvasAtom = atom(null, (get, _set, canvas: HTMLCanvasElement) => {
@@ -66,6 +99,11 @@ export const renderToCanvasAtom = atom(null, (get, _set, canvas: HTMLCanvasEleme
     state.resultData,
     state.expectedScoreRange,
     state.highestScorePosition,
+    get(dartboardAtom),
+    {
+      relativeTo: get(displayModeAtom) === "relative" ? get(targetPositionAtom) : null,
+      showContours: get(showContoursAtom),
+    },
   );
 });
 
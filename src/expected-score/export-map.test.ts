@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { REGULATION_BOARD } from "../dartboard/dartboard-definition";
+import {
+  exportExpectedScoreMap,
+  getExpectedScoreMapMetadata,
+  toCsv,
+  toJson,
+  toNpy,
+} from "./export-map";
+
+// A 4 × 4 map whose pixel size is easy to check: the regulation board spans 451 mm
+const metadata = getExpectedScoreMapMetadata(4, {
+  sigmaX: 0.1,
+  sigmaY: 0.2,
+  rho: 0.3,
+  biasX: 0,
+  biasY: 0.05,
+  dartboard: REGULATION_BOARD,
+});
+const values = Float32Array.from({ length: 16 }, (_, i) => i / 8);
+
+describe("getExpectedScoreMapMetadata", () => {
+  it("places the grid on the board in mm", () => {
+    expect(metadata.boardId).toBe("regulation");
+    expect(metadata.mmPerPixel).toBeCloseTo(451 / 4, 6);
+    expect(metadata.originXMm).toBeCloseTo(-451 / 2, 6);
+    expect(metadata.originYMm).toBeCloseTo(-451 / 2, 6);
+    expect(metadata.sigmaXMm).toBeCloseTo(11.275, 6);
+    expect(metadata.sigmaYMm).toBeCloseTo(22.55, 6);
+    expect(metadata.biasYMm).toBeCloseTo(5.6375, 6);
+    expect(metadata.bestAimXMm).toBeUndefined();
+  });
+
+  it("converts the best aim point from normalised coordinates", () => {
+    const withBest = getExpectedScoreMapMetadata(
+      4,
+      { sigmaX: 1, sigmaY: 1, rho: 0, biasX: 0, biasY: 0, dartboard: REGULATION_BOARD },
+      { x: 0, y: -0.5, expectedScore: 12 },
+    );
+    expect(withBest.bestAimXMm).toBeCloseTo(0, 6);
+    expect(withBest.bestAimYMm).toBeCloseTo(-451 / 4, 6);
+    expect(withBest.bestExpectedScore).toBe(12);
+  });
+});
+
+describe("map export formats", () => {
+  it("writes CSV rows after metadata comments", () => {
+    const lines = toCsv(values, metadata).trim().split("\n");
+    expect(lines[0]).toBe("# boardId: regulation");
+    const rows = lines.filter((line) => !line.startsWith("#"));
+    expect(rows).toEqual([
+      "0,0.125,0.25,0.375",
+      "0.5,0.625,0.75,0.875",
+      "1,1.125,1.25,1.375",
+      "1.5,1.625,1.75,1.875",
+    ]);
+  });
+
+  it("writes JSON rows alongside the metadata", () => {
+    const parsed = JSON.parse(toJson(values, metadata));
+    expect(parsed.width).toBe(4);
+    expect(parsed.values[1]).toEqual([0.5, 0.625, 0.75, 0.875]);
+  });
+
+  it("writes a NumPy header padded to 64 bytes followed by little-endian floats", () => {
+    const bytes = toNpy(values, 4, 4);
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([0x93, 78, 85, 77, 80, 89, 1, 0]);
+    const headerLength = bytes[8] | (bytes[9] << 8);
+    expect((10 + headerLength) % 64).toBe(0);
+    const header = new TextDecoder().decode(bytes.subarray(10, 10 + headerLength));
+    expect(header.trimEnd()).toBe("{'descr': '<f4', 'fortran_order': False, 'shape': (4, 4), }");
+    expect(header.endsWith("\n")).toBe(true);
+    const data = new DataView(bytes.buffer, 10 + headerLength);
+    expect(data.getFloat32(4 * 5, true)).toBe(values[5]);
+    expect(bytes.length).toBe(10 + headerLength + 64);
+  });
+
+  it("pairs an npy file with its metadata", () => {
+    const files = exportExpectedScoreMap(values, metadata, "npy", "map");
+    expect(files.map((file) => file.filename)).toEqual(["map.npy", "map.json"]);
+    expect(JSON.parse(String(files[1].contents))).toEqual(metadata);
+  });
+});
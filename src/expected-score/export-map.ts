@@ -0,0 +1,160 @@
+import { pixelsToMm } from "../dartboard/dartboard-definition";
+import type { ExpectedScoreParams } from "./ExpectedScoreStore";
+
+export type MapExportFormat = "csv" | "json" | "npy";
+
+/** Where a grid of expected scores lies on the board and the throw it was computed for */
+export interface ExpectedScoreMapMetadata {
+  boardId: string;
+  width: number; // Columns in the grid
+  height: number; // Rows in the grid
+  mmPerPixel: number; // The same horizontally and vertically
+  originXMm: number; // X of the aim point at column 0, in mm from the board centre (positive right)
+  originYMm: number; // Y of the aim point at row 0, in mm from the board centre (positive down)
+  sigmaXMm: number;
+  sigmaYMm: number;
+  correlation: number;
+  biasXMm: number;
+  biasYMm: number;
+  bestAimXMm?: number; // Aim point with the highest expected score, between pixels
+  bestAimYMm?: number;
+  bestExpectedScore?: number;
+}
+
+/** A file ready to be downloaded or written to disk */
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  contents: string | Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Describe a width × width expected score map covering the whole board.
+ * @param params - The parameters the map was computed with, in pixels
+ * @param best - Highest scoring aim point in normalised coordinates, if known
+ */
+export function getExpectedScoreMapMetadata(
+  width: number,
+  params: ExpectedScoreParams,
+  best?: { x: number; y: number; expectedScore: number },
+): ExpectedScoreMapMetadata {
+  const mmPerPixel = pixelsToMm(1, width, params.dartboard);
+  const halfWidthMm = (width / 2) * mmPerPixel;
+  return {
+    boardId: params.dartboard.id,
+    width,
+    height: width,
+    mmPerPixel,
+    originXMm: -halfWidthMm,
+    originYMm: -halfWidthMm,
+    sigmaXMm: params.sigmaX * mmPerPixel,
+    sigmaYMm: params.sigmaY * mmPerPixel,
+    correlation: params.rho,
+    biasXMm: params.biasX * mmPerPixel,
+    biasYMm: params.biasY * mmPerPixel,
+    ...(best && {
+      bestAimXMm: best.x * halfWidthMm,
+      bestAimYMm: best.y * halfWidthMm,
+      bestExpectedScore: best.expectedScore,
+    }),
+  };
+}
+
+// Float32 values carry about seven significant digits; printing more only adds noise
+const roundValue = (value: number) => Number(value.toPrecision(7));
+
+function getRows(values: Float32Array, metadata: ExpectedScoreMapMetadata): number[][] {
+  const rows: number[][] = [];
+  for (let y = 0; y < metadata.height; y++) {
+    const row = values.subarray(y * metadata.width, (y + 1) * metadata.width);
+    rows.push(Array.from(row, roundValue));
+  }
+  return rows;
+}
+
+/**
+ * One grid row per line, preceded by the metadata as `# key: value` comments, which
+ * `numpy.loadtxt(path, delimiter=",")` skips.
+ */
+export function toCsv(values: Float32Array, metadata: ExpectedScoreMapMetadata): string {
+  const comments = Object.entries(metadata).map(([key, value]) => `# ${key}: ${value}`);
+  const rows = getRows(values, metadata).map((row) => row.join(","));
+  return [...comments, ...rows].join("\n") + "\n";
+}
+
+/** The metadata with the grid as an array of rows under `values` */
+export function toJson(values: Float32Array, metadata: ExpectedScoreMapMetadata): string {
+  return JSON.stringify({ ...metadata, values: getRows(values, metadata) }) + "\n";
+}
+
+/**
+ * A little-endian float32 array of shape (rows, columns) in NumPy's .npy format (version 1.0),
+ * which `numpy.load` reads directly.
+ */
+export function toNpy(
+  values: Float32Array,
+  rows: number,
+  columns: number,
+): Uint8Array<ArrayBuffer> {
+  if (values.length !== rows * columns) {
+    throw new Error(`Expected ${rows * columns} values for a ${rows}×${columns} grid`);
+  }
+  const dictionary = `{'descr': '<f4', 'fortran_order': False, 'shape': (${rows}, ${columns}), }`;
+  // Magic string, version and header length take 10 bytes; the header pads the data to 64 bytes
+  const headerLength = Math.ceil((10 + dictionary.length + 1) / 64) * 64 - 10;
+  const header = dictionary.padEnd(headerLength - 1, " ") + "\n";
+
+  const bytes = new Uint8Array(10 + headerLength + values.length * 4);
+  bytes.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]); // "\x93NUMPY"
+  bytes[6] = 1; // Major version
+  bytes[7] = 0; // Minor version
+  const view = new DataView(bytes.buffer);
+  view.setUint16(8, headerLength, true);
+  for (let i = 0; i < header.length; i++) {
+    bytes[10 + i] = header.charCodeAt(i);
+  }
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(10 + headerLength + i * 4, values[i], true);
+  }
+  return bytes;
+}
+
+/**
+ * Encode an expected score map for analysis elsewhere. An .npy file can't hold the metadata, so
+ * it comes with a JSON file of the same name alongside.
+ * @param basename - Filename without an extension
+ */
+export function exportExpectedScoreMap(
+  values: Float32Array,
+  metadata: ExpectedScoreMapMetadata,
+  format: MapExportFormat,
+  basename = "expected-score",
+): ExportedFile[] {
+  switch (format) {
+    case "csv":
+      return [
+        { filename: `${basename}.csv`, mimeType: "text/csv", contents: toCsv(values, metadata) },
+      ];
+    case "json":
+      return [
+        {
+          filename: `${basename}.json`,
+          mimeType: "application/json",
+          contents: toJson(values, metadata),
+        },
+      ];
+    case "npy":
+      return [
+        {
+          filename: `${basename}.npy`,
+          mimeType: "application/octet-stream",
+          contents: toNpy(values, metadata.height, metadata.width),
+        },
+        {
+          filename: `${basename}.json`,
+          mimeType: "application/json",
+          contents: JSON.stringify(metadata, null, 2) + "\n",
+        },
+      ];
+  }
+}
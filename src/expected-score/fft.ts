@@ -0,0 +1,86 @@
+/** Smallest power of two that is at least n */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+}
+
+/**
+ * In-place radix-2 FFT of a complex sequence whose length is a power of two. The inverse
+ * transform is scaled by 1/n, so a forward and inverse transform round trip.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length;
+  if (im.length !== n || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT length must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  const direction = inverse ? 1 : -1;
+  for (let length = 2; length <= n; length *= 2) {
+    const half = length / 2;
+    const angle = (direction * 2 * Math.PI) / length;
+    for (let k = 0; k < half; k++) {
+      const wRe = Math.cos(angle * k);
+      const wIm = Math.sin(angle * k);
+      for (let start = 0; start < n; start += length) {
+        const a = start + k;
+        const b = a + half;
+        const bRe = re[b] * wRe - im[b] * wIm;
+        const bIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - bRe;
+        im[b] = im[a] - bIm;
+        re[a] += bRe;
+        im[a] += bIm;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/** In-place 2D FFT of a size × size complex grid stored row by row */
+export function fft2D(
+  re: Float64Array,
+  im: Float64Array,
+  size: number,
+  inverse: boolean = false,
+): void {
+  if (re.length !== size * size || im.length !== size * size) {
+    throw new Error(`Expected a ${size} × ${size} grid`);
+  }
+
+  for (let row = 0; row < size; row++) {
+    const offset = row * size;
+    fft(re.subarray(offset, offset + size), im.subarray(offset, offset + size), inverse);
+  }
+
+  const columnRe = new Float64Array(size);
+  const columnIm = new Float64Array(size);
+  for (let column = 0; column < size; column++) {
+    for (let row = 0; row < size; row++) {
+      columnRe[row] = re[row * size + column];
+      columnIm[row] = im[row * size + column];
+    }
+    fft(columnRe, columnIm, inverse);
+    for (let row = 0; row < size; row++) {
+      re[row * size + column] = columnRe[row];
+      im[row * size + column] = columnIm[row];
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import { CanvasVisualization } from "../common/CanvasVisualization";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { getDartboardImage } from "../dartboard/dartboard-colors";
+import {
+  DartboardDef,
+  getMaxScore,
+  mmToPixels,
+  pixelsToMm,
+} from "../dartboard/dartboard-definition";
+import { drawRadialScores } from "../dartboard/dartboard-labels";
+import { GaussianDistributionControls } from "../expected-score/GaussianDistributionControls";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { gaussianStddevMmAtom, getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
+import {
+  ThrowModel,
+  getCovarianceEllipse,
+  throwModelAtom,
+  throwShapeAtom,
+} from "../shared/throwModelAtom";
+import { width } from "../webgpu/util";
+import { AimTarget, DARTS_PER_VISIT, STARTING_SCORE, ThrowOutcome } from "./checkout-solver";
+import {
+  checkoutDartsLeftAtom,
+  checkoutScoreAtom,
+  checkoutStateAtom,
+  checkoutVisitStartAtom,
+  computeCheckoutSolutionAtom,
+} from "./checkoutAtoms";
+
+const DISPLAY_SIZE = 500;
+
+// Outcomes below this probability are left out of the table
+const MIN_LISTED_PROBABILITY = 0.0005;
+
+function drawRoute(
+  canvas: HTMLCanvasElement,
+  route: AimTarget[],
+  throwModel: ThrowModel,
+  dartboard: DartboardDef,
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx || route.length === 0) return;
+
+  const toDisplay = (mm: number) => mmToPixels(mm, canvas.width, dartboard);
+  const centre = canvas.width / 2;
+
+  // Later darts in the planned route, numbered in throwing order
+  ctx.font = "bold 11px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  route.slice(1).forEach((target, i) => {
+    const x = centre + toDisplay(target.x);
+    const y = centre + toDisplay(target.y);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.85)";
+    ctx.beginPath();
+    ctx.arc(x, y, 8, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.fillStyle = "#000";
+    ctx.fillText(String(i + 2), x, y);
+  });
+
+  // The recommended aim point with the 1σ ellipse of where the dart lands
+  const aim = route[0];
+  const aimX = centre + toDisplay(aim.x);
+  const aimY = centre + toDisplay(aim.y);
+  const groupX = aimX + toDisplay(throwModel.biasXMm);
+  const groupY = aimY + toDisplay(throwModel.biasYMm);
+  const ellipse = getCovarianceEllipse(
+    toDisplay(throwModel.sigmaXMm),
+    toDisplay(throwModel.sigmaYMm),
+    throwModel.correlation,
+  );
+
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.ellipse(groupX, groupY, ellipse.radiusX, ellipse.radiusY, ellipse.rotation, 0, 2 * Math.PI);
+  ctx.stroke();
+
+  ctx.fillStyle = "red";
+  ctx.beginPath();
+  ctx.arc(aimX, aimY, 5, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.strokeStyle = "white";
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+const describeOutcome = (outcome: ThrowOutcome) => {
+  if (outcome.finishes) return "Checkout";
+  if (outcome.remaining === null) return "Bust";
+  return `Leaves ${outcome.remaining}`;
+};
+
+export const CheckoutAdvisor: React.FC = () => {
+  const [score, setScore] = useAtom(checkoutScoreAtom);
+  const [dartsLeft, setDartsLeft] = useAtom(checkoutDartsLeftAtom);
+  const [visitStartInput, setVisitStartInput] = useAtom(checkoutVisitStartAtom);
+  const [gaussianStddevMm, setGaussianStddevMm] = useAtom(gaussianStddevMmAtom);
+  const [throwShape, setThrowShape] = useAtom(throwShapeAtom);
+  const state = useAtomValue(checkoutStateAtom);
+  const throwModel = useAtomValue(throwModelAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const computeSolution = useSetAtom(computeCheckoutSolutionAtom);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, width, dartboard);
+
+  // Re-solve shortly after the throw model or board stops changing
+  useEffect(() => {
+    const timeout = setTimeout(() => computeSolution(), 300);
+    return () => clearTimeout(timeout);
+  }, [throwModel, dartboard, computeSolution]);
+
+  const visitStart = visitStartInput ?? score;
+  const { solution } = state;
+
+  const { advice, adviceError } = useMemo(() => {
+    if (!solution) return { advice: null, adviceError: null };
+    try {
+      return {
+        advice: {
+          target: solution.getBestTarget(score, dartsLeft, visitStart),
+          expectedDarts: solution.getExpectedDarts(score, dartsLeft, visitStart),
+          finishProbability: solution.getFinishProbability(score, dartsLeft, visitStart),
+          route: solution.getPlannedRoute(score, dartsLeft, visitStart),
+          outcomes: solution
+            .getThrowOutcomes(score, dartsLeft, visitStart)
+            .filter((outcome) => outcome.probability >= MIN_LISTED_PROBABILITY),
+        },
+        adviceError: null,
+      };
+    } catch (e) {
+      return { advice: null, adviceError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [solution, score, dartsLeft, visitStart]);
+
+  // The board only changes with the selected dartboard, so draw it once per board
+  const boardImage = useMemo(() => getDartboardImage(dartboard, DISPLAY_SIZE), [dartboard]);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.putImageData(boardImage, 0, 0);
+    drawRadialScores(
+      ctx,
+      canvas.width / 2,
+      canvas.height / 2,
+      canvas.width * 0.45,
+      14,
+      "#fff",
+      dartboard,
+    );
+    if (advice && solution?.dartboard === dartboard) {
+      drawRoute(canvas, advice.route, throwModel, dartboard);
+    }
+  }, [advice, solution, boardImage, throwModel, dartboard]);
+
+  useEffect(() => {
+    render();
+  }, [render]);
+
+  const handleCanvasReady = useCallback(
+    (canvas: HTMLCanvasElement) => {
+      canvasRef.current = canvas;
+      render();
+    },
+    [render],
+  );
+
+  const maxVisitStart = Math.min(
+    STARTING_SCORE,
+    score + (DARTS_PER_VISIT - dartsLeft) * getMaxScore(dartboard),
+  );
+
+  return (
+    <div className="flex">
+      <div className="flex-1">
+        <p className="mb-4 text-gray-700">
+          Aiming for the highest expected score stops being the right idea near the end of a leg. In
+          501 you have to finish exactly on zero with a double, and going too far busts the whole
+          visit.
+        </p>
+        <p className="mb-6 text-gray-700">
+          Enter what you have left and the red dot shows where to aim to finish in the fewest darts
+          on average. Numbered dots show the rest of the planned visit if each dart hits what it is
+          aimed at. Change σ and watch the route change.
+        </p>
+
+        <div className="flex items-center">
+          <div className="relative inline-block">
+            {state.isComputing && <LoadingSpinner />}
+            <CanvasVisualization
+              id="checkout-advisor"
+              width={DISPLAY_SIZE}
+              height={DISPLAY_SIZE}
+              onCanvasReady={handleCanvasReady}
+            />
+          </div>
+
+          {advice && (
+            <div className="ml-10 min-w-[180px] flex flex-col items-start justify-center">
+              <div className="text-xs text-gray-600 mb-1">Aim at</div>
+              <div className="text-2xl font-bold mb-4">{advice.target.label}</div>
+              <div className="text-xs text-gray-600 mb-1">Finish this visit</div>
+              <div className="text-2xl font-bold mb-4">
+                {(advice.finishProbability * 100).toFixed(1)}%
+              </div>
+              <div className="text-xs text-gray-600 mb-1">Expected darts to finish</div>
+              <div className="text-2xl font-bold mb-4">{advice.expectedDarts.toFixed(2)}</div>
+              <div className="text-xs text-gray-600 mb-1">Planned route</div>
+              <div className="text-base font-bold">
+                {advice.route.map((target) => target.label).join(" → ")}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {state.error && <p className="text-sm text-red-600 mt-2">{state.error}</p>}
+        {adviceError && <p className="text-sm text-red-600 mt-2">{adviceError}</p>}
+
+        {advice && (
+          <div className="mt-5">
+            <h3 className="text-lg font-semibold mb-4">Outcomes of This Dart</h3>
+            <div className="max-h-table overflow-y-auto border border-gray-300 rounded">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="bg-gray-100 sticky top-0">
+                    <th className="p-2 text-left border-b border-gray-300">Segment</th>
+                    <th className="p-2 text-right border-b border-gray-300">Score</th>
+                    <th className="p-2 text-left border-b border-gray-300">Result</th>
+                    <th className="p-2 text-right border-b border-gray-300">%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {advice.outcomes.map((outcome, index) => (
+                    <tr
+                      key={outcome.segment.id}
+                      className={`${
+                        index % 2 === 0 ? "bg-white" : "bg-gray-50"
+                      } border-b border-gray-200`}
+                    >
+                      <td className="px-2 py-1.5">{outcome.segment.label}</td>
+                      <td className="px-2 py-1.5 text-right font-bold">{outcome.segment.score}</td>
+                      <td className="px-2 py-1.5">{describeOutcome(outcome)}</td>
+                      <td className="px-2 py-1.5 text-right">
+                        {(outcome.probability * 100).toFixed(2)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Options sidebar */}
+      <div className="sidebar-section">
+        <h3 className="text-lg font-semibold mb-4">Options</h3>
+
+        <div className="mt-5">
+          <label htmlFor="checkout-score" className="block mb-2 font-bold">
+            Remaining Score
+          </label>
+          <input
+            id="checkout-score"
+            type="number"
+            min={2}
+            max={STARTING_SCORE}
+            value={score}
+            onChange={(e) => {
+              setScore(Number(e.target.value));
+              setVisitStartInput(null);
+            }}
+            className="w-full p-1.5 text-sm rounded border border-gray-300"
+          />
+        </div>
+
+        <div className="mt-5">
+          <label htmlFor="checkout-darts-left" className="block mb-2 font-bold">
+            Darts Left in Visit
+          </label>
+          <select
+            id="checkout-darts-left"
+            value={dartsLeft}
+            onChange={(e) => {
+              setDartsLeft(Number(e.target.value));
+              setVisitStartInput(null);
+            }}
+            className="w-full p-1.5 text-sm rounded border border-gray-300"
+          >
+            {[3, 2, 1].map((darts) => (
+              <option key={darts} value={darts}>
+                {darts}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {dartsLeft < DARTS_PER_VISIT && (
+          <div className="mt-5">
+            <label htmlFor="checkout-visit-start" className="block mb-2 font-bold">
+              Score at Start of Visit
+            </label>
+            <input
+              id="checkout-visit-start"
+              type="number"
+              min={score}
+              max={maxVisitStart}
+              value={visitStart}
+              onChange={(e) => setVisitStartInput(Number(e.target.value))}
+              className="w-full p-1.5 text-sm rounded border border-gray-300"
+            />
+            <p className="text-sm text-gray-600 mt-2">
+              A bust returns to this score. Between {score} and {maxVisitStart}.
+            </p>
+          </div>
+        )}
+
+        <GaussianDistributionControls
+          gaussianStddevPixels={gaussianStddevPixels}
+          onGaussianStddevPixelsChange={(pixels) =>
+            setGaussianStddevMm(pixelsToMm(pixels, width, dartboard))
+          }
+          throwShape={throwShape}
+          onThrowShapeChange={setThrowShape}
+          dartboard={dartboard}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import { CanvasVisualization } from "../common/CanvasVisualization";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { getDartboardImage } from "../dartboard/dartboard-colors";
+import { DartboardDef, mmToPixels, pixelsToMm } from "../dartboard/dartboard-definition";
+import { drawRadialScores } from "../dartboard/dartboard-labels";
+import { GaussianDistributionControls } from "../expected-score/GaussianDistributionControls";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { gaussianStddevMmAtom, getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
+import {
+  ThrowModel,
+  getCovarianceEllipse,
+  throwModelAtom,
+  throwShapeAtom,
+} from "../shared/throwModelAtom";
+import { width } from "../webgpu/util";
+import { AimTarget } from "./checkout-solver";
+import { CRICKET_NUMBERS, CricketPlayer, MARKS_TO_CLOSE } from "./cricket";
+import { computeCricketAdviceAtom, cricketAdviceAtom, cricketGameAtom } from "./cricketAtoms";
+
+const DISPLAY_SIZE = 500;
+
+const PLAYER_LABELS = ["You", "Opponent"] as const;
+
+const describeNumber = (number: number) => (number === 25 ? "Bull" : String(number));
+
+function drawTarget(
+  canvas: HTMLCanvasElement,
+  target: AimTarget,
+  throwModel: ThrowModel,
+  dartboard: DartboardDef,
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const toDisplay = (mm: number) => mmToPixels(mm, canvas.width, dartboard);
+  const centre = canvas.width / 2;
+
+  // The aim point with the 1σ ellipse of where the dart lands
+  const aimX = centre + toDisplay(target.x);
+  const aimY = centre + toDisplay(target.y);
+  const ellipse = getCovarianceEllipse(
+    toDisplay(throwModel.sigmaXMm),
+    toDisplay(throwModel.sigmaYMm),
+    throwModel.correlation,
+  );
+
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.ellipse(
+    aimX + toDisplay(throwModel.biasXMm),
+    aimY + toDisplay(throwModel.biasYMm),
+    ellipse.radiusX,
+    ellipse.radiusY,
+    ellipse.rotation,
+    0,
+    2 * Math.PI,
+  );
+  ctx.stroke();
+
+  ctx.fillStyle = "red";
+  ctx.beginPath();
+  ctx.arc(aimX, aimY, 5, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.strokeStyle = "white";
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+export const CricketAdvisor: React.FC = () => {
+  const [game, setGame] = useAtom(cricketGameAtom);
+  const [gaussianStddevMm, setGaussianStddevMm] = useAtom(gaussianStddevMmAtom);
+  const [throwShape, setThrowShape] = useAtom(throwShapeAtom);
+  const advice = useAtomValue(cricketAdviceAtom);
+  const throwModel = useAtomValue(throwModelAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const computeAdvice = useSetAtom(computeCricketAdviceAtom);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, width, dartboard);
+
+  // Re-evaluate shortly after the game, throw model or board stops changing
+  useEffect(() => {
+    const timeout = setTimeout(() => computeAdvice(), 300);
+    return () => clearTimeout(timeout);
+  }, [game, throwModel, dartboard, computeAdvice]);
+
+  const updatePlayer = (index: 0 | 1, update: Partial<CricketPlayer>) =>
+    setGame((prev) => {
+      const players: typeof prev.players = [...prev.players];
+      players[index] = { ...players[index], ...update };
+      return { ...prev, players };
+    });
+
+  const best = advice.evaluations[0];
+
+  // The board only changes with the selected dartboard, so draw it once per board
+  const boardImage = useMemo(() => getDartboardImage(dartboard, DISPLAY_SIZE), [dartboard]);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.putImageData(boardImage, 0, 0);
+    drawRadialScores(
+      ctx,
+      canvas.width / 2,
+      canvas.height / 2,
+      canvas.width * 0.45,
+      14,
+      "#fff",
+      dartboard,
+    );
+    if (best) {
+      drawTarget(canvas, best.target, throwModel, dartboard);
+    }
+  }, [best, boardImage, throwModel, dartboard]);
+
+  useEffect(() => {
+    render();
+  }, [render]);
+
+  const handleCanvasReady = useCallback(
+    (canvas: HTMLCanvasElement) => {
+      canvasRef.current = canvas;
+      render();
+    },
+    [render],
+  );
+
+  return (
+    <div className="flex">
+      <div className="flex-1">
+        <p className="mb-4 text-gray-700">
+          In Cricket the best dart depends on the state of the game: whether to close a number,
+          score on one your opponent still has open, or go for the bull.
+        </p>
+        <p className="mb-6 text-gray-700">
+          Enter the marks and points for both players and the red dot shows the target that wins
+          most often. Each target is tried in simulated games where both players throw with your σ
+          and then keep closing the highest open number, scoring while behind.
+        </p>
+
+        <div className="flex items-center">
+          <div className="relative inline-block">
+            {advice.isComputing && <LoadingSpinner />}
+            <CanvasVisualization
+              id="cricket-advisor"
+              width={DISPLAY_SIZE}
+              height={DISPLAY_SIZE}
+              onCanvasReady={handleCanvasReady}
+            />
+          </div>
+
+          {best && (
+            <div className="ml-10 min-w-[180px] flex flex-col items-start justify-center">
+              <div className="text-xs text-gray-600 mb-1">Aim at</div>
+              <div className="text-2xl font-bold mb-4">{best.target.label}</div>
+              <div className="text-xs text-gray-600 mb-1">Chance of winning</div>
+              <div className="text-2xl font-bold">{(best.winProbability * 100).toFixed(1)}%</div>
+            </div>
+          )}
+        </div>
+
+        {advice.error && <p className="text-sm text-red-600 mt-2">{advice.error}</p>}
+
+        {advice.evaluations.length > 0 && (
+          <div className="mt-5">
+            <h3 className="text-lg font-semibold mb-4">Targets</h3>
+            <div className="max-h-table overflow-y-auto border border-gray-300 rounded">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="bg-gray-100 sticky top-0">
+                    <th className="p-2 text-left border-b border-gray-300">Target</th>
+                    <th className="p-2 text-right border-b border-gray-300">Win %</th>
+                    <th className="p-2 text-right border-b border-gray-300">±</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {advice.evaluations.map((evaluation, index) => (
+                    <tr
+                      key={evaluation.targetIndex}
+                      className={`${
+                        index % 2 === 0 ? "bg-white" : "bg-gray-50"
+                      } border-b border-gray-200`}
+                    >
+                      <td className="px-2 py-1.5">{evaluation.target.label}</td>
+                      <td className="px-2 py-1.5 text-right font-bold">
+                        {(evaluation.winProbability * 100).toFixed(1)}%
+                      </td>
+                      <td className="px-2 py-1.5 text-right">
+                        {(evaluation.standardError * 100).toFixed(1)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Options sidebar */}
+      <div className="sidebar-section">
+        <h3 className="text-lg font-semibold mb-4">Game</h3>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left pb-2">Number</th>
+              {PLAYER_LABELS.map((label) => (
+                <th key={label} className="text-left pb-2">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {CRICKET_NUMBERS.map((number, numberIndex) => (
+              <tr key={number}>
+                <td className="pr-2 py-1 font-bold">{describeNumber(number)}</td>
+                {([0, 1] as const).map((playerIndex) => (
+                  <td key={playerIndex} className="pr-2 py-1">
+                    <select
+                      aria-label={`${PLAYER_LABELS[playerIndex]} marks on ${describeNumber(number)}`}
+                      value={game.players[playerIndex].marks[numberIndex]}
+                      onChange={(e) =>
+                        updatePlayer(playerIndex, {
+                          marks: game.players[playerIndex].marks.map((marks, i) =>
+                            i === numberIndex ? Number(e.target.value) : marks,
+                          ),
+                        })
+                      }
+                      className="w-full p-1 text-sm rounded border border-gray-300"
+                    >
+                      {Array.from({ length: MARKS_TO_CLOSE + 1 }, (_, marks) => (
+                        <option key={marks} value={marks}>
+                          {marks === MARKS_TO_CLOSE ? "Closed" : marks}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td className="pr-2 py-1 font-bold">Points</td>
+              {([0, 1] as const).map((playerIndex) => (
+                <td key={playerIndex} className="pr-2 py-1">
+                  <input
+                    aria-label={`${PLAYER_LABELS[playerIndex]} points`}
+                    type="number"
+                    min={0}
+                    value={game.players[playerIndex].points}
+                    onChange={(e) =>
+                      updatePlayer(playerIndex, { points: Math.max(0, Number(e.target.value)) })
+                    }
+                    className="w-full p-1 text-sm rounded border border-gray-300"
+                  />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="mt-5">
+          <label htmlFor="cricket-darts-left" className="block mb-2 font-bold">
+            Darts Left in Visit
+          </label>
+          <select
+            id="cricket-darts-left"
+            value={game.dartsLeft}
+            onChange={(e) => setGame((prev) => ({ ...prev, dartsLeft: Number(e.target.value) }))}
+            className="w-full p-1.5 text-sm rounded border border-gray-300"
+          >
+            {[3, 2, 1].map((darts) => (
+              <option key={darts} value={darts}>
+                {darts}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <GaussianDistributionControls
+          gaussianStddevPixels={gaussianStddevPixels}
+          onGaussianStddevPixelsChange={(pixels) =>
+            setGaussianStddevMm(pixelsToMm(pixels, width, dartboard))
+          }
+          throwShape={throwShape}
+          onThrowShapeChange={setThrowShape}
+          dartboard={dartboard}
+        />
+      </div>
+    </div>
+  );
+};
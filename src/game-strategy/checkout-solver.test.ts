@@ -0,0 +1,147 @@
+import { describe, expect, test, vi } from "vitest";
+import { REGULATION_BOARD, normaliseDartboard } from "../dartboard/dartboard-definition";
+import { SEGMENT_COUNT, findSegmentByName, getSegmentId } from "../dartboard/dartboard-segments";
+import { cpuSegmentProbabilities } from "../hit-distribution/segment-probabilities";
+import { getThrowModel } from "../shared/throwModelAtom";
+import { createInlineCheckoutWorker } from "../test/inline-worker";
+import {
+  AimTarget,
+  computeCheckoutSolution,
+  getCheckoutTargets,
+  solveCheckout,
+} from "./checkout-solver";
+import { CheckoutWorker, createWorkerCheckoutSolver } from "./worker-solver";
+
+/** A player who always hits the segment they aim at */
+function perfectProbabilities(targets: AimTarget[]): Float32Array[] {
+  const normalisedBoard = normaliseDartboard(REGULATION_BOARD);
+  const halfBoardMm = REGULATION_BOARD.wholeBoardDiameter / 2;
+  return targets.map((target) => {
+    const probabilities = new Float32Array(SEGMENT_COUNT);
+    probabilities[getSegmentId(target.x / halfBoardMm, target.y / halfBoardMm, normalisedBoard)] =
+      1;
+    return probabilities;
+  });
+}
+
+describe("Checkout targets", () => {
+  test("every target lies in the segment it is named after", () => {
+    const targets = getCheckoutTargets(REGULATION_BOARD);
+    expect(targets).toHaveLength(20 * 4 + 2);
+    const normalisedBoard = normaliseDartboard(REGULATION_BOARD);
+    const halfBoardMm = REGULATION_BOARD.wholeBoardDiameter / 2;
+    for (const target of targets) {
+      const segmentId = getSegmentId(
+        target.x / halfBoardMm,
+        target.y / halfBoardMm,
+        normalisedBoard,
+      );
+      const name = target.label.replace(" (outer)", "");
+      expect(segmentId).toBe(findSegmentByName(name, REGULATION_BOARD));
+    }
+  });
+});
+
+describe("Checkout solver", () => {
+  const targets = getCheckoutTargets(REGULATION_BOARD);
+  const perfect = solveCheckout(targets, perfectProbabilities(targets), REGULATION_BOARD);
+
+  test("a perfect player finishes 501 in nine darts", () => {
+    expect(perfect.getExpectedDarts(501)).toBeCloseTo(9, 6);
+    expect(perfect.getExpectedDarts(170)).toBeCloseTo(3, 6);
+    expect(perfect.getExpectedDarts(159)).toBeCloseTo(4, 6);
+  });
+
+  test("a perfect player checks out on a double or the bull", () => {
+    expect(perfect.getExpectedDarts(40)).toBeCloseTo(1, 6);
+    expect(perfect.getBestTarget(40).label).toBe("D20");
+    expect(perfect.getBestTarget(50).label).toBe("50");
+    expect(perfect.getExpectedDarts(3)).toBeCloseTo(2, 6);
+  });
+
+  test("tracks the visit start for states part way through a visit", () => {
+    expect(perfect.getExpectedDarts(32, 1, 92)).toBeCloseTo(1, 6);
+    expect(perfect.getBestTarget(32, 1, 92).label).toBe("D16");
+    expect(() => perfect.getExpectedDarts(32, 2, 200)).toThrow();
+    expect(() => perfect.getExpectedDarts(1)).toThrow();
+  });
+
+  test("plans the rest of the visit and its chance of finishing", () => {
+    expect(perfect.getPlannedRoute(170).map((t) => t.label)).toEqual(["T20", "T20", "50"]);
+    expect(perfect.getFinishProbability(170)).toBeCloseTo(1, 6);
+    expect(perfect.getFinishProbability(159)).toBe(0);
+
+    const [outcome] = perfect.getThrowOutcomes(40);
+    expect(outcome.segment.shortName).toBe("D20");
+    expect(outcome.finishes).toBe(true);
+    expect(outcome.remaining).toBe(0);
+  });
+
+  test("busting sends the score back to the start of the visit", () => {
+    // Only T20, D1 and the bull are available, and aiming at D1 busts a quarter of the time
+    const restricted = ["T20", "D1"].map((label) => targets.find((t) => t.label === label)!);
+    const probabilities = perfectProbabilities(restricted);
+    probabilities[1] = new Float32Array(SEGMENT_COUNT);
+    probabilities[1][40 + 4] = 0.75; // D1
+    probabilities[1][4] = 0.25; // Single 1 leaves 1, a bust
+    const solution = solveCheckout(restricted, probabilities, REGULATION_BOARD, { maxScore: 10 });
+
+    // Each dart at D1 from 2 finishes with probability 0.75, and a bust ends the visit
+    expect(solution.getExpectedDarts(2)).toBeCloseTo(1 / 0.75, 6);
+    expect(solution.getFinishProbability(2)).toBeCloseTo(0.75, 6);
+    expect(solution.getThrowOutcomes(2).map((o) => o.remaining)).toEqual([0, null]);
+  });
+
+  test("worse players need more darts", async () => {
+    const options = { maxScore: 170, resolution: 100 };
+    const good = await computeCheckoutSolution(
+      getThrowModel(10, { aspectRatio: 1, correlation: 0 }),
+      cpuSegmentProbabilities,
+      REGULATION_BOARD,
+      options,
+    );
+    const poor = await computeCheckoutSolution(
+      getThrowModel(30, { aspectRatio: 1, correlation: 0 }),
+      cpuSegmentProbabilities,
+      REGULATION_BOARD,
+      options,
+    );
+
+    expect(good.getExpectedDarts(170)).toBeLessThan(poor.getExpectedDarts(170));
+    expect(good.getExpectedDarts(40)).toBeGreaterThan(1);
+    expect(good.getBestTarget(40).label).toBe("D20");
+  });
+});
+
+describe("Worker checkout solver", () => {
+  test("matches solving on the calling thread", async () => {
+    const targets = getCheckoutTargets(REGULATION_BOARD);
+    const probabilities = perfectProbabilities(targets);
+    const options = { maxScore: 60 };
+    const solve = createWorkerCheckoutSolver(createInlineCheckoutWorker());
+
+    const viaWorker = await solve(targets, probabilities, REGULATION_BOARD, options);
+    const direct = solveCheckout(targets, probabilities, REGULATION_BOARD, options);
+    for (const score of [2, 40, 60]) {
+      expect(viaWorker.getExpectedDarts(score)).toBe(direct.getExpectedDarts(score));
+      expect(viaWorker.getBestTarget(score)).toEqual(direct.getBestTarget(score));
+    }
+  });
+
+  test("rejects waiting solves when the worker fails", async () => {
+    const target = new EventTarget();
+    const worker = {
+      addEventListener: target.addEventListener.bind(target),
+      postMessage: () => {},
+    } as unknown as CheckoutWorker;
+    const onFailure = vi.fn();
+    const solve = createWorkerCheckoutSolver(worker, onFailure);
+
+    const targets = getCheckoutTargets(REGULATION_BOARD);
+    const solution = solve(targets, perfectProbabilities(targets), REGULATION_BOARD, {});
+    target.dispatchEvent(new Event("error"));
+
+    await expect(solution).rejects.toThrow("Checkout worker failed");
+    expect(onFailure).toHaveBeenCalledOnce();
+  });
+});
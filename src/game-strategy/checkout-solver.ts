@@ -0,0 +1,483 @@
+import {
+  DartboardDef,
+  REGULATION_BOARD,
+  getMaxScore,
+  hasQuadrupleRing,
+} from "../dartboard/dartboard-definition";
+import {
+  BULL_SEGMENT,
+  DOUBLE_SEGMENT_OFFSET,
+  MISS_SEGMENT,
+  OUTER_BULL_SEGMENT,
+  QUADRUPLE_SEGMENT_OFFSET,
+  SEGMENT_COUNT,
+  SegmentInfo,
+  TRIPLE_SEGMENT_OFFSET,
+  getSegmentCentreMm,
+  getSegmentInfo,
+} from "../dartboard/dartboard-segments";
+import { SegmentProbabilityFn } from "../hit-distribution/segment-probabilities";
+import { ThrowModel, getThrowModelPixels } from "../shared/throwModelAtom";
+
+/** A candidate aim point in mm from the board centre; positive y is down */
+export interface AimTarget {
+  label: string;
+  x: number;
+  y: number;
+  /** Segment the aim point lies in */
+  segmentId: number;
+}
+
+/** What one dart at the recommended target might do */
+export interface ThrowOutcome {
+  segment: SegmentInfo;
+  probability: number;
+  /** Score left after the dart; null if it busts */
+  remaining: number | null;
+  /** Whether the dart finishes the leg */
+  finishes: boolean;
+}
+
+/** Darts thrown per visit */
+export const DARTS_PER_VISIT = 3;
+
+/** Starting score of a 501 leg */
+export const STARTING_SCORE = 501;
+
+export interface CheckoutSolverOptions {
+  /** Highest remaining score to solve for; defaults to 501 */
+  maxScore?: number;
+  /** Outcomes less likely than this are treated as misses to keep the solver fast */
+  minProbability?: number;
+}
+
+// Expected darts assumed for a visit start while its value is still being solved; large enough
+// that busting is never attractive
+const UNSOLVED_VISIT_DARTS = 1e6;
+
+/**
+ * Aim points the solver chooses between: the middle of every ring in every slice (inner and outer
+ * singles separately), plus the bull and the outer bull.
+ */
+export function getCheckoutTargets(dartboard: DartboardDef = REGULATION_BOARD): AimTarget[] {
+  const targets: AimTarget[] = [];
+  const innerDoubleRadius = dartboard.centerToOuterDouble - dartboard.doubleRingWidth;
+  const tripleRadius = dartboard.centerToOuterTriple - dartboard.tripleRingWidth / 2;
+  const outerSingleRadius = (dartboard.centerToOuterTriple + innerDoubleRadius) / 2;
+
+  const segments = [TRIPLE_SEGMENT_OFFSET, DOUBLE_SEGMENT_OFFSET, 0];
+  if (hasQuadrupleRing(dartboard)) {
+    segments.push(QUADRUPLE_SEGMENT_OFFSET);
+  }
+  for (let slice = 0; slice < dartboard.radialScores.length; slice++) {
+    for (const offset of segments) {
+      const info = getSegmentInfo(offset + slice, dartboard);
+      const centre = getSegmentCentreMm(offset + slice, dartboard);
+      targets.push({ label: info.shortName, ...centre, segmentId: offset + slice });
+    }
+    // The outer single area lies along the same ray as the triple
+    const triple = getSegmentCentreMm(TRIPLE_SEGMENT_OFFSET + slice, dartboard);
+    const scale = outerSingleRadius / tripleRadius;
+    targets.push({
+      label: `${dartboard.radialScores[slice]} (outer)`,
+      x: triple.x * scale,
+      y: triple.y * scale,
+      segmentId: slice,
+    });
+  }
+
+  targets.push({ label: "50", x: 0, y: 0, segmentId: BULL_SEGMENT });
+  const outerBullRadius = (dartboard.doubleBullDiameter + dartboard.bullDiameter) / 4;
+  targets.push({ label: "25", x: 0, y: -outerBullRadius, segmentId: OUTER_BULL_SEGMENT });
+  return targets;
+}
+
+/** Segment probabilities for each target under the given throw model */
+export async function computeTargetProbabilities(
+  targets: AimTarget[],
+  throwModel: ThrowModel,
+  segmentProbabilities: SegmentProbabilityFn,
+  dartboard: DartboardDef = REGULATION_BOARD,
+  resolution: number = 200,
+): Promise<Float32Array[]> {
+  const pixels = getThrowModelPixels(throwModel, resolution, dartboard);
+  const halfBoardMm = dartboard.wholeBoardDiameter / 2;
+  const probabilities: Float32Array[] = [];
+  for (const target of targets) {
+    probabilities.push(
+      await segmentProbabilities({
+        width: resolution,
+        height: resolution,
+        targetX: target.x / halfBoardMm,
+        targetY: target.y / halfBoardMm,
+        ...pixels,
+        dartboard,
+      }),
+    );
+  }
+  return probabilities;
+}
+
+/**
+ * Expected darts to finish and the best aim point for every state of a double-out leg.
+ *
+ * A state is the remaining score, the darts left in the visit and the score at the start of the
+ * visit, which is where a bust returns to. At the start of a visit the two scores are the same.
+ */
+export class CheckoutSolution {
+  constructor(
+    readonly targets: AimTarget[],
+    /** Segment probabilities for each target, indexed by segment id */
+    readonly targetProbabilities: Float32Array[],
+    readonly dartboard: DartboardDef,
+    readonly maxScore: number,
+    private readonly expectedDarts: Float32Array,
+    private readonly bestTargets: Int16Array,
+  ) {}
+
+  /** Expected darts still to throw, including this one, to finish the leg */
+  getExpectedDarts(score: number, dartsLeft: number = DARTS_PER_VISIT, visitStart?: number) {
+    return this.expectedDarts[this.getIndex(score, dartsLeft, visitStart)];
+  }
+
+  getBestTargetIndex(score: number, dartsLeft: number = DARTS_PER_VISIT, visitStart?: number) {
+    return this.bestTargets[this.getIndex(score, dartsLeft, visitStart)];
+  }
+
+  getBestTarget(
+    score: number,
+    dartsLeft: number = DARTS_PER_VISIT,
+    visitStart?: number,
+  ): AimTarget {
+    return this.targets[this.getBestTargetIndex(score, dartsLeft, visitStart)];
+  }
+
+  /** Probability of finishing before the visit ends when every dart goes at the best target */
+  getFinishProbability(
+    score: number,
+    dartsLeft: number = DARTS_PER_VISIT,
+    visitStart: number = score,
+  ): number {
+    this.getIndex(score, dartsLeft, visitStart);
+    const memo = new Map<number, number>();
+
+    const finishFrom = (current: number, darts: number): number => {
+      const key = current * (DARTS_PER_VISIT + 1) + darts;
+      const cached = memo.get(key);
+      if (cached !== undefined) return cached;
+
+      const target = this.bestTargets[stateIndex(visitStart, darts, current, this.maxScore)];
+      const probabilities = this.targetProbabilities[target];
+      let total = 0;
+      for (let id = 0; id < SEGMENT_COUNT; id++) {
+        const p = probabilities[id];
+        if (!p) continue;
+        const remaining = current - getSegmentInfo(id, this.dartboard).score;
+        if (remaining === 0 && isCheckoutSegment(id)) {
+          total += p;
+        } else if (remaining >= 2 && darts > 1) {
+          total += p * finishFrom(remaining, darts - 1);
+        }
+      }
+      memo.set(key, total);
+      return total;
+    };
+
+    return finishFrom(score, dartsLeft);
+  }
+
+  /** Every segment the next dart at the best target might hit, most likely first */
+  getThrowOutcomes(
+    score: number,
+    dartsLeft: number = DARTS_PER_VISIT,
+    visitStart?: number,
+  ): ThrowOutcome[] {
+    const probabilities =
+      this.targetProbabilities[this.getBestTargetIndex(score, dartsLeft, visitStart)];
+    const outcomes: ThrowOutcome[] = [];
+    for (let id = 0; id < SEGMENT_COUNT; id++) {
+      if (!probabilities[id]) continue;
+      const segment = getSegmentInfo(id, this.dartboard);
+      const remaining = score - segment.score;
+      const finishes = remaining === 0 && isCheckoutSegment(id);
+      outcomes.push({
+        segment,
+        probability: probabilities[id],
+        remaining: finishes || remaining >= 2 ? remaining : null,
+        finishes,
+      });
+    }
+    return outcomes.sort((a, b) => b.probability - a.probability);
+  }
+
+  /**
+   * The targets for the rest of the visit if every dart hits the segment it is aimed at. Stops
+   * at a finish, or early if an intended hit would bust.
+   */
+  getPlannedRoute(
+    score: number,
+    dartsLeft: number = DARTS_PER_VISIT,
+    visitStart: number = score,
+  ): AimTarget[] {
+    const route: AimTarget[] = [];
+    let current = score;
+    for (let darts = dartsLeft; darts > 0; darts--) {
+      const target = this.getBestTarget(current, darts, visitStart);
+      route.push(target);
+      current -= getSegmentInfo(target.segmentId, this.dartboard).score;
+      if (current < 2) break;
+    }
+    return route;
+  }
+
+  private getIndex(score: number, dartsLeft: number, visitStart: number = score): number {
+    if (!Number.isInteger(score) || score < 2 || score > this.maxScore) {
+      throw new Error(`No checkout for a remaining score of ${score}`);
+    }
+    if (!Number.isInteger(dartsLeft) || dartsLeft < 1 || dartsLeft > DARTS_PER_VISIT) {
+      throw new Error(`Darts left must be between 1 and ${DARTS_PER_VISIT}, got ${dartsLeft}`);
+    }
+    const dartsThrown = DARTS_PER_VISIT - dartsLeft;
+    if (
+      !Number.isInteger(visitStart) ||
+      visitStart < score ||
+      visitStart > Math.min(this.maxScore, score + dartsThrown * getMaxScore(this.dartboard))
+    ) {
+      throw new Error(
+        `Cannot reach ${score} from ${visitStart} with ${dartsThrown} darts on this board`,
+      );
+    }
+    return stateIndex(visitStart, dartsLeft, score, this.maxScore);
+  }
+}
+
+/** Darts in a double or the bull can finish a leg */
+const isCheckoutSegment = (id: number) =>
+  id === BULL_SEGMENT || (id >= DOUBLE_SEGMENT_OFFSET && id < OUTER_BULL_SEGMENT);
+
+const stateIndex = (visitStart: number, dartsLeft: number, score: number, maxScore: number) =>
+  (visitStart * (DARTS_PER_VISIT + 1) + dartsLeft) * (maxScore + 1) + score;
+
+/** Outcomes of aiming at one target, merged by score and whether they finish on zero */
+interface TargetOutcomes {
+  scores: Int32Array;
+  finishes: Uint8Array;
+  probabilities: Float64Array;
+}
+
+function getTargetOutcomes(
+  probabilities: Float32Array,
+  dartboard: DartboardDef,
+  minProbability: number,
+): TargetOutcomes {
+  const merged = new Map<number, number>();
+  let missed = 0;
+  for (let id = 0; id < SEGMENT_COUNT; id++) {
+    const p = probabilities[id] ?? 0;
+    if (p < minProbability || id === MISS_SEGMENT) {
+      missed += p;
+      continue;
+    }
+    const finishes = isCheckoutSegment(id);
+    // Key on score and finishing flag; a double and a single of the same score differ
+    const key = getSegmentInfo(id, dartboard).score * 2 + (finishes ? 1 : 0);
+    merged.set(key, (merged.get(key) ?? 0) + p);
+  }
+  if (missed > 0) {
+    merged.set(0, (merged.get(0) ?? 0) + missed);
+  }
+
+  const keys = [...merged.keys()];
+  return {
+    scores: Int32Array.from(keys, (key) => key >> 1),
+    finishes: Uint8Array.from(keys, (key) => key & 1),
+    probabilities: Float64Array.from(keys, (key) => merged.get(key)!),
+  };
+}
+
+/**
+ * Solve a double-out leg by dynamic programming over (visit start, remaining score, darts left),
+ * choosing for every state the target that minimises the expected number of darts to finish.
+ *
+ * Visits are solved in order of their starting score, so every visit that ends without busting
+ * leads to an already-solved score. A bust (going below zero, leaving 1, or reaching zero other
+ * than on a double or the bull) returns to the start of the visit, so each visit's value depends
+ * on itself. Within a visit every value is linear in that unknown, and policy iteration finds the
+ * fixed point: choose the best targets for the current guess, solve the resulting linear equation,
+ * and repeat until the guess stops changing.
+ *
+ * States that can no longer bust this visit don't depend on where the visit started, so they are
+ * solved once and shared.
+ *
+ * @param targetProbabilities - Segment probabilities (indexed by segment id) for each target
+ */
+export function solveCheckout(
+  targets: AimTarget[],
+  targetProbabilities: Float32Array[],
+  dartboard: DartboardDef = REGULATION_BOARD,
+  options: CheckoutSolverOptions = {},
+): CheckoutSolution {
+  const { maxScore, expectedDarts, bestTargets } = solveCheckoutTables(
+    targets,
+    targetProbabilities,
+    dartboard,
+    options,
+  );
+  return new CheckoutSolution(
+    targets,
+    targetProbabilities,
+    dartboard,
+    maxScore,
+    expectedDarts,
+    bestTargets,
+  );
+}
+
+/** The tables behind a CheckoutSolution, indexed by state */
+export interface CheckoutTables {
+  maxScore: number;
+  expectedDarts: Float32Array;
+  bestTargets: Int16Array;
+}
+
+/** solveCheckout without wrapping the result, so it can be sent back from a worker */
+export function solveCheckoutTables(
+  targets: AimTarget[],
+  targetProbabilities: Float32Array[],
+  dartboard: DartboardDef = REGULATION_BOARD,
+  options: CheckoutSolverOptions = {},
+): CheckoutTables {
+  const { maxScore = STARTING_SCORE, minProbability = 1e-7 } = options;
+  if (targets.length === 0 || targets.length !== targetProbabilities.length) {
+    throw new Error("Need segment probabilities for every target");
+  }
+
+  const outcomes = targetProbabilities.map((p) => getTargetOutcomes(p, dartboard, minProbability));
+  const maxDartScore = getMaxScore(dartboard);
+  const scoreCount = maxScore + 1;
+
+  const expectedDarts = new Float32Array((maxScore + 1) * (DARTS_PER_VISIT + 1) * scoreCount);
+  const bestTargets = new Int16Array(expectedDarts.length).fill(-1);
+
+  // Expected darts from the start of a visit at each score
+  const visitValue = new Float64Array(scoreCount);
+  // Values and targets of the states that can't bust, by darts left then score
+  const sharedValue = Array.from({ length: DARTS_PER_VISIT }, () => new Float64Array(scoreCount));
+  const sharedTarget = Array.from({ length: DARTS_PER_VISIT }, () => new Int16Array(scoreCount));
+  // Values within the current visit are a + b·x, where x is the visit's own value
+  const constant = Array.from({ length: DARTS_PER_VISIT + 1 }, () => new Float64Array(scoreCount));
+  const slope = Array.from({ length: DARTS_PER_VISIT + 1 }, () => new Float64Array(scoreCount));
+  const localTarget = Array.from({ length: DARTS_PER_VISIT + 1 }, () => new Int16Array(scoreCount));
+
+  // No bust is possible with this many darts left from this score
+  const isSafe = (dartsLeft: number, score: number) => score >= maxDartScore * dartsLeft + 2;
+  const lowestScore = (visitStart: number, dartsLeft: number) =>
+    Math.max(2, visitStart - (DARTS_PER_VISIT - dartsLeft) * maxDartScore);
+  const isShared = (visitStart: number, dartsLeft: number, score: number) =>
+    dartsLeft < DARTS_PER_VISIT && score < visitStart && isSafe(dartsLeft, score);
+
+  for (let visitStart = 2; visitStart <= maxScore; visitStart++) {
+    let x = UNSOLVED_VISIT_DARTS;
+
+    for (let iteration = 0; iteration < 100; iteration++) {
+      for (let dartsLeft = 1; dartsLeft <= DARTS_PER_VISIT; dartsLeft++) {
+        const first =
+          dartsLeft === DARTS_PER_VISIT ? visitStart : lowestScore(visitStart, dartsLeft);
+        for (let score = first; score <= visitStart; score++) {
+          if (isShared(visitStart, dartsLeft, score)) continue;
+
+          let bestValue = Infinity;
+          for (let t = 0; t < outcomes.length; t++) {
+            const { scores, finishes, probabilities } = outcomes[t];
+            let a = 1;
+            let b = 0;
+            for (let o = 0; o < scores.length; o++) {
+              const p = probabilities[o];
+              const remaining = score - scores[o];
+              if (remaining === 0 && finishes[o]) continue;
+              if (remaining < 2) {
+                b += p; // Bust: back to the start of the visit
+              } else if (dartsLeft === 1) {
+                if (remaining === visitStart) b += p;
+                else a += p * visitValue[remaining];
+              } else if (isShared(visitStart, dartsLeft - 1, remaining)) {
+                a += p * sharedValue[dartsLeft - 2][remaining];
+              } else {
+                a += p * constant[dartsLeft - 1][remaining];
+                b += p * slope[dartsLeft - 1][remaining];
+              }
+            }
+            const value = a + b * x;
+            if (value < bestValue) {
+              bestValue = value;
+              constant[dartsLeft][score] = a;
+              slope[dartsLeft][score] = b;
+              localTarget[dartsLeft][score] = t;
+            }
+          }
+        }
+      }
+
+      const a = constant[DARTS_PER_VISIT][visitStart];
+      const b = slope[DARTS_PER_VISIT][visitStart];
+      const next = b < 1 ? Math.min(a / (1 - b), UNSOLVED_VISIT_DARTS) : UNSOLVED_VISIT_DARTS;
+      const converged = Math.abs(next - x) <= 1e-9 * next;
+      x = next;
+      if (converged) break;
+    }
+
+    visitValue[visitStart] = x;
+    for (let dartsLeft = 1; dartsLeft <= DARTS_PER_VISIT; dartsLeft++) {
+      const first = dartsLeft === DARTS_PER_VISIT ? visitStart : lowestScore(visitStart, dartsLeft);
+      for (let score = first; score <= visitStart; score++) {
+        const index = stateIndex(visitStart, dartsLeft, score, maxScore);
+        if (isShared(visitStart, dartsLeft, score)) {
+          expectedDarts[index] = sharedValue[dartsLeft - 1][score];
+          bestTargets[index] = sharedTarget[dartsLeft - 1][score];
+        } else {
+          expectedDarts[index] = constant[dartsLeft][score] + slope[dartsLeft][score] * x;
+          bestTargets[index] = localTarget[dartsLeft][score];
+        }
+      }
+      // Later visits passing through this score with these darts left share its value if safe
+      if (dartsLeft < DARTS_PER_VISIT && isSafe(dartsLeft, visitStart)) {
+        sharedValue[dartsLeft - 1][visitStart] =
+          constant[dartsLeft][visitStart] + slope[dartsLeft][visitStart] * x;
+        sharedTarget[dartsLeft - 1][visitStart] = localTarget[dartsLeft][visitStart];
+      }
+    }
+  }
+
+  return { maxScore, expectedDarts, bestTargets };
+}
+
+/** Solves a double-out leg from the segment probabilities of each target, like solveCheckout */
+export type CheckoutSolver = (
+  targets: AimTarget[],
+  targetProbabilities: Float32Array[],
+  dartboard: DartboardDef,
+  options: CheckoutSolverOptions,
+) => CheckoutSolution | Promise<CheckoutSolution>;
+
+/**
+ * Solve a double-out leg for a throw model. Pass gpuSegmentProbabilities to integrate the target
+ * distributions with runSegmentProbabilitiesShader, or cpuSegmentProbabilities without a GPU, and
+ * a solver from getCheckoutSolver to keep the solve off the calling thread.
+ */
+export async function computeCheckoutSolution(
+  throwModel: ThrowModel,
+  segmentProbabilities: SegmentProbabilityFn,
+  dartboard: DartboardDef = REGULATION_BOARD,
+  options: CheckoutSolverOptions & { resolution?: number } = {},
+  solve: CheckoutSolver = solveCheckout,
+): Promise<CheckoutSolution> {
+  const targets = getCheckoutTargets(dartboard);
+  const probabilities = await computeTargetProbabilities(
+    targets,
+    throwModel,
+    segmentProbabilities,
+    dartboard,
+    options.resolution,
+  );
+  return solve(targets, probabilities, dartboard, options);
+}
@@ -0,0 +1,8 @@
+// Web Worker entry point for the checkout solver, loaded by getCheckoutSolver
+import { CheckoutSolveRequest, handleCheckoutSolveRequest } from "./worker-solver";
+
+self.addEventListener("message", (event: MessageEvent<CheckoutSolveRequest>) => {
+  handleCheckoutSolveRequest(event.data, (response, transfer) =>
+    self.postMessage(response, { transfer }),
+  );
+});
@@ -0,0 +1,59 @@
+import { atom } from "jotai";
+import { getSegmentProbabilityFn } from "../compute/compute-backend";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { throwModelAtom } from "../shared/throwModelAtom";
+import { CheckoutSolution, DARTS_PER_VISIT, computeCheckoutSolution } from "./checkout-solver";
+import { getCheckoutSolver } from "./worker-solver";
+
+export interface CheckoutState {
+  solution: CheckoutSolution | null;
+  isComputing: boolean;
+  error: string | null;
+}
+
+// Grid the target distributions are integrated over
+export const CHECKOUT_RESOLUTION = 200;
+
+export const checkoutScoreAtom = atom<number>(40);
+
+export const checkoutDartsLeftAtom = atom<number>(DARTS_PER_VISIT);
+
+// Score at the start of the visit, where a bust returns to; null means the remaining score
+export const checkoutVisitStartAtom = atom<number | null>(null);
+
+export const checkoutStateAtom = atom<CheckoutState>({
+  solution: null,
+  isComputing: false,
+  error: null,
+});
+
+// Only the latest request may write its result, so a slow solve can't overwrite a newer one
+let latestRequest = 0;
+
+export const computeCheckoutSolutionAtom = atom(null, async (get, set) => {
+  const request = ++latestRequest;
+  const throwModel = get(throwModelAtom);
+  const dartboard = get(dartboardAtom);
+  set(checkoutStateAtom, (prev) => ({ ...prev, isComputing: true, error: null }));
+
+  try {
+    const solution = await computeCheckoutSolution(
+      throwModel,
+      await getSegmentProbabilityFn(),
+      dartboard,
+      { resolution: CHECKOUT_RESOLUTION },
+      getCheckoutSolver(),
+    );
+    if (request === latestRequest) {
+      set(checkoutStateAtom, { solution, isComputing: false, error: null });
+    }
+  } catch (e) {
+    if (request === latestRequest) {
+      set(checkoutStateAtom, {
+        solution: null,
+        isComputing: false,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+});
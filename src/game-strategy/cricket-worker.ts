@@ -0,0 +1,6 @@
+// Web Worker entry point for Cricket target evaluation, loaded by getCricketEvaluator
+import { CricketEvaluationRequest, handleCricketEvaluationRequest } from "./worker-cricket";
+
+self.addEventListener("message", (event: MessageEvent<CricketEvaluationRequest>) => {
+  handleCricketEvaluationRequest(event.data, (response) => self.postMessage(response));
+});
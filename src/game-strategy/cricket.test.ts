@@ -0,0 +1,197 @@
+import { describe, expect, test, vi } from "vitest";
+import { REGULATION_BOARD } from "../dartboard/dartboard-definition";
+import {
+  BULL_SEGMENT,
+  OUTER_BULL_SEGMENT,
+  SEGMENT_COUNT,
+  findSegmentByName,
+} from "../dartboard/dartboard-segments";
+import { cpuSegmentProbabilities } from "../hit-distribution/segment-probabilities";
+import { getThrowModel } from "../shared/throwModelAtom";
+import { createInlineCricketWorker } from "../test/inline-worker";
+import { AimTarget } from "./checkout-solver";
+import {
+  CricketState,
+  applyCricketDart,
+  computeCricketTargetProbabilities,
+  createCricketState,
+  evaluateCricketTargets,
+  getCricketTargets,
+  getCricketWinner,
+} from "./cricket";
+import { CricketWorker, createWorkerCricketEvaluator } from "./worker-cricket";
+
+const segment = (name: string) => findSegmentByName(name, REGULATION_BOARD)!;
+
+/** A player who always hits the segment they aim at */
+const perfectProbabilities = (targets: AimTarget[]) =>
+  targets.map((target) => {
+    const probabilities = new Float32Array(SEGMENT_COUNT);
+    probabilities[target.segmentId] = 1;
+    return probabilities;
+  });
+
+describe("Cricket scoring", () => {
+  test("marks close numbers and extra marks score while the opponent is open", () => {
+    let state = createCricketState();
+    state = applyCricketDart(state, segment("D20"));
+    expect(state.players[0].marks[0]).toBe(2);
+    state = applyCricketDart(state, segment("T20"));
+    expect(state.players[0].marks[0]).toBe(3);
+    expect(state.players[0].points).toBe(40);
+    state = applyCricketDart(state, segment("5"));
+    expect(state.players[0].points).toBe(40);
+
+    // Three darts thrown, so it is the opponent's turn
+    expect(state.turn).toBe(1);
+    expect(state.dartsLeft).toBe(3);
+  });
+
+  test("no points on a number the opponent has closed", () => {
+    let state: CricketState = { ...createCricketState(), turn: 1 };
+    state.players[0].marks[0] = 3;
+    state = applyCricketDart(state, segment("T20"));
+    state = applyCricketDart(state, segment("T20"));
+    expect(state.players[1].marks[0]).toBe(3);
+    expect(state.players[1].points).toBe(0);
+  });
+
+  test("the bull counts two marks and the outer bull one", () => {
+    let state = applyCricketDart(createCricketState(), BULL_SEGMENT);
+    state = applyCricketDart(state, OUTER_BULL_SEGMENT);
+    state = applyCricketDart(state, BULL_SEGMENT);
+    expect(state.players[0].marks[6]).toBe(3);
+    expect(state.players[0].points).toBe(50);
+  });
+
+  test("a player wins with everything closed and at least as many points", () => {
+    const state = createCricketState();
+    state.players[0].marks = [3, 3, 3, 3, 3, 3, 3];
+    state.players[1].points = 10;
+    expect(getCricketWinner(state)).toBeNull();
+    state.players[0].points = 10;
+    expect(getCricketWinner(state)).toBe(0);
+  });
+});
+
+describe("Cricket target evaluation", () => {
+  const targets = getCricketTargets(REGULATION_BOARD);
+
+  test("targets cover every ring of 15-20 and both bulls", () => {
+    expect(targets).toHaveLength(6 * 4 + 2);
+    expect(targets.map((t) => t.label)).toContain("T15");
+    expect(targets.map((t) => t.label)).not.toContain("T14");
+  });
+
+  test("a perfect player closes the last number with a triple", () => {
+    // Both players only need the 20, and this is the last dart before the opponent's turn
+    const state: CricketState = { ...createCricketState(), dartsLeft: 1 };
+    state.players[0].marks = [0, 3, 3, 3, 3, 3, 3];
+    state.players[1].marks = [0, 3, 3, 3, 3, 3, 3];
+    const probabilities = perfectProbabilities(targets);
+    const [best, second] = evaluateCricketTargets(state, targets, [probabilities, probabilities]);
+
+    expect(best.target.label).toBe("T20");
+    expect(best.winProbability).toBe(1);
+    expect(second.winProbability).toBe(0);
+  });
+
+  test("realistic players are ranked deterministically for a seed", async () => {
+    const probabilities = await computeCricketTargetProbabilities(
+      getThrowModel(20, { aspectRatio: 1, correlation: 0 }),
+      cpuSegmentProbabilities,
+      REGULATION_BOARD,
+      100,
+    );
+    const state = createCricketState();
+    const options = { simulations: 200, seed: 7 };
+    const first = evaluateCricketTargets(
+      state,
+      targets,
+      [probabilities, probabilities],
+      REGULATION_BOARD,
+      options,
+    );
+    const second = evaluateCricketTargets(
+      state,
+      targets,
+      [probabilities, probabilities],
+      REGULATION_BOARD,
+      options,
+    );
+
+    expect(first.map((e) => e.winProbability)).toEqual(second.map((e) => e.winProbability));
+    for (let i = 1; i < first.length; i++) {
+      expect(first[i].winProbability).toBeLessThanOrEqual(first[i - 1].winProbability);
+    }
+    // Throwing first against an equal player should be at least an even game from the best target
+    expect(first[0].winProbability).toBeGreaterThan(0.5);
+    expect(first[first.length - 1].winProbability).toBeLessThan(first[0].winProbability);
+  });
+
+  test("refuses a finished game", () => {
+    const state = createCricketState();
+    state.players[1].marks = [3, 3, 3, 3, 3, 3, 3];
+    const probabilities = perfectProbabilities(targets);
+    expect(() => evaluateCricketTargets(state, targets, [probabilities, probabilities])).toThrow();
+  });
+});
+
+describe("Worker Cricket evaluator", () => {
+  const targets = getCricketTargets(REGULATION_BOARD);
+  const probabilities = perfectProbabilities(targets);
+  const options = { simulations: 50 };
+
+  test("matches evaluating on the calling thread", async () => {
+    const evaluate = createWorkerCricketEvaluator(createInlineCricketWorker());
+    const state = createCricketState();
+
+    const viaWorker = await evaluate(
+      state,
+      targets,
+      [probabilities, probabilities],
+      REGULATION_BOARD,
+      options,
+    );
+    const direct = evaluateCricketTargets(
+      state,
+      targets,
+      [probabilities, probabilities],
+      REGULATION_BOARD,
+      options,
+    );
+    expect(viaWorker).toEqual(direct);
+  });
+
+  test("passes errors back", async () => {
+    const evaluate = createWorkerCricketEvaluator(createInlineCricketWorker());
+    const state = createCricketState();
+    state.players[1].marks = [3, 3, 3, 3, 3, 3, 3];
+
+    await expect(
+      evaluate(state, targets, [probabilities, probabilities], REGULATION_BOARD, options),
+    ).rejects.toThrow("The game is already over");
+  });
+
+  test("rejects waiting evaluations when the worker fails", async () => {
+    const target = new EventTarget();
+    const worker = {
+      addEventListener: target.addEventListener.bind(target),
+      postMessage: () => {},
+    } as unknown as CricketWorker;
+    const onFailure = vi.fn();
+    const evaluate = createWorkerCricketEvaluator(worker, onFailure);
+
+    const evaluations = evaluate(
+      createCricketState(),
+      targets,
+      [probabilities, probabilities],
+      REGULATION_BOARD,
+      options,
+    );
+    target.dispatchEvent(new Event("error"));
+
+    await expect(evaluations).rejects.toThrow("Cricket worker failed");
+    expect(onFailure).toHaveBeenCalledOnce();
+  });
+});
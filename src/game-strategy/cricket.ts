@@ -0,0 +1,318 @@
+import { DartboardDef, REGULATION_BOARD } from "../dartboard/dartboard-definition";
+import {
+  BULL_SEGMENT,
+  MISS_SEGMENT,
+  OUTER_BULL_SEGMENT,
+  SEGMENT_COUNT,
+  TRIPLE_SEGMENT_OFFSET,
+  getSegmentInfo,
+} from "../dartboard/dartboard-segments";
+import { SegmentProbabilityFn } from "../hit-distribution/segment-probabilities";
+import { createRandom } from "../shared/random";
+import { ThrowModel } from "../shared/throwModelAtom";
+import {
+  AimTarget,
+  DARTS_PER_VISIT,
+  computeTargetProbabilities,
+  getCheckoutTargets,
+} from "./checkout-solver";
+
+/** Numbers in play, highest first; 25 is the bull */
+export const CRICKET_NUMBERS = [20, 19, 18, 17, 16, 15, 25] as const;
+
+/** Marks needed to close a number */
+export const MARKS_TO_CLOSE = 3;
+
+export interface CricketPlayer {
+  /** Marks on each of CRICKET_NUMBERS, in the same order; marks beyond three are not kept */
+  marks: number[];
+  points: number;
+}
+
+export interface CricketState {
+  players: [CricketPlayer, CricketPlayer];
+  /** Index of the player throwing */
+  turn: 0 | 1;
+  /** Darts the player throwing has left in this visit */
+  dartsLeft: number;
+}
+
+export interface CricketTargetEvaluation {
+  target: AimTarget;
+  targetIndex: number;
+  /** Estimated probability that the player throwing goes on to win */
+  winProbability: number;
+  standardError: number;
+}
+
+export interface CricketEvaluationOptions {
+  /** Games simulated per target */
+  simulations?: number;
+  seed?: number;
+  /** Games still going after this many darts count as half a win */
+  maxDarts?: number;
+}
+
+/** Something that ranks targets like evaluateCricketTargets, possibly on another thread */
+export type CricketEvaluator = (
+  state: CricketState,
+  targets: AimTarget[],
+  playerProbabilities: [Float32Array[], Float32Array[]],
+  dartboard: DartboardDef,
+  options: CricketEvaluationOptions,
+) => CricketTargetEvaluation[] | Promise<CricketTargetEvaluation[]>;
+
+export function createCricketState(): CricketState {
+  const newPlayer = (): CricketPlayer => ({ marks: CRICKET_NUMBERS.map(() => 0), points: 0 });
+  return { players: [newPlayer(), newPlayer()], turn: 0, dartsLeft: DARTS_PER_VISIT };
+}
+
+/** Aim points for Cricket: every ring of 15–20 and both bulls */
+export function getCricketTargets(dartboard: DartboardDef = REGULATION_BOARD): AimTarget[] {
+  return getCheckoutTargets(dartboard).filter(
+    (target) => getCricketNumberIndex(target.segmentId, dartboard) !== -1,
+  );
+}
+
+/** Segment probabilities for each Cricket target under the given throw model */
+export function computeCricketTargetProbabilities(
+  throwModel: ThrowModel,
+  segmentProbabilities: SegmentProbabilityFn,
+  dartboard: DartboardDef = REGULATION_BOARD,
+  resolution?: number,
+): Promise<Float32Array[]> {
+  return computeTargetProbabilities(
+    getCricketTargets(dartboard),
+    throwModel,
+    segmentProbabilities,
+    dartboard,
+    resolution,
+  );
+}
+
+function getCricketNumberIndex(segmentId: number, dartboard: DartboardDef): number {
+  if (segmentId === BULL_SEGMENT || segmentId === OUTER_BULL_SEGMENT) {
+    return CRICKET_NUMBERS.indexOf(25);
+  }
+  const info = getSegmentInfo(segmentId, dartboard);
+  if (info.ring === "miss") return -1;
+  return (CRICKET_NUMBERS as readonly number[]).indexOf(info.baseScore);
+}
+
+/** Marks for a segment: one per multiple of the number, with the bull counting as two */
+function getSegmentMarks(segmentId: number, dartboard: DartboardDef): number {
+  if (segmentId === BULL_SEGMENT) return 2;
+  if (segmentId === OUTER_BULL_SEGMENT) return 1;
+  const info = getSegmentInfo(segmentId, dartboard);
+  return info.baseScore > 0 ? info.score / info.baseScore : 0;
+}
+
+/** Which Cricket number (index into CRICKET_NUMBERS, or -1) and how many marks each segment gives */
+interface SegmentMarks {
+  numberIndex: Int8Array;
+  marks: Int8Array;
+}
+
+function getSegmentMarksTable(dartboard: DartboardDef): SegmentMarks {
+  const numberIndex = new Int8Array(SEGMENT_COUNT);
+  const marks = new Int8Array(SEGMENT_COUNT);
+  for (let id = 0; id < SEGMENT_COUNT; id++) {
+    numberIndex[id] = getCricketNumberIndex(id, dartboard);
+    marks[id] = numberIndex[id] === -1 ? 0 : getSegmentMarks(id, dartboard);
+  }
+  return { numberIndex, marks };
+}
+
+/**
+ * Score marks for the player throwing, in place. Marks that close a number count towards
+ * closing; any left over score the number's value if the opponent hasn't closed it.
+ */
+function addMarks(
+  player: CricketPlayer,
+  opponent: CricketPlayer,
+  numberIndex: number,
+  hits: number,
+) {
+  const closing = Math.min(hits, MARKS_TO_CLOSE - player.marks[numberIndex]);
+  player.marks[numberIndex] += closing;
+  if (opponent.marks[numberIndex] < MARKS_TO_CLOSE) {
+    player.points += (hits - closing) * CRICKET_NUMBERS[numberIndex];
+  }
+}
+
+const hasClosedEverything = (player: CricketPlayer) =>
+  player.marks.every((marks) => marks >= MARKS_TO_CLOSE);
+
+/** A player wins once they have closed every number and have at least as many points */
+export function getCricketWinner(state: CricketState): 0 | 1 | null {
+  for (const index of [0, 1] as const) {
+    const player = state.players[index];
+    if (hasClosedEverything(player) && player.points >= state.players[1 - index].points) {
+      return index;
+    }
+  }
+  return null;
+}
+
+/** The state after the player throwing lands a dart in a segment */
+export function applyCricketDart(
+  state: CricketState,
+  segmentId: number,
+  dartboard: DartboardDef = REGULATION_BOARD,
+): CricketState {
+  const players = state.players.map((p) => ({ marks: [...p.marks], points: p.points })) as [
+    CricketPlayer,
+    CricketPlayer,
+  ];
+  const numberIndex = getCricketNumberIndex(segmentId, dartboard);
+  if (numberIndex !== -1) {
+    addMarks(
+      players[state.turn],
+      players[1 - state.turn],
+      numberIndex,
+      getSegmentMarks(segmentId, dartboard),
+    );
+  }
+
+  if (state.dartsLeft > 1) {
+    return { players, turn: state.turn, dartsLeft: state.dartsLeft - 1 };
+  }
+  return { players, turn: state.turn === 0 ? 1 : 0, dartsLeft: DARTS_PER_VISIT };
+}
+
+/**
+ * The target a simple strategy goes for in rollouts: when behind on points, score on the highest
+ * number the opponent still has open; otherwise close the highest number still open.
+ */
+function getRolloutNumber(player: CricketPlayer, opponent: CricketPlayer): number {
+  const behind = player.points < opponent.points;
+  let highestOpen = -1;
+  let highestScoring = -1;
+  for (let i = 0; i < CRICKET_NUMBERS.length; i++) {
+    const closed = player.marks[i] >= MARKS_TO_CLOSE;
+    if (!closed && highestOpen === -1) highestOpen = i;
+    if (closed && opponent.marks[i] < MARKS_TO_CLOSE && highestScoring === -1) highestScoring = i;
+  }
+  if (behind && highestScoring !== -1) return highestScoring;
+  if (highestOpen !== -1) return highestOpen;
+  // Everything closed on both sides only happens in a finished game; fall back to the bull
+  return highestScoring !== -1 ? highestScoring : CRICKET_NUMBERS.length - 1;
+}
+
+/** Segments a target can hit and their cumulative probabilities, most likely first */
+interface TargetSampler {
+  segments: Int16Array;
+  cumulative: Float64Array;
+}
+
+function createSampler(probabilities: Float32Array): TargetSampler {
+  const ids = [...probabilities.keys()]
+    .filter((id) => probabilities[id] > 0)
+    .sort((a, b) => probabilities[b] - probabilities[a]);
+  const cumulative = new Float64Array(ids.length);
+  let total = 0;
+  ids.forEach((id, i) => {
+    total += probabilities[id];
+    cumulative[i] = total;
+  });
+  return { segments: Int16Array.from(ids), cumulative: cumulative.map((c) => c / total) };
+}
+
+function sample(sampler: TargetSampler, u: number): number {
+  const { segments, cumulative } = sampler;
+  for (let i = 0; i < segments.length; i++) {
+    if (u < cumulative[i]) return segments[i];
+  }
+  return segments.length > 0 ? segments[segments.length - 1] : MISS_SEGMENT;
+}
+
+/**
+ * Estimate the chance of winning from each target for the player throwing, by Monte Carlo
+ * policy evaluation: the first dart goes at the target, then both players follow the rollout
+ * strategy until someone wins. Every target sees the same random numbers, so differences between
+ * targets aren't swamped by noise.
+ *
+ * @param playerProbabilities - Segment probabilities for each target, for each player
+ * @returns Evaluations, best first
+ */
+export function evaluateCricketTargets(
+  state: CricketState,
+  targets: AimTarget[],
+  playerProbabilities: [Float32Array[], Float32Array[]],
+  dartboard: DartboardDef = REGULATION_BOARD,
+  options: CricketEvaluationOptions = {},
+): CricketTargetEvaluation[] {
+  const { simulations = 1000, seed = 1, maxDarts = 500 } = options;
+  if (getCricketWinner(state) !== null) {
+    throw new Error("The game is already over");
+  }
+  for (const probabilities of playerProbabilities) {
+    if (probabilities.length !== targets.length) {
+      throw new Error("Need segment probabilities for every target for both players");
+    }
+  }
+
+  const table = getSegmentMarksTable(dartboard);
+  const samplers = playerProbabilities.map((p) => p.map(createSampler));
+
+  // Target each player uses to go for each number in rollouts: the triple, or the bull
+  const rolloutTargets = CRICKET_NUMBERS.map((number) => {
+    const segmentId =
+      number === 25 ? BULL_SEGMENT : TRIPLE_SEGMENT_OFFSET + dartboard.radialScores.indexOf(number);
+    const index = targets.findIndex((target) => target.segmentId === segmentId);
+    if (index === -1) {
+      throw new Error(`No target for ${number === 25 ? "the bull" : `T${number}`}`);
+    }
+    return index;
+  });
+
+  const players: [CricketPlayer, CricketPlayer] = [
+    { marks: [], points: 0 },
+    { marks: [], points: 0 },
+  ];
+  const me = state.turn;
+
+  const throwDart = (thrower: 0 | 1, targetIndex: number, u: number): boolean => {
+    const segmentId = sample(samplers[thrower][targetIndex], u);
+    const numberIndex = table.numberIndex[segmentId];
+    if (numberIndex !== -1) {
+      addMarks(players[thrower], players[1 - thrower], numberIndex, table.marks[segmentId]);
+    }
+    const player = players[thrower];
+    return hasClosedEverything(player) && player.points >= players[1 - thrower].points;
+  };
+
+  return targets
+    .map((target, targetIndex) => {
+      const random = createRandom(seed);
+      let wins = 0;
+      for (let game = 0; game < simulations; game++) {
+        for (const index of [0, 1] as const) {
+          players[index].marks = [...state.players[index].marks];
+          players[index].points = state.players[index].points;
+        }
+
+        let thrower = me;
+        let dartsLeft = state.dartsLeft;
+        let winner: 0 | 1 | null = throwDart(thrower, targetIndex, random()) ? thrower : null;
+        for (let dart = 1; winner === null && dart < maxDarts; dart++) {
+          if (--dartsLeft === 0) {
+            thrower = thrower === 0 ? 1 : 0;
+            dartsLeft = DARTS_PER_VISIT;
+          }
+          const number = getRolloutNumber(players[thrower], players[1 - thrower]);
+          if (throwDart(thrower, rolloutTargets[number], random())) winner = thrower;
+        }
+        wins += winner === null ? 0.5 : winner === me ? 1 : 0;
+      }
+
+      const winProbability = wins / simulations;
+      return {
+        target,
+        targetIndex,
+        winProbability,
+        standardError: Math.sqrt((winProbability * (1 - winProbability)) / simulations),
+      };
+    })
+    .sort((a, b) => b.winProbability - a.winProbability);
+}
@@ -0,0 +1,101 @@
+import { atom } from "jotai";
+import { getSegmentProbabilityFn } from "../compute/compute-backend";
+import { DartboardDef } from "../dartboard/dartboard-definition";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { ThrowModel, throwModelAtom } from "../shared/throwModelAtom";
+import {
+  CricketState,
+  CricketTargetEvaluation,
+  computeCricketTargetProbabilities,
+  createCricketState,
+  getCricketTargets,
+} from "./cricket";
+import { getCricketEvaluator } from "./worker-cricket";
+
+export interface CricketAdviceState {
+  /** Targets ranked by the chance of winning, best first */
+  evaluations: CricketTargetEvaluation[];
+  isComputing: boolean;
+  error: string | null;
+}
+
+// Grid the target distributions are integrated over
+export const CRICKET_RESOLUTION = 200;
+
+// Games simulated per target; enough to separate the sensible targets from the rest
+export const CRICKET_SIMULATIONS = 1000;
+
+// Marks and points of both players; you are always the one throwing
+export const cricketGameAtom = atom<CricketState>(createCricketState());
+
+export const cricketAdviceAtom = atom<CricketAdviceState>({
+  evaluations: [],
+  isComputing: false,
+  error: null,
+});
+
+// The target distributions only depend on the throw model and board, not on the marks
+let cachedProbabilities: {
+  throwModel: ThrowModel;
+  dartboard: DartboardDef;
+  probabilities: Promise<Float32Array[]>;
+} | null = null;
+
+async function getTargetProbabilities(
+  throwModel: ThrowModel,
+  dartboard: DartboardDef,
+): Promise<Float32Array[]> {
+  if (
+    cachedProbabilities?.throwModel !== throwModel ||
+    cachedProbabilities.dartboard !== dartboard
+  ) {
+    const probabilities = getSegmentProbabilityFn().then((segmentProbabilities) =>
+      computeCricketTargetProbabilities(
+        throwModel,
+        segmentProbabilities,
+        dartboard,
+        CRICKET_RESOLUTION,
+      ),
+    );
+    cachedProbabilities = { throwModel, dartboard, probabilities };
+    // A failed computation shouldn't be reused
+    probabilities.catch(() => {
+      if (cachedProbabilities?.probabilities === probabilities) cachedProbabilities = null;
+    });
+  }
+  return cachedProbabilities.probabilities;
+}
+
+// Only the latest request may write its result, so a slow run can't overwrite a newer one
+let latestRequest = 0;
+
+export const computeCricketAdviceAtom = atom(null, async (get, set) => {
+  const request = ++latestRequest;
+  const game = get(cricketGameAtom);
+  const throwModel = get(throwModelAtom);
+  const dartboard = get(dartboardAtom);
+  set(cricketAdviceAtom, (prev) => ({ ...prev, isComputing: true, error: null }));
+
+  try {
+    const probabilities = await getTargetProbabilities(throwModel, dartboard);
+    // Both players are assumed to throw with the same skill
+    const evaluations = await getCricketEvaluator()(
+      game,
+      getCricketTargets(dartboard),
+      [probabilities, probabilities],
+      dartboard,
+      { simulations: CRICKET_SIMULATIONS },
+    );
+    if (request === latestRequest) {
+      set(cricketAdviceAtom, { evaluations, isComputing: false, error: null });
+    }
+  } catch (e) {
+    if (request === latestRequest) {
+      set(cricketAdviceAtom, {
+        evaluations: [],
+        isComputing: false,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+});
@@ -0,0 +1,118 @@
+import type { DartboardDef } from "../dartboard/dartboard-definition";
+import type { AimTarget } from "./checkout-solver";
+import {
+  CricketEvaluationOptions,
+  CricketEvaluator,
+  CricketState,
+  CricketTargetEvaluation,
+  evaluateCricketTargets,
+} from "./cricket";
+
+export interface CricketEvaluationRequest {
+  id: number;
+  state: CricketState;
+  targets: AimTarget[];
+  playerProbabilities: [Float32Array[], Float32Array[]];
+  dartboard: DartboardDef;
+  options: CricketEvaluationOptions;
+}
+
+export type CricketEvaluationResponse =
+  | { id: number; evaluations: CricketTargetEvaluation[] }
+  | { id: number; error: string };
+
+/** The parts of a Worker the evaluator talks through */
+export type CricketWorker = Pick<Worker, "postMessage" | "addEventListener">;
+
+/**
+ * An evaluator that runs evaluateCricketTargets in a worker (see cricket-worker.ts). If the
+ * worker fails, every evaluation still waiting is rejected and onFailure is called so a new
+ * worker can be started.
+ */
+export function createWorkerCricketEvaluator(
+  worker: CricketWorker,
+  onFailure?: () => void,
+): CricketEvaluator {
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    {
+      resolve: (evaluations: CricketTargetEvaluation[]) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+
+  worker.addEventListener("message", (event: MessageEvent<CricketEvaluationResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.evaluations);
+    }
+  });
+
+  const fail = (message: string) => {
+    for (const { reject } of pending.values()) {
+      reject(new Error(message));
+    }
+    pending.clear();
+    onFailure?.();
+  };
+  worker.addEventListener("error", (event) =>
+    fail(`Cricket worker failed${event.message ? `: ${event.message}` : ""}`),
+  );
+  worker.addEventListener("messageerror", () => fail("Cricket worker sent an unreadable reply"));
+
+  return (state, targets, playerProbabilities, dartboard, options) =>
+    new Promise<CricketTargetEvaluation[]>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({
+        id,
+        state,
+        targets,
+        playerProbabilities,
+        dartboard,
+        options,
+      } satisfies CricketEvaluationRequest);
+    });
+}
+
+/** Evaluate a request on the worker side */
+export function handleCricketEvaluationRequest(
+  { id, state, targets, playerProbabilities, dartboard, options }: CricketEvaluationRequest,
+  post: (response: CricketEvaluationResponse) => void,
+): void {
+  try {
+    post({
+      id,
+      evaluations: evaluateCricketTargets(state, targets, playerProbabilities, dartboard, options),
+    });
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+let workerEvaluator: CricketEvaluator | null = null;
+
+/**
+ * Evaluate in a Web Worker so the page stays responsive while the games are simulated. Where
+ * there are no workers, evaluate on the calling thread.
+ */
+export function getCricketEvaluator(): CricketEvaluator {
+  if (typeof Worker === "undefined") return evaluateCricketTargets;
+
+  if (!workerEvaluator) {
+    const worker = new Worker(new URL("./cricket-worker.ts", import.meta.url), {
+      type: "module",
+    });
+    workerEvaluator = createWorkerCricketEvaluator(worker, () => {
+      worker.terminate();
+      workerEvaluator = null;
+    });
+  }
+  return workerEvaluator;
+}
@@ -0,0 +1,121 @@
+import type { DartboardDef } from "../dartboard/dartboard-definition";
+import {
+  AimTarget,
+  CheckoutSolution,
+  CheckoutSolver,
+  CheckoutSolverOptions,
+  CheckoutTables,
+  solveCheckout,
+  solveCheckoutTables,
+} from "./checkout-solver";
+
+export interface CheckoutSolveRequest {
+  id: number;
+  targets: AimTarget[];
+  targetProbabilities: Float32Array[];
+  dartboard: DartboardDef;
+  options: CheckoutSolverOptions;
+}
+
+export type CheckoutSolveResponse =
+  | { id: number; tables: CheckoutTables }
+  | { id: number; error: string };
+
+/** The parts of a Worker the solver talks through */
+export type CheckoutWorker = Pick<Worker, "postMessage" | "addEventListener">;
+
+/**
+ * A solver that runs solveCheckout in a worker (see checkout-worker.ts). If the worker fails,
+ * every solve still waiting is rejected and onFailure is called so a new worker can be started.
+ */
+export function createWorkerCheckoutSolver(
+  worker: CheckoutWorker,
+  onFailure?: () => void,
+): CheckoutSolver {
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    { resolve: (tables: CheckoutTables) => void; reject: (error: Error) => void }
+  >();
+
+  worker.addEventListener("message", (event: MessageEvent<CheckoutSolveResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.tables);
+    }
+  });
+
+  const fail = (message: string) => {
+    for (const { reject } of pending.values()) {
+      reject(new Error(message));
+    }
+    pending.clear();
+    onFailure?.();
+  };
+  worker.addEventListener("error", (event) =>
+    fail(`Checkout worker failed${event.message ? `: ${event.message}` : ""}`),
+  );
+  worker.addEventListener("messageerror", () => fail("Checkout worker sent an unreadable reply"));
+
+  return (targets, targetProbabilities, dartboard, options) =>
+    new Promise<CheckoutTables>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({
+        id,
+        targets,
+        targetProbabilities,
+        dartboard,
+        options,
+      } satisfies CheckoutSolveRequest);
+    }).then(
+      ({ maxScore, expectedDarts, bestTargets }) =>
+        new CheckoutSolution(
+          targets,
+          targetProbabilities,
+          dartboard,
+          maxScore,
+          expectedDarts,
+          bestTargets,
+        ),
+    );
+}
+
+/** Solve a request on the worker side, transferring the tables back rather than copying them */
+export function handleCheckoutSolveRequest(
+  { id, targets, targetProbabilities, dartboard, options }: CheckoutSolveRequest,
+  post: (response: CheckoutSolveResponse, transfer: Transferable[]) => void,
+): void {
+  try {
+    const tables = solveCheckoutTables(targets, targetProbabilities, dartboard, options);
+    post({ id, tables }, [tables.expectedDarts.buffer, tables.bestTargets.buffer]);
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : String(error) }, []);
+  }
+}
+
+let workerSolver: CheckoutSolver | null = null;
+
+/**
+ * Solve in a Web Worker so the page stays responsive; a solve takes seconds. Where there are no
+ * workers, solve on the calling thread.
+ */
+export function getCheckoutSolver(): CheckoutSolver {
+  if (typeof Worker === "undefined") return solveCheckout;
+
+  if (!workerSolver) {
+    const worker = new Worker(new URL("./checkout-worker.ts", import.meta.url), {
+      type: "module",
+    });
+    workerSolver = createWorkerCheckoutSolver(worker, () => {
+      worker.terminate();
+      workerSolver = null;
+    });
+  }
+  return workerSolver;
+}
@@ -1,20 +1,34 @@
-import { useAtom } from "jotai";
-import React, { useCallback, useEffect, useState } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { CanvasVisualization } from "../common/CanvasVisualization";
+import { getComputeBackend } from "../compute/compute-backend";
 import { getDartboardColor } from "../dartboard/dartboard-colors";
 import { pixelsToMm } from "../dartboard/dartboard-definition";
 import { drawRadialScores } from "../dartboard/dartboard-labels";
+import { getAllSegments } from "../dartboard/dartboard-segments";
+import { AimBiasControls } from "../expected-score/AimBiasControls";
 import { GaussianDistributionControls } from "../expected-score/GaussianDistributionControls";
 import { TargetIndicator } from "../expected-score/TargetIndicator";
 import { TargetPositionDisplay } from "../expected-score/TargetPositionDisplay";
+import { drawContours, getProbabilityLevels } from "../shared/contours";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { deviceGenerationAtom } from "../shared/deviceGenerationAtom";
 import { gaussianStddevMmAtom, getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
 import { targetPositionAtom } from "../shared/targetPositionAtom";
-import { getDevice, width } from "../webgpu/util";
+import {
+  aimBiasMmAtom,
+  getThrowModelPixels,
+  throwModelAtom,
+  throwShapeAtom,
+} from "../shared/throwModelAtom";
+import { width } from "../webgpu/util";
 import { getViridisColor } from "../webgpu/viridis";
-import { runSegmentProbabilitiesShader } from "./segment-probabilities";
 
 interface HitDistributionProps {}
 
+// Contours enclose the smallest areas holding these fractions of the darts
+const CONTOUR_FRACTIONS = [0.5, 0.9];
+
 interface SegmentProbability {
   segment: string;
   probability: number;
@@ -26,95 +40,53 @@ export const HitDistribution: React.FC<HitDistributionProps> = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [segmentProbabilities, setSegmentProbabilities] = useState<SegmentProbability[]>([]);
   const [showDartboardColors, setShowDartboardColors] = useState(true);
+  const [showContours, setShowContours] = useState(false);
   const [targetPosition, setTargetPosition] = useAtom(targetPositionAtom);
   const [gaussianStddevMm, setGaussianStddevMm] = useAtom(gaussianStddevMmAtom);
+  const [throwShape, setThrowShape] = useAtom(throwShapeAtom);
+  const [aimBias, setAimBias] = useAtom(aimBiasMmAtom);
+  const throwModel = useAtomValue(throwModelAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const deviceGeneration = useAtomValue(deviceGenerationAtom);
 
   // Convert mm to pixels for calculations
-  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, width);
+  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, width, dartboard);
+  const throwModelPixels = useMemo(
+    () => getThrowModelPixels(throwModel, width, dartboard),
+    [throwModel, dartboard],
+  );
 
   const runHitDistribution = useCallback(
     async (canvas: HTMLCanvasElement) => {
-      const device = await getDevice();
-      if (!device) {
-        console.error("Cannot continue without a device");
-        return;
-      }
-
-      const { hitData: result, segmentSums: segmentResults } = await runSegmentProbabilitiesShader(
-        device,
-        {
-          width,
-          height: width,
-          targetX: targetPosition.x,
-          targetY: targetPosition.y,
-          sigmaX: gaussianStddevPixels,
-          sigmaY: gaussianStddevPixels,
-        },
-      );
+      const backend = await getComputeBackend();
+      const { hitData: result, segmentSums: segmentResults } = await backend.hitDistribution({
+        width,
+        height: width,
+        targetX: targetPosition.x,
+        targetY: targetPosition.y,
+        sigmaX: throwModelPixels.sigmaX,
+        sigmaY: throwModelPixels.sigmaY,
+        rho: throwModelPixels.rho,
+        biasX: throwModelPixels.biasX,
+        biasY: throwModelPixels.biasY,
+        dartboard,
+      });
 
       // Process segment results and create probability table
-      const radialScores = [6, 13, 4, 18, 1, 20, 5, 12, 9, 14, 11, 8, 16, 7, 19, 3, 17, 2, 15, 10];
       const probabilities: SegmentProbability[] = [];
 
       // Calculate total probability for normalization
       const totalProbability = segmentResults.reduce((sum, val) => sum + val, 0);
 
-      // Singles (0-19)
-      for (let i = 0; i < 20; i++) {
-        if (segmentResults[i] > 0) {
-          probabilities.push({
-            segment: `${radialScores[i]} (Single)`,
-            probability: segmentResults[i] / totalProbability,
-          });
-        }
-      }
-
-      // Triples (20-39)
-      for (let i = 20; i < 40; i++) {
-        if (segmentResults[i] > 0) {
-          const scoreIndex = i - 20;
-          probabilities.push({
-            segment: `T${radialScores[scoreIndex]} (Triple)`,
-            probability: segmentResults[i] / totalProbability,
-          });
-        }
-      }
-
-      // Doubles (40-59)
-      for (let i = 40; i < 60; i++) {
-        if (segmentResults[i] > 0) {
-          const scoreIndex = i - 40;
+      for (const segment of getAllSegments(dartboard)) {
+        if (segmentResults[segment.id] > 0) {
           probabilities.push({
-            segment: `D${radialScores[scoreIndex]} (Double)`,
-            probability: segmentResults[i] / totalProbability,
+            segment: segment.label,
+            probability: segmentResults[segment.id] / totalProbability,
           });
         }
       }
 
-      // Outer Bull (60)
-      if (segmentResults[60] > 0) {
-        probabilities.push({
-          segment: "Outer Bull",
-          probability: segmentResults[60] / totalProbability,
-        });
-      }
-
-      // Bull (61)
-      if (segmentResults[61] > 0) {
-        probabilities.push({
-          segment: "Bull",
-          probability: segmentResults[61] / totalProbability,
-        });
-      }
-
-      // Miss (62)
-      if (segmentResults[62] > 0) {
-        probabilities.push({
-          segment: "Miss",
-          probability: segmentResults[62] / totalProbability,
-        });
-      }
-
       // Sort by probability (highest first)
       probabilities.sort((a, b) => b.probability - a.probability);
       setSegmentProbabilities(probabilities);
@@ -136,7 +108,7 @@ export const HitDistribution: React.FC<HitDistributionProps> = () => {
           const normY = (y / width) * 2 - 1;
 
           // Get dartboard color at this position
-          const color = getDartboardColor(normX, normY);
+          const color = getDartboardColor(normX, normY, dartboard);
 
           // Apply intensity based on the computed value
           const intensity = max > 0 ? result[i] / max : 0;
@@ -161,13 +133,20 @@ export const HitDistribution: React.FC<HitDistributionProps> = () => {
 
       ctx.putImageData(imageData, 0, 0);
 
+      if (showContours) {
+        const levels = getProbabilityLevels(result, CONTOUR_FRACTIONS)
+          .map((value, i) => ({ value, label: `${CONTOUR_FRACTIONS[i] * 100}%` }))
+          .filter(({ value }) => value > 0);
+        drawContours(ctx, result, width, width, levels);
+      }
+
       // Draw radial scores around the dartboard
       const centerX = width / 2;
       const centerY = width / 2;
       const labelRadius = width * 0.45; // Place labels outside the dartboard
-      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff");
+      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff", dartboard);
     },
-    [showDartboardColors, targetPosition, gaussianStddevPixels],
+    [showDartboardColors, showContours, targetPosition, throwModelPixels, dartboard],
   );
 
   useEffect(() => {
@@ -179,7 +158,15 @@ export const HitDistribution: React.FC<HitDistributionProps> = () => {
     if (!isDragging) {
       setCanvasKey((prev) => prev + 1);
     }
-  }, [showDartboardColors, targetPosition, gaussianStddevPixels, isDragging]);
+  }, [
+    showDartboardColors,
+    showContours,
+    targetPosition,
+    throwModelPixels,
+    dartboard,
+    deviceGeneration,
+    isDragging,
+  ]);
 
   return (
     <div className="flex gap-2.5">
@@ -221,15 +208,9 @@ export const HitDistribution: React.FC<HitDistributionProps> = () => {
               <table className="w-full border-collapse text-sm">
                 <thead>
                   <tr className="bg-gray-100 sticky top-0">
-                    <th className="p-2 text-left border-b border-gray-300">
-                      Segment
-                    </th>
-                    <th className="p-2 text-right border-b border-gray-300">
-                      Probability
-                    </th>
-                    <th className="p-2 text-right border-b border-gray-300">
-                      %
-                    </th>
+                    <th className="p-2 text-left border-b border-gray-300">Segment</th>
+                    <th className="p-2 text-right border-b border-gray-300">Probability</th>
+                    <th className="p-2 text-right border-b border-gray-300">%</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -270,19 +251,40 @@ export const HitDistribution: React.FC<HitDistributionProps> = () => {
             />
             Show Dartboard Colors
           </label>
+          <p className="text-sm text-gray-600 mt-2">Use traditional dartboard colors.</p>
+        </div>
+
+        <div className="mt-5">
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showContours}
+              onChange={(e) => setShowContours(e.target.checked)}
+              className="mr-2"
+            />
+            Show Probability Contours
+          </label>
           <p className="text-sm text-gray-600 mt-2">
-            Use traditional dartboard colors.
+            Outline where half and where 90% of darts land.
           </p>
         </div>
 
         <GaussianDistributionControls
           gaussianStddevPixels={gaussianStddevPixels}
-          onGaussianStddevPixelsChange={(pixels) => setGaussianStddevMm(pixelsToMm(pixels, width))}
+          onGaussianStddevPixelsChange={(pixels) =>
+            setGaussianStddevMm(pixelsToMm(pixels, width, dartboard))
+          }
+          throwShape={throwShape}
+          onThrowShapeChange={setThrowShape}
+          dartboard={dartboard}
         />
 
+        <AimBiasControls aimBias={aimBias} onAimBiasChange={setAimBias} />
+
         <TargetPositionDisplay
           targetPosition={targetPosition}
           onTargetPositionChange={setTargetPosition}
+          dartboard={dartboard}
         />
       </div>
     </div>
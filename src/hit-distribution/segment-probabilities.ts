@@ -1,3 +1,11 @@
+import {
+  DartboardDef,
+  REGULATION_BOARD,
+  normaliseDartboard,
+} from "../dartboard/dartboard-definition";
+import { createBoardGeometryBuffer } from "../dartboard/dartboard-geometry";
+import { MISS_SEGMENT, SEGMENT_COUNT, getSegmentId } from "../dartboard/dartboard-segments";
+import { gaussian2D } from "../shared/gaussian";
 import segmentProbabilitiesShader from "./segment-probabilities.wgsl?raw";
 
 export interface SegmentProbabilitiesParams {
@@ -9,8 +17,18 @@ export interface SegmentProbabilitiesParams {
   targetX: number;
   /** Vertical centre of the probability distribution in NDC (-1 to 1) */
   targetY: number;
+  /** Horizontal standard deviation in pixels */
   sigmaX: number;
+  /** Vertical standard deviation in pixels */
   sigmaY: number;
+  /** Correlation between horizontal and vertical error; defaults to 0 */
+  rho?: number;
+  /** Horizontal offset of the distribution mean from the target in pixels; defaults to 0 */
+  biasX?: number;
+  /** Vertical offset of the distribution mean from the target in pixels; defaults to 0 */
+  biasY?: number;
+  /** Board to segment; defaults to the regulation board */
+  dartboard?: DartboardDef;
 }
 
 export interface SegmentProbabilitiesResult {
@@ -19,12 +37,26 @@ export interface SegmentProbabilitiesResult {
   segmentSumsRaw: Uint32Array;
 }
 
+// Fixed-point multiplier used by the shader's atomic sums
+const FIXED_POINT_SCALE = 500000000.0;
+
 export async function runSegmentProbabilitiesShader(
   device: GPUDevice,
   params: SegmentProbabilitiesParams,
 ): Promise<SegmentProbabilitiesResult> {
-  const { width, height, targetX, targetY, sigmaX, sigmaY } = params;
-  const scalingFactor = 500000000.0;
+  const {
+    width,
+    height,
+    targetX,
+    targetY,
+    sigmaX,
+    sigmaY,
+    rho = 0,
+    biasX = 0,
+    biasY = 0,
+    dartboard = REGULATION_BOARD,
+  } = params;
+  const scalingFactor = FIXED_POINT_SCALE;
 
   const shaderModule = device.createShaderModule({
     label: "segment probabilities module",
@@ -41,7 +73,7 @@ export async function runSegmentProbabilitiesShader(
   });
 
   const hitDataSize = width * height * 4;
-  const segmentSumsSize = 63 * 4;
+  const segmentSumsSize = SEGMENT_COUNT * 4;
 
   const hitDataBuffer = device.createBuffer({
     label: "hit data buffer",
@@ -63,17 +95,22 @@ export async function runSegmentProbabilitiesShader(
 
   const sigmasBuffer = device.createBuffer({
     label: "sigmas buffer",
-    size: Math.max(8, 16),
+    size: 16,
     usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
   });
 
-  const segmentSumsInit = new Uint32Array(63);
+  const boardGeometryBuffer = createBoardGeometryBuffer(device, dartboard);
+
+  const segmentSumsInit = new Uint32Array(SEGMENT_COUNT);
   device.queue.writeBuffer(segmentSumsBuffer, 0, segmentSumsInit);
 
-  const paramsData = new Float32Array([width, height, targetX, targetY]);
+  // The shader centres the distribution on its target, so shift the target by the aim bias
+  const meanX = targetX + (biasX * 2) / width;
+  const meanY = targetY + (biasY * 2) / height;
+  const paramsData = new Float32Array([width, height, meanX, meanY]);
   device.queue.writeBuffer(paramsBuffer, 0, paramsData);
 
-  const sigmasData = new Float32Array([sigmaX, sigmaY]);
+  const sigmasData = new Float32Array([sigmaX, sigmaY, rho, 0]);
   device.queue.writeBuffer(sigmasBuffer, 0, sigmasData);
 
   const hitDataResultBuffer = device.createBuffer({
@@ -96,6 +133,7 @@ export async function runSegmentProbabilitiesShader(
       { binding: 1, resource: { buffer: paramsBuffer } },
       { binding: 2, resource: { buffer: segmentSumsBuffer } },
       { binding: 3, resource: { buffer: sigmasBuffer } },
+      { binding: 4, resource: { buffer: boardGeometryBuffer } },
     ],
   });
 
@@ -137,8 +175,117 @@ export async function runSegmentProbabilitiesShader(
   paramsBuffer.destroy();
   segmentSumsBuffer.destroy();
   sigmasBuffer.destroy();
+  boardGeometryBuffer.destroy();
   hitDataResultBuffer.destroy();
   segmentSumsResultBuffer.destroy();
 
   return { hitData, segmentSums, segmentSumsRaw };
 }
+
+/**
+ * CPU equivalent of runSegmentProbabilitiesShader, summing the same per-pixel densities without
+ * the shader's fixed-point rounding. Useful where there is no GPU and as a test reference.
+ */
+export function computeSegmentProbabilities(
+  params: SegmentProbabilitiesParams,
+): SegmentProbabilitiesResult {
+  const {
+    width,
+    height,
+    targetX,
+    targetY,
+    sigmaX,
+    sigmaY,
+    rho = 0,
+    biasX = 0,
+    biasY = 0,
+    dartboard = REGULATION_BOARD,
+  } = params;
+  const normalisedBoard = normaliseDartboard(dartboard);
+
+  const meanPixelX = (targetX + 1) * width * 0.5 + biasX;
+  const meanPixelY = (targetY + 1) * height * 0.5 + biasY;
+
+  const hitData = new Float32Array(width * height);
+  const sums = new Float64Array(SEGMENT_COUNT);
+
+  for (let y = 0; y < height; y++) {
+    const normY = (y / height) * 2 - 1;
+    for (let x = 0; x < width; x++) {
+      const gaussian = gaussian2D(x, y, meanPixelX, meanPixelY, sigmaX, sigmaY, rho);
+      hitData[y * width + x] = gaussian;
+      sums[getSegmentId((x / width) * 2 - 1, normY, normalisedBoard)] += gaussian;
+    }
+  }
+
+  const segmentSums = Float32Array.from(sums);
+  const segmentSumsRaw = Uint32Array.from(sums, (sum) => Math.round(sum * FIXED_POINT_SCALE));
+  return { hitData, segmentSums, segmentSumsRaw };
+}
+
+/**
+ * Sum of the per-pixel densities over every pixel of an unbounded grid, so the part of it that
+ * falls on the canvas can be told apart from the part that misses it. A broad distribution's sum
+ * is its integral, 1; a narrow one's depends on where its mean falls between pixels.
+ */
+function getLatticeTotal({
+  width,
+  height,
+  targetX,
+  targetY,
+  sigmaX,
+  sigmaY,
+  rho = 0,
+  biasX = 0,
+  biasY = 0,
+}: SegmentProbabilitiesParams): number {
+  if (Math.min(sigmaX, sigmaY) >= 2) return 1;
+
+  const meanPixelX = (targetX + 1) * width * 0.5 + biasX;
+  const meanPixelY = (targetY + 1) * height * 0.5 + biasY;
+  const reachX = Math.ceil(8 * sigmaX) + 1;
+  const reachY = Math.ceil(8 * sigmaY) + 1;
+
+  let total = 0;
+  for (let y = Math.floor(meanPixelY) - reachY; y <= Math.ceil(meanPixelY) + reachY; y++) {
+    for (let x = Math.floor(meanPixelX) - reachX; x <= Math.ceil(meanPixelX) + reachX; x++) {
+      total += gaussian2D(x, y, meanPixelX, meanPixelY, sigmaX, sigmaY, rho);
+    }
+  }
+  return total;
+}
+
+/**
+ * Turn segment sums into probabilities that add up to 1. Whatever lands off the canvas never
+ * reaches a segment, so it is counted as a miss.
+ */
+export function toSegmentProbabilities(
+  segmentSums: Float32Array,
+  params: SegmentProbabilitiesParams,
+): Float32Array {
+  const total = segmentSums.reduce((sum, value) => sum + value, 0);
+  const all = Math.max(total, getLatticeTotal(params));
+  if (!(all > 0)) return new Float32Array(segmentSums.length);
+
+  const probabilities = segmentSums.map((value) => value / all);
+  probabilities[MISS_SEGMENT] += 1 - total / all;
+  return probabilities;
+}
+
+/** Segment probabilities (summing to 1) for a throw distribution */
+export type SegmentProbabilityFn = (
+  params: SegmentProbabilitiesParams,
+) => Float32Array | Promise<Float32Array>;
+
+/** Segment probabilities integrated on the CPU */
+export const cpuSegmentProbabilities: SegmentProbabilityFn = (params) =>
+  toSegmentProbabilities(computeSegmentProbabilities(params).segmentSums, params);
+
+/** Segment probabilities from runSegmentProbabilitiesShader */
+export function gpuSegmentProbabilities(device: GPUDevice): SegmentProbabilityFn {
+  return async (params) =>
+    toSegmentProbabilities(
+      (await runSegmentProbabilitiesShader(device, params)).segmentSums,
+      params,
+    );
+}
@@ -1,50 +1,26 @@
 @group(0) @binding(0) var<storage, read_write> hitData: array<f32>;
 @group(0) @binding(1) var<uniform> params: vec4f; // x: width, y: height, z: targetX, w: targetY
 @group(0) @binding(2) var<storage, read_write> segmentSums: array<atomic<u32>>; // Array to store sums for each segment
-@group(0) @binding(3) var<uniform> sigmas: vec2f; // x: sigmaX, y: sigmaY
+@group(0) @binding(3) var<uniform> sigmas: vec4f; // x: sigmaX, y: sigmaY, z: rho, w: unused
 
-// Dartboard configuration (measurements in mm, matching TypeScript REGULATION_BOARD)
-const WHOLE_BOARD_DIAMETER: f32 = 451.0;
-const DOUBLE_BULL_DIAMETER_MM: f32 = 12.7;
-const BULL_DIAMETER_MM: f32 = 32.0;
-const TRIPLE_RING_WIDTH_MM: f32 = 8.0;
-const DOUBLE_RING_WIDTH_MM: f32 = 8.0;
-const CENTER_TO_OUTER_TRIPLE_MM: f32 = 107.0;
-const CENTER_TO_OUTER_DOUBLE_MM: f32 = 170.0;
-
-// Computed normalized coordinates (diameter normalized to 2.0)
-const DOUBLE_BULL_DIAMETER: f32 = (DOUBLE_BULL_DIAMETER_MM / WHOLE_BOARD_DIAMETER) * 2.0;
-const BULL_DIAMETER: f32 = (BULL_DIAMETER_MM / WHOLE_BOARD_DIAMETER) * 2.0;
-const TRIPLE_RING_WIDTH: f32 = (TRIPLE_RING_WIDTH_MM / WHOLE_BOARD_DIAMETER) * 2.0;
-const DOUBLE_RING_WIDTH: f32 = (DOUBLE_RING_WIDTH_MM / WHOLE_BOARD_DIAMETER) * 2.0;
-const CENTER_TO_OUTER_TRIPLE: f32 = (CENTER_TO_OUTER_TRIPLE_MM / WHOLE_BOARD_DIAMETER) * 2.0;
-const CENTER_TO_OUTER_DOUBLE: f32 = (CENTER_TO_OUTER_DOUBLE_MM / WHOLE_BOARD_DIAMETER) * 2.0;
-
-// Function to get radial score by index (20 segments starting from rightmost, going clockwise)
-fn getRadialScore(index: i32) -> i32 {
-  if (index == 0) { return 6; }
-  if (index == 1) { return 13; }
-  if (index == 2) { return 4; }
-  if (index == 3) { return 18; }
-  if (index == 4) { return 1; }
-  if (index == 5) { return 20; }
-  if (index == 6) { return 5; }
-  if (index == 7) { return 12; }
-  if (index == 8) { return 9; }
-  if (index == 9) { return 14; }
-  if (index == 10) { return 11; }
-  if (index == 11) { return 8; }
-  if (index == 12) { return 16; }
-  if (index == 13) { return 7; }
-  if (index == 14) { return 19; }
-  if (index == 15) { return 3; }
-  if (index == 16) { return 17; }
-  if (index == 17) { return 2; }
-  if (index == 18) { return 15; }
-  if (index == 19) { return 10; }
-  return 0;
+// Board layout in normalised coordinates, packed by packBoardGeometry in dartboard-geometry.ts
+struct BoardGeometry {
+  doubleBullRadius: f32,
+  bullRadius: f32,
+  innerTripleRadius: f32,
+  outerTripleRadius: f32,
+  innerDoubleRadius: f32,
+  outerDoubleRadius: f32,
+  segmentRotation: f32, // radians, clockwise
+  _padding: f32,
+  innerQuadrupleRadius: f32, // negative when the board has no quadruple ring
+  outerQuadrupleRadius: f32,
+  _padding2: vec2f,
+  radialScores: array<f32, 20>, // 20 segments starting from rightmost, going anticlockwise
 }
 
+@group(0) @binding(4) var<storage, read> board: BoardGeometry;
+
 @compute @workgroup_size(1) fn computeSegmentProbabilities(
   @builtin(global_invocation_id) id: vec3<u32>,
 ) {
@@ -53,7 +29,7 @@ fn getRadialScore(index: i32) -> i32 {
   let targetPixelY = (params.w + 1.0) * params.y * 0.5;
   
   // Calculate gaussian hit probability at this pixel
-  let gaussian = gaussian2D(f32(id.x), f32(id.y), targetPixelX, targetPixelY, sigmas.x, sigmas.y);
+  let gaussian = gaussian2D(f32(id.x), f32(id.y), targetPixelX, targetPixelY, sigmas.x, sigmas.y, sigmas.z);
   
   // Store the gaussian value in hitData for rendering
   hitData[id.y * u32(params.x) + id.x] = gaussian;
@@ -81,34 +57,35 @@ fn getSegmentId(x: f32, y: f32) -> i32 {
     return 62; // Miss (outside dartboard)
   }
   
-  // Bull (50 points) - compare radius against radius (diameter / 2)
-  if (r < DOUBLE_BULL_DIAMETER / 2.0) {
+  // Bull (50 points)
+  if (r < board.doubleBullRadius) {
     return 61; // Bull
   }
   
-  // Outer bull (25 points) - compare radius against radius (diameter / 2)
-  if (r < BULL_DIAMETER / 2.0) {
+  // Outer bull (25 points)
+  if (r < board.bullRadius) {
     return 60; // Outer bull
   }
   
   // Get slice index (0-19)
   let sliceIdx = getSliceIndex(x, y);
-  let baseScore = getRadialScore(sliceIdx);
   
-  // Determine ring type and calculate segment ID
-  let innerTripleRadius = CENTER_TO_OUTER_TRIPLE - TRIPLE_RING_WIDTH;
-  let innerDoubleRadius = CENTER_TO_OUTER_DOUBLE - DOUBLE_RING_WIDTH;
+  // Quadruple ring (Quadro boards only)
+  if (r >= board.innerQuadrupleRadius && r <= board.outerQuadrupleRadius) {
+    return 63 + sliceIdx; // 63-82: Quadruple scores
+  }
   
-  if (r < innerTripleRadius) {
+  // Determine ring type and calculate segment ID
+  if (r < board.innerTripleRadius) {
     // Inner single area
     return sliceIdx; // 0-19: Single scores
-  } else if (r <= CENTER_TO_OUTER_TRIPLE) {
+  } else if (r <= board.outerTripleRadius) {
     // Triple ring
     return 20 + sliceIdx; // 20-39: Triple scores
-  } else if (r < innerDoubleRadius) {
+  } else if (r < board.innerDoubleRadius) {
     // Outer single area
     return sliceIdx; // 0-19: Single scores (same as inner)
-  } else if (r <= CENTER_TO_OUTER_DOUBLE) {
+  } else if (r <= board.outerDoubleRadius) {
     // Double ring
     return 40 + sliceIdx; // 40-59: Double scores
   } else {
@@ -122,19 +99,25 @@ fn getSliceIndex(x: f32, y: f32) -> i32 {
   // Use more precise PI value matching JavaScript Math.PI
   let PI: f32 = 3.141592653589793;
   let theta = atan2(y, -x) + PI;
-  let adjustedTheta = (theta + PI / 20.0) % (2.0 * PI);
+  var adjustedTheta = (theta + board.segmentRotation + PI / 20.0) % (2.0 * PI);
+  if (adjustedTheta < 0.0) {
+    adjustedTheta += 2.0 * PI;
+  }
   let slice = (adjustedTheta / (2.0 * PI)) * 20.0;
-  return i32(floor(slice));
+  return i32(floor(slice)) % 20;
 }
 
 /**
- * Calculate the Gaussian probability density function for a 2D normal distribution
+ * Calculate the probability density function for a 2D normal distribution with correlation rho.
  * Parameters are in pixels.
  */
-fn gaussian2D(x: f32, y: f32, mu_x: f32, mu_y: f32, sigma_x: f32, sigma_y: f32) -> f32 {
+fn gaussian2D(x: f32, y: f32, mu_x: f32, mu_y: f32, sigma_x: f32, sigma_y: f32, rho: f32) -> f32 {
   // Use more precise PI value matching JavaScript Math.PI
   let PI: f32 = 3.141592653589793;
-  let coef: f32 = 1.0 / (2.0 * PI * sigma_x * sigma_y);
-  let exp_part: f32 = exp(-((x - mu_x) * (x - mu_x) / (2.0 * sigma_x * sigma_x) + (y - mu_y) * (y - mu_y) / (2.0 * sigma_y * sigma_y)));
+  let one_minus_rho2: f32 = 1.0 - rho * rho;
+  let dx: f32 = (x - mu_x) / sigma_x;
+  let dy: f32 = (y - mu_y) / sigma_y;
+  let coef: f32 = 1.0 / (2.0 * PI * sigma_x * sigma_y * sqrt(one_minus_rho2));
+  let exp_part: f32 = exp(-(dx * dx - 2.0 * rho * dx * dy + dy * dy) / (2.0 * one_minus_rho2));
   return coef * exp_part;
 }
\ No newline at end of file
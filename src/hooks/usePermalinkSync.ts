@@ -0,0 +1,67 @@
+import { WritableAtom, useAtomValue } from "jotai";
+import { useHydrateAtoms } from "jotai/utils";
+import { useEffect, useState } from "react";
+import { getDartboards } from "../dartboard/dartboard-registry";
+import {
+  CANVAS_SIZE_OPTIONS,
+  canvasSizeAtom,
+  showDartboardColorsAtom,
+  sigmaRangeAtom,
+} from "../optimal-target/optimalTargetAtoms";
+import { dartboardIdAtom } from "../shared/dartboardAtom";
+import { gaussianStddevMmAtom } from "../shared/gaussianStddevAtom";
+import { PermalinkState, decodePermalink, encodePermalink } from "../shared/permalink";
+import { targetPositionAtom } from "../shared/targetPositionAtom";
+import { aimBiasMmAtom, throwShapeAtom } from "../shared/throwModelAtom";
+
+/** The state in the page's URL when it was opened, read once */
+export function useInitialPermalink(): Partial<PermalinkState> {
+  const [initial] = useState(() => decodePermalink(window.location.search));
+  return initial;
+}
+
+/**
+ * Keep the URL in step with the analysis state so it can be shared as a link. On first render
+ * the atoms are set from the URL the page was opened with, before any tab reads them.
+ */
+export function usePermalinkSync(activeTab: string): void {
+  const initial = useInitialPermalink();
+
+  const hydrated = new Map<WritableAtom<unknown, never[], unknown>, unknown>();
+  const hydrate = <T>(atom: WritableAtom<T, [T], void>, value: T | undefined) => {
+    if (value !== undefined) hydrated.set(atom, value);
+  };
+  hydrate(targetPositionAtom, initial.targetPosition);
+  hydrate(gaussianStddevMmAtom, initial.sigmaMm);
+  hydrate(sigmaRangeAtom, initial.sigmaRange);
+  hydrate(showDartboardColorsAtom, initial.showDartboardColors);
+  hydrate(throwShapeAtom, initial.throwShape);
+  hydrate(aimBiasMmAtom, initial.aimBias);
+  if (CANVAS_SIZE_OPTIONS.some(({ size }) => size === initial.canvasSize)) {
+    hydrate(canvasSizeAtom, initial.canvasSize);
+  }
+  if (getDartboards().some((board) => board.id === initial.dartboardId)) {
+    hydrate(dartboardIdAtom, initial.dartboardId);
+  }
+  useHydrateAtoms(hydrated);
+
+  const state: PermalinkState = {
+    tab: activeTab,
+    targetPosition: useAtomValue(targetPositionAtom),
+    sigmaMm: useAtomValue(gaussianStddevMmAtom),
+    sigmaRange: useAtomValue(sigmaRangeAtom),
+    canvasSize: useAtomValue(canvasSizeAtom),
+    showDartboardColors: useAtomValue(showDartboardColorsAtom),
+    dartboardId: useAtomValue(dartboardIdAtom),
+    throwShape: useAtomValue(throwShapeAtom),
+    aimBias: useAtomValue(aimBiasMmAtom),
+  };
+  const query = encodePermalink(state);
+
+  // Replace rather than push, so dragging a slider doesn't fill the back button's history
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.search = query;
+    window.history.replaceState(window.history.state, "", url);
+  }, [query]);
+}
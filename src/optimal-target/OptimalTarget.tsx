@@ -2,8 +2,16 @@ import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import React, { useCallback, useEffect, useMemo, useRef } from "react";
 import { CanvasVisualization } from "../common/CanvasVisualization";
 import { LoadingSpinner } from "../common/LoadingSpinner";
-import { pixelsToMm } from "../dartboard/dartboard-definition";
+import { normaliseDartboard, pixelsToMm } from "../dartboard/dartboard-definition";
+import { getSegmentId, getSegmentInfo } from "../dartboard/dartboard-segments";
+import { AimBiasControls } from "../expected-score/AimBiasControls";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { deviceGenerationAtom } from "../shared/deviceGenerationAtom";
+import { aimBiasMmAtom, throwShapeAtom } from "../shared/throwModelAtom";
+import { ScoreLogEstimationPanel } from "../skill-estimation/ScoreLogEstimationPanel";
+import { SkillEstimationPanel } from "../skill-estimation/SkillEstimationPanel";
 import {
+  CANVAS_SIZE_OPTIONS,
   canvasSizeAtom,
   cleanupStoreAtom,
   computeAllOptimalTargetsAtom,
@@ -12,20 +20,25 @@ import {
   initializeStoreAtom,
   optimalTargetStateAtom,
   renderToCanvasAtom,
+  searchModeAtom,
   showDartboardColorsAtom,
+  usesGpuAtom,
 } from "./optimalTargetAtoms";
+import { OptimalTargetSearchMode } from "./OptimalTargetStore";
 
-interface OptimalTargetProps {
-  defaultCanvasSize?: number;
-}
-
-export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize = 250 }) => {
+export const OptimalTarget: React.FC = () => {
   // Jotai atoms
   const state = useAtomValue(optimalTargetStateAtom);
   const [currentSigmaMm, setCurrentSigmaMm] = useAtom(currentSigmaMmAtom);
   const [canvasSize, setCanvasSize] = useAtom(canvasSizeAtom);
+  const [searchMode, setSearchMode] = useAtom(searchModeAtom);
+  const usesGpu = useAtomValue(usesGpuAtom);
   const [showDartboardColors, setShowDartboardColors] = useAtom(showDartboardColorsAtom);
   const currentOptimalPosition = useAtomValue(currentOptimalPositionAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const deviceGeneration = useAtomValue(deviceGenerationAtom);
+  const throwShape = useAtomValue(throwShapeAtom);
+  const [aimBias, setAimBias] = useAtom(aimBiasMmAtom);
 
   // Action atoms
   const initializeStore = useSetAtom(initializeStoreAtom);
@@ -36,16 +49,11 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const computationStartedRef = useRef(false);
 
-  // Set initial canvas size on mount
-  useEffect(() => {
-    setCanvasSize(defaultCanvasSize);
-  }, [defaultCanvasSize, setCanvasSize]);
-
-  // Initialize store when canvas size changes
+  // Initialize store when canvas size, board or search mode changes, or the GPU device is replaced
   useEffect(() => {
-    computationStartedRef.current = false; // Reset computation flag when canvas size changes
+    computationStartedRef.current = false; // Reset computation flag when the store is replaced
     initializeStore();
-  }, [canvasSize, initializeStore]);
+  }, [canvasSize, dartboard, searchMode, deviceGeneration, initializeStore]);
 
   // Compute all targets after initialization (only once per store instance)
   useEffect(() => {
@@ -66,6 +74,19 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
     }
   }, [state.isComputing, state.isInitialized, state.results.length, computeAllOptimalTargets]);
 
+  // Re-run the sweep when the grouping shape no longer matches the computed results
+  useEffect(() => {
+    if (state.isInitialized && !state.isComputing && state.throwShape !== throwShape) {
+      computeAllOptimalTargets();
+    }
+  }, [
+    state.isInitialized,
+    state.isComputing,
+    state.throwShape,
+    throwShape,
+    computeAllOptimalTargets,
+  ]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -78,7 +99,7 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
     if (canvasRef.current) {
       renderToCanvas(canvasRef.current);
     }
-  }, [currentSigmaMm, state.results, showDartboardColors, renderToCanvas]);
+  }, [currentSigmaMm, state.results, showDartboardColors, aimBias, renderToCanvas]);
 
   const handleCanvasReady = useCallback(
     (canvas: HTMLCanvasElement) => {
@@ -109,26 +130,46 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
     // Scale from computational resolution to display resolution (500x500)
     const displayCanvasSize = 500;
     const scale = displayCanvasSize / canvasSize;
-    const displayX = currentOptimalPosition.x * scale;
-    const displayY = currentOptimalPosition.y * scale;
+    const toMmFromCenter = (x: number, y: number) => {
+      // Calculate distance from center in display pixels
+      const xFromCenter = x * scale - displayCanvasSize / 2;
+      const yFromCenter = y * scale - displayCanvasSize / 2;
 
-    // Calculate distance from center in display pixels
-    const centerX = displayCanvasSize / 2;
-    const centerY = displayCanvasSize / 2;
-    const xFromCenter = displayX - centerX;
-    const yFromCenter = displayY - centerY;
+      // Convert to mm using display canvas size
+      return {
+        x: pixelsToMm(xFromCenter, displayCanvasSize, dartboard),
+        y: pixelsToMm(yFromCenter, displayCanvasSize, dartboard),
+      };
+    };
+
+    return {
+      aim: toMmFromCenter(currentOptimalPosition.aimX, currentOptimalPosition.aimY),
+      groupingCentre: toMmFromCenter(currentOptimalPosition.x, currentOptimalPosition.y),
+    };
+  }, [currentOptimalPosition, canvasSize, dartboard]);
 
-    // Convert to mm using display canvas size
-    const xMm = pixelsToMm(xFromCenter, displayCanvasSize);
-    const yMm = pixelsToMm(yFromCenter, displayCanvasSize);
+  // Ranked local maxima, named by the segment under each aim point
+  const rankedMaxima = useMemo(() => {
+    const maxima = currentOptimalPosition?.maxima ?? [];
+    const normalisedBoard = normaliseDartboard(dartboard);
+    const toNormalised = (value: number) => (value / canvasSize) * 2 - 1;
+    return maxima.map((maximum) => ({
+      ...maximum,
+      segment: getSegmentInfo(
+        getSegmentId(toNormalised(maximum.aimX), toNormalised(maximum.aimY), normalisedBoard),
+        dartboard,
+      ).shortName,
+    }));
+  }, [currentOptimalPosition, canvasSize, dartboard]);
 
-    return { x: xMm, y: yMm };
-  }, [currentOptimalPosition, canvasSize]);
+  const hasAimBias = aimBias.x !== 0 || aimBias.y !== 0;
 
   return (
     <div className="flex">
       <div className="flex-1">
-        <p className="mb-4 text-gray-700">Now it's time to explore what happens as you get better (or worse) at throwing darts.</p>
+        <p className="mb-4 text-gray-700">
+          Now it's time to explore what happens as you get better (or worse) at throwing darts.
+        </p>
         <p className="mb-6 text-gray-700">
           Drag the slider to change the standard deviation and watch how the optimal target position
           slides around the dartboard.
@@ -146,15 +187,42 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
           </div>
 
           {optimalPositionMm && (
-            <div className="ml-10 min-w-[150px] flex flex-col items-start justify-center h-[500px]"
-            >
+            <div className="ml-10 min-w-[150px] flex flex-col items-start justify-center h-[500px]">
               <div className="text-xs text-gray-600 mb-2">
-                Distance from center
+                {hasAimBias ? "Aim point, distance from center" : "Distance from center"}
               </div>
               <div className="text-2xl font-bold">
-                <div>X: {optimalPositionMm.x.toFixed(1)} mm</div>
-                <div>Y: {optimalPositionMm.y.toFixed(1)} mm</div>
+                <div>X: {optimalPositionMm.aim.x.toFixed(1)} mm</div>
+                <div>Y: {optimalPositionMm.aim.y.toFixed(1)} mm</div>
               </div>
+              {hasAimBias && (
+                <div className="mt-4 text-sm text-gray-600">
+                  <div>Grouping centre:</div>
+                  <div>
+                    {optimalPositionMm.groupingCentre.x.toFixed(1)} mm,{" "}
+                    {optimalPositionMm.groupingCentre.y.toFixed(1)} mm
+                  </div>
+                </div>
+              )}
+              {rankedMaxima.length > 1 && (
+                <div className="mt-4 text-sm">
+                  <div className="text-xs text-gray-600 mb-1">Local maxima</div>
+                  <ol>
+                    {rankedMaxima.map((maximum, rank) => (
+                      <li key={rank} className="flex gap-2">
+                        <span className="font-bold w-4">{rank + 1}.</span>
+                        <span className="w-8">{maximum.segment}</span>
+                        <span>{maximum.expectedScore.toFixed(2)}</span>
+                        {rank > 0 && (
+                          <span className="text-gray-600">
+                            (−{(rankedMaxima[0].expectedScore - maximum.expectedScore).toFixed(2)})
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -194,33 +262,53 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
             />
             Show Dartboard Colors
           </label>
-          <p className="text-sm text-gray-600 mt-2">
-            Use traditional dartboard colors.
-          </p>
+          <p className="text-sm text-gray-600 mt-2">Use traditional dartboard colors.</p>
         </div>
 
         {/* Computation Resolution Control */}
         <div className="mt-5">
-          <label className="block mb-1.5 font-bold">
-            Resolution
-          </label>
+          <label className="block mb-1.5 font-bold">Resolution</label>
           <select
             value={canvasSize}
             onChange={(e) => setCanvasSize(Number(e.target.value))}
             className="w-full p-1.5 text-sm rounded border border-gray-300 disabled:opacity-50"
             disabled={state.isComputing}
           >
-            <option value={100}>100x100 (Fast)</option>
-            <option value={200}>200x200 (Medium)</option>
-            <option value={250}>250x250 (Default)</option>
-            <option value={300}>300x300 (High)</option>
-            <option value={500}>500x500 (Very High)</option>
+            {CANVAS_SIZE_OPTIONS.map(({ size, label }) => (
+              <option key={size} value={size}>
+                {label}
+              </option>
+            ))}
           </select>
           <p className="text-sm text-gray-600 mt-2">
             Higher resolution provides more accurate computation but takes longer to process.
           </p>
         </div>
 
+        {/* Search Mode Control */}
+        <div className="mt-5">
+          <label className="block mb-1.5 font-bold">Search</label>
+          <select
+            value={usesGpu ? searchMode : "exhaustive"}
+            onChange={(e) => setSearchMode(e.target.value as OptimalTargetSearchMode)}
+            className="w-full p-1.5 text-sm rounded border border-gray-300 disabled:opacity-50"
+            disabled={state.isComputing || !usesGpu}
+          >
+            <option value="hierarchical">Coarse-to-fine (Default)</option>
+            <option value="exhaustive">Every pixel</option>
+          </select>
+          {usesGpu ? (
+            <p className="text-sm text-gray-600 mt-2">
+              Coarse-to-fine evaluates a coarse grid and refines the best few peaks to sub-pixel
+              precision, which is much faster than evaluating every pixel.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600 mt-2">
+              Without WebGPU every pixel is evaluated on the CPU.
+            </p>
+          )}
+        </div>
+
         {/* Sigma Control */}
         <div className="mt-5">
           <label className="block mb-2 font-bold">
@@ -243,7 +331,18 @@ export const OptimalTarget: React.FC<OptimalTargetProps> = ({ defaultCanvasSize
           <p className="text-sm text-gray-600 mt-2">
             Controls the spread of the throws. Higher values represent less accurate throwing.
           </p>
+          {(throwShape.aspectRatio !== 1 || throwShape.correlation !== 0) && (
+            <p className="text-sm text-gray-600 mt-2">
+              Using σy = {throwShape.aspectRatio.toFixed(2)} × σx and ρ ={" "}
+              {throwShape.correlation.toFixed(2)} from the Skill Explorer.
+            </p>
+          )}
         </div>
+
+        <AimBiasControls aimBias={aimBias} onAimBiasChange={setAimBias} />
+
+        <SkillEstimationPanel />
+        <ScoreLogEstimationPanel />
       </div>
     </div>
   );
@@ -1,15 +1,69 @@
+import { DartsComputeBackend, getComputeBackend } from "../compute/compute-backend";
 import { getDartboardColor } from "../dartboard/dartboard-colors";
-import { makeDartboard, mmToPixels } from "../dartboard/dartboard-definition";
+import {
+  DartboardDef,
+  REGULATION_BOARD,
+  makeDartboard,
+  mmToPixels,
+  pixelsToMm,
+} from "../dartboard/dartboard-definition";
 import { drawRadialScores } from "../dartboard/dartboard-labels";
-import { getDevice } from "../webgpu/util";
+import { fitQuadraticPeak, refineGridMaximum } from "../shared/subpixel";
+import {
+  AimBias,
+  ISOTROPIC_THROW_SHAPE,
+  ThrowShape,
+  getCovarianceEllipse,
+} from "../shared/throwModelAtom";
+import { deviceManager } from "../webgpu/device-manager";
 import { getViridisColor } from "../webgpu/viridis";
+import {
+  findGridLocalMaxima,
+  hierarchicalSearch,
+  selectDistinctMaxima,
+} from "./hierarchical-search";
+import optimalTargetPointsShader from "./optimal-target-points.wgsl?raw";
 import optimalTargetReduceShader from "./optimal-target-reduce.wgsl?raw";
 import optimalTargetShader from "./optimal-target.wgsl?raw";
 
+/** Number of distinct local maxima reported for each sigma, including the global optimum */
+export const LOCAL_MAXIMA_COUNT = 3;
+
+/** Local maxima closer than this are treated as the same peak */
+export const LOCAL_MAXIMA_SEPARATION_MM = 15;
+
+/**
+ * Most local maxima the reduction collects per sigma before the closest are separated. A noisier
+ * grid falls back to scanning every score on the CPU.
+ */
+const MAX_LOCAL_MAXIMA = 1024;
+
+/** A grouping centre that scores at least as well as everywhere near it */
+export interface LocalMaximum {
+  x: number; // X position of the grouping centre in computational canvas pixels
+  y: number; // Y position of the grouping centre in computational canvas pixels
+  expectedScore: number;
+}
+
 export interface OptimalTargetResult {
-  sigma: number; // Sigma in mm
-  x: number; // X position in computational canvas pixels
-  y: number; // Y position in computational canvas pixels
+  sigma: number; // Horizontal sigma in mm
+  x: number; // X position of the grouping centre in computational canvas pixels
+  y: number; // Y position of the grouping centre in computational canvas pixels
+  expectedScore?: number; // Expected score with the grouping centred there
+  maxima?: LocalMaximum[]; // Distinct local maxima, best first; the first is the optimum itself
+}
+
+/** A local maximum together with the point to aim at to put the grouping there */
+export interface CompensatedLocalMaximum extends LocalMaximum {
+  aimX: number; // X position to aim at in computational canvas pixels
+  aimY: number; // Y position to aim at in computational canvas pixels
+}
+
+/** An optimal grouping centre together with the point to aim at to put the grouping there */
+export interface CompensatedOptimalTarget extends OptimalTargetResult {
+  aimX: number; // X position to aim at in computational canvas pixels
+  aimY: number; // Y position to aim at in computational canvas pixels
+  maxima?: CompensatedLocalMaximum[];
 }
 
 export interface OptimalTargetState {
@@ -17,6 +71,24 @@ export interface OptimalTargetState {
   isComputing: boolean;
   currentSigma: number; // Current sigma in mm
   isInitialized: boolean;
+  throwShape: ThrowShape; // Grouping shape the results were computed for
+}
+
+/**
+ * How the optimum is found: "exhaustive" evaluates every canvas pixel, "hierarchical" evaluates a
+ * coarse grid and refines the best few local maxima to sub-pixel precision.
+ */
+export type OptimalTargetSearchMode = "exhaustive" | "hierarchical";
+
+/** Result of a hierarchical search for a single sigma */
+export interface OptimalTargetSearchResult {
+  x: number; // X position of the grouping centre in computational canvas pixels
+  y: number; // Y position of the grouping centre in computational canvas pixels
+  xMm: number; // X position of the grouping centre in mm from the board centre
+  yMm: number; // Y position of the grouping centre in mm from the board centre, positive down
+  expectedScore: number;
+  evaluations: number; // Number of aim points evaluated
+  maxima: LocalMaximum[]; // Distinct local maxima, best first
 }
 
 export interface SigmaRange {
@@ -33,19 +105,33 @@ export class OptimalTargetStore {
   private device: GPUDevice | null = null;
   private findOptimalPositionPipeline: GPUComputePipeline | null = null;
   private findGlobalOptimumPipeline: GPUComputePipeline | null = null;
+  private evaluatePositionsPipeline: GPUComputePipeline | null = null;
+  private findLocalMaximaPipeline: GPUComputePipeline | null = null;
   private dartboardBuffer: GPUBuffer | null = null;
   private workgroupResultsBuffer: GPUBuffer | null = null;
   private uniformBuffer: GPUBuffer | null = null;
+  private shapeBuffer: GPUBuffer | null = null;
   private resultBuffer: GPUBuffer | null = null;
+  private scoresBuffer: GPUBuffer | null = null;
+  private localMaximaBuffer: GPUBuffer | null = null;
+  private localMaximaReadBuffer: GPUBuffer | null = null;
   private currentComputation: Promise<void> | null = null;
+  // Used instead of the device in browsers without WebGPU
+  private fallbackBackend: DartsComputeBackend | null = null;
   private readonly numWorkgroups = 32; // Number of workgroups to use (optimized from benchmark results)
 
   /**
    * Creates a new OptimalTargetStore instance.
    * @param canvasSize - The size (width and height) of the dartboard canvas in pixels.
    *                     Higher values provide more accurate results but require more computation.
+   * @param dartboard - The board to optimise over.
+   * @param searchMode - Whether to evaluate every pixel or search coarse-to-fine.
    */
-  constructor(private readonly canvasSize: number) {}
+  constructor(
+    private readonly canvasSize: number,
+    private readonly dartboard: DartboardDef = REGULATION_BOARD,
+    private readonly searchMode: OptimalTargetSearchMode = "exhaustive",
+  ) {}
 
   /**
    * Gets the canvas size this store was configured with.
@@ -54,10 +140,43 @@ export class OptimalTargetStore {
     return this.canvasSize;
   }
 
+  /**
+   * Gets the board this store was configured with.
+   */
+  getDartboard(): DartboardDef {
+    return this.dartboard;
+  }
+
+  /**
+   * Gets the search mode this store was configured with.
+   */
+  getSearchMode(): OptimalTargetSearchMode {
+    return this.searchMode;
+  }
+
+  /**
+   * Whether computations run on the GPU. Without one the search mode has no effect: sweeps
+   * evaluate every pixel on the CPU.
+   */
+  usesGpu(): boolean {
+    return this.device !== null;
+  }
+
+  /**
+   * Whether the device this store's pipelines and buffers were created on has been lost, in which
+   * case the store must be replaced.
+   */
+  hasLostDevice(): boolean {
+    return this.device !== null && !deviceManager.isCurrent(this.device);
+  }
+
   async initialize(): Promise<void> {
-    const device = await getDevice();
+    // Without a device the store computes on the CPU, so there is nothing to warn about
+    const device = await deviceManager.getDevice();
     if (!device) {
-      throw new Error("Cannot initialize without WebGPU device");
+      // Sweep on the CPU instead, one expected score map per sigma
+      this.fallbackBackend = await getComputeBackend();
+      return;
     }
     this.device = device;
 
@@ -72,6 +191,11 @@ export class OptimalTargetStore {
       code: optimalTargetReduceShader,
     });
 
+    const module3 = this.device.createShaderModule({
+      label: "optimal target points module",
+      code: optimalTargetPointsShader,
+    });
+
     this.findOptimalPositionPipeline = this.device.createComputePipeline({
       label: "find optimal position pipeline",
       layout: "auto",
@@ -90,10 +214,28 @@ export class OptimalTargetStore {
       },
     });
 
+    this.findLocalMaximaPipeline = this.device.createComputePipeline({
+      label: "find local maxima pipeline",
+      layout: "auto",
+      compute: {
+        module: module2,
+        entryPoint: "findLocalMaxima",
+      },
+    });
+
+    this.evaluatePositionsPipeline = this.device.createComputePipeline({
+      label: "evaluate positions pipeline",
+      layout: "auto",
+      compute: {
+        module: module3,
+        entryPoint: "evaluatePositions",
+      },
+    });
+
     // Create persistent buffers
     this.workgroupResultsBuffer = this.device.createBuffer({
       label: "workgroup results buffer",
-      size: this.numWorkgroups * 12, // vec3f = 3 * f32 = 12 bytes per workgroup
+      size: this.numWorkgroups * 16, // array<vec3f> has a 16 byte stride
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
     });
 
@@ -103,8 +245,28 @@ export class OptimalTargetStore {
       usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
     });
 
+    // Expected score at every position, kept for finding local maxima
+    this.scoresBuffer = this.device.createBuffer({
+      label: "expected scores buffer",
+      size: this.canvasSize * this.canvasSize * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+
+    // Count (u32, padded to 16 bytes) followed by x, y, score, unused for each local maximum
+    this.localMaximaBuffer = this.device.createBuffer({
+      label: "local maxima buffer",
+      size: 16 + MAX_LOCAL_MAXIMA * 16,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+    });
+
+    this.localMaximaReadBuffer = this.device.createBuffer({
+      label: "local maxima read buffer",
+      size: this.localMaximaBuffer.size,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+
     // Create dartboard data
-    const dartboardScore = makeDartboard(this.canvasSize);
+    const dartboardScore = makeDartboard(this.canvasSize, this.dartboard);
     this.dartboardBuffer = this.device.createBuffer({
       label: "dartboard buffer",
       size: dartboardScore.byteLength,
@@ -117,25 +279,38 @@ export class OptimalTargetStore {
       size: 16, // vec4f = 4 * f32 = 16 bytes
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
+
+    // Grouping shape (sigmaY / sigmaX, rho), shared by every sigma in a sweep
+    this.shapeBuffer = this.device.createBuffer({
+      label: "throw shape buffer",
+      size: 16, // vec4f = 4 * f32 = 16 bytes
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
   }
 
+  /**
+   * Sweep sigma over the given range, keeping the grouping shape fixed.
+   * @param sigmaRange - Range of horizontal sigma values in mm
+   * @param throwShape - Ratio of vertical to horizontal sigma and their correlation
+   */
   async computeAllOptimalTargets(
     sigmaRange: SigmaRange,
     onStateUpdate: (state: Partial<OptimalTargetState>) => void,
+    throwShape: ThrowShape = ISOTROPIC_THROW_SHAPE,
   ): Promise<void> {
     // Prevent multiple simultaneous computations
     if (this.currentComputation) {
       return;
     }
 
-    if (!this.device) {
+    if (!this.device && !this.fallbackBackend) {
       await this.initialize();
-      if (!this.device) return;
+      if (!this.device && !this.fallbackBackend) return;
     }
 
-    onStateUpdate({ isComputing: true, results: [] });
+    onStateUpdate({ isComputing: true, results: [], throwShape });
 
-    const computationPromise = this.executeAllComputations(sigmaRange, onStateUpdate);
+    const computationPromise = this.executeAllComputations(sigmaRange, throwShape, onStateUpdate);
     this.currentComputation = computationPromise;
 
     try {
@@ -148,20 +323,33 @@ export class OptimalTargetStore {
 
   private async executeAllComputations(
     sigmaRange: SigmaRange,
+    throwShape: ThrowShape,
     onStateUpdate: (state: Partial<OptimalTargetState>) => void,
   ): Promise<void> {
+    if (this.fallbackBackend) {
+      return this.executeFallbackComputations(
+        this.fallbackBackend,
+        sigmaRange,
+        throwShape,
+        onStateUpdate,
+      );
+    }
     if (
       !this.device ||
       !this.findOptimalPositionPipeline ||
       !this.findGlobalOptimumPipeline ||
       !this.dartboardBuffer ||
       !this.uniformBuffer ||
+      !this.shapeBuffer ||
       !this.workgroupResultsBuffer ||
       !this.resultBuffer
     )
       return;
 
     try {
+      const shapeData = new Float32Array([throwShape.aspectRatio, throwShape.correlation, 0, 0]);
+      this.device.queue.writeBuffer(this.shapeBuffer, 0, shapeData);
+
       // Generate sigma values in mm
       const sigmaValues: number[] = [];
       for (let sigma = sigmaRange.min; sigma <= sigmaRange.max; sigma += sigmaRange.step) {
@@ -177,6 +365,8 @@ export class OptimalTargetStore {
           sigma: sigmaMm, // Store sigma in mm
           x: position.x,
           y: position.y,
+          expectedScore: position.expectedScore,
+          maxima: position.maxima,
         });
 
         // Update progress
@@ -190,21 +380,89 @@ export class OptimalTargetStore {
     }
   }
 
-  private async computeSingleOptimalTarget(sigmaMm: number): Promise<{ x: number; y: number }> {
+  /**
+   * The sweep without WebGPU: the local maxima of each expected score map, which the CPU backend
+   * computes by FFT or separable blur rather than by evaluating every pixel directly.
+   */
+  private async executeFallbackComputations(
+    backend: DartsComputeBackend,
+    sigmaRange: SigmaRange,
+    throwShape: ThrowShape,
+    onStateUpdate: (state: Partial<OptimalTargetState>) => void,
+  ): Promise<void> {
+    const results: OptimalTargetResult[] = [];
+    for (let sigmaMm = sigmaRange.min; sigmaMm <= sigmaRange.max; sigmaMm += sigmaRange.step) {
+      const maxima = await this.findFallbackMaxima(backend, sigmaMm, throwShape);
+      results.push({ sigma: sigmaMm, ...maxima[0], maxima });
+      onStateUpdate({ results: [...results] });
+    }
+  }
+
+  /**
+   * Distinct local maxima of the expected score map for one sigma, best first and refined to
+   * between pixels, found on the CPU the same way as when the GPU's list of maxima overflows.
+   */
+  private async findFallbackMaxima(
+    backend: DartsComputeBackend,
+    sigmaMm: number,
+    throwShape: ThrowShape,
+  ): Promise<LocalMaximum[]> {
+    const sigmaPixels = mmToPixels(sigmaMm, this.canvasSize, this.dartboard);
+    const scores = await backend.expectedScoreMap(this.canvasSize, {
+      sigmaX: sigmaPixels,
+      sigmaY: sigmaPixels * throwShape.aspectRatio,
+      rho: throwShape.correlation,
+      biasX: 0,
+      biasY: 0,
+      dartboard: this.dartboard,
+    });
+
+    const candidates = findGridLocalMaxima(scores, this.canvasSize, this.canvasSize).sort(
+      (a, b) => b.score - a.score,
+    );
+    const distinct = selectDistinctMaxima(
+      candidates,
+      LOCAL_MAXIMA_COUNT,
+      mmToPixels(LOCAL_MAXIMA_SEPARATION_MM, this.canvasSize, this.dartboard),
+    );
+    if (distinct.length === 0) {
+      throw new Error(`No aim point scores anything at sigma ${sigmaMm}mm`);
+    }
+
+    return distinct
+      .map(({ x, y }) => {
+        const peak = refineGridMaximum(scores, this.canvasSize, this.canvasSize, x, y);
+        return { x: peak.x, y: peak.y, expectedScore: peak.value };
+      })
+      .sort((a, b) => b.expectedScore - a.expectedScore);
+  }
+
+  private async computeSingleOptimalTarget(
+    sigmaMm: number,
+  ): Promise<LocalMaximum & { maxima: LocalMaximum[] }> {
+    if (this.searchMode === "hierarchical") {
+      return this.searchOptimalTarget(sigmaMm);
+    }
+
     if (
       !this.device ||
       !this.findOptimalPositionPipeline ||
       !this.findGlobalOptimumPipeline ||
       !this.dartboardBuffer ||
       !this.uniformBuffer ||
+      !this.shapeBuffer ||
       !this.workgroupResultsBuffer ||
-      !this.resultBuffer
+      !this.resultBuffer ||
+      !this.findLocalMaximaPipeline ||
+      !this.scoresBuffer ||
+      !this.localMaximaBuffer ||
+      !this.localMaximaReadBuffer
     ) {
       throw new Error("Store not initialized");
     }
 
     // Convert sigma from mm to pixels for the computational canvas
-    const sigmaPixels = mmToPixels(sigmaMm, this.canvasSize);
+    const sigmaPixels = mmToPixels(sigmaMm, this.canvasSize, this.dartboard);
 
     // Update uniform data with current sigma in pixels
     const uniformData = new Float32Array([
@@ -223,6 +481,8 @@ export class OptimalTargetStore {
         { binding: 0, resource: { buffer: this.workgroupResultsBuffer } },
         { binding: 1, resource: { buffer: this.dartboardBuffer } },
         { binding: 2, resource: { buffer: this.uniformBuffer } },
+        { binding: 3, resource: { buffer: this.shapeBuffer } },
+        { binding: 4, resource: { buffer: this.scoresBuffer } },
       ],
     });
 
@@ -236,6 +496,17 @@ export class OptimalTargetStore {
       ],
     });
 
+    const bindGroup3 = this.device.createBindGroup({
+      label: "optimal target bind group local maxima",
+      layout: this.findLocalMaximaPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 1, resource: { buffer: this.uniformBuffer } },
+        { binding: 2, resource: { buffer: this.scoresBuffer } },
+        { binding: 3, resource: { buffer: this.localMaximaBuffer } },
+      ],
+    });
+    this.device.queue.writeBuffer(this.localMaximaBuffer, 0, new Uint32Array(4));
+
     // Execute computation
     const encoder = this.device.createCommandEncoder({
       label: "optimal target encoder",
@@ -259,8 +530,24 @@ export class OptimalTargetStore {
     pass2.dispatchWorkgroups(1);
     pass2.end();
 
+    // Alongside it, collect the local maxima of the full score grid
+    const pass3 = encoder.beginComputePass({
+      label: "optimal target compute pass local maxima",
+    });
+    pass3.setPipeline(this.findLocalMaximaPipeline);
+    pass3.setBindGroup(0, bindGroup3);
+    pass3.dispatchWorkgroups(Math.ceil(this.canvasSize / 16), Math.ceil(this.canvasSize / 16));
+    pass3.end();
+
     // Copy final result
     encoder.copyBufferToBuffer(this.workgroupResultsBuffer, 0, this.resultBuffer, 0, 12);
+    encoder.copyBufferToBuffer(
+      this.localMaximaBuffer,
+      0,
+      this.localMaximaReadBuffer,
+      0,
+      this.localMaximaBuffer.size,
+    );
 
     const commandBuffer = encoder.finish();
     this.device.queue.submit([commandBuffer]);
@@ -270,12 +557,259 @@ export class OptimalTargetStore {
     const resultData = new Float32Array(this.resultBuffer.getMappedRange().slice(0));
     this.resultBuffer.unmap();
 
+    await this.localMaximaReadBuffer.mapAsync(GPUMapMode.READ);
+    const localMaximaData = this.localMaximaReadBuffer.getMappedRange().slice(0);
+    this.localMaximaReadBuffer.unmap();
+    const count = new Uint32Array(localMaximaData, 0, 1)[0];
+    const localMaxima: LocalMaximum[] = [];
+    if (count > MAX_LOCAL_MAXIMA) {
+      // The buffer kept whichever maxima the GPU reached first, so scan the whole grid instead
+      const scores = await this.readScores();
+      for (const { x, y, score } of findGridLocalMaxima(scores, this.canvasSize, this.canvasSize)) {
+        localMaxima.push({ x, y, expectedScore: score });
+      }
+    } else {
+      const points = new Float32Array(localMaximaData, 16, count * 4);
+      for (let i = 0; i < count; i++) {
+        localMaxima.push({
+          x: points[i * 4],
+          y: points[i * 4 + 1],
+          expectedScore: points[i * 4 + 2],
+        });
+      }
+    }
+
+    // The global optimum always comes first
+    const best = { x: resultData[0], y: resultData[1], expectedScore: resultData[2] };
+    const distinct = selectDistinctMaxima(
+      [best, ...localMaxima.sort((a, b) => b.expectedScore - a.expectedScore)],
+      LOCAL_MAXIMA_COUNT,
+      mmToPixels(LOCAL_MAXIMA_SEPARATION_MM, this.canvasSize, this.dartboard),
+    );
+
+    const maxima: LocalMaximum[] = [];
+    for (const maximum of distinct) {
+      maxima.push(
+        await this.refineOptimalPixel(maximum.x, maximum.y, maximum.expectedScore, sigmaPixels),
+      );
+    }
+    maxima.sort((a, b) => b.expectedScore - a.expectedScore);
+    return { ...maxima[0], maxima };
+  }
+
+  /** Read back the expected score at every position from the last exhaustive search */
+  private async readScores(): Promise<Float32Array> {
+    if (!this.device || !this.scoresBuffer) {
+      throw new Error("Store not initialized");
+    }
+
+    const readBuffer = this.device.createBuffer({
+      label: "expected scores read buffer",
+      size: this.scoresBuffer.size,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+    const encoder = this.device.createCommandEncoder({
+      label: "expected scores readback encoder",
+    });
+    encoder.copyBufferToBuffer(this.scoresBuffer, 0, readBuffer, 0, this.scoresBuffer.size);
+    this.device.queue.submit([encoder.finish()]);
+
+    await readBuffer.mapAsync(GPUMapMode.READ);
+    const scores = new Float32Array(readBuffer.getMappedRange().slice(0));
+    readBuffer.unmap();
+    readBuffer.destroy();
+    return scores;
+  }
+
+  /**
+   * Move the best pixel to the peak of a quadratic fitted to its neighbourhood, so the optimum
+   * moves smoothly as sigma changes rather than jumping between pixel centres.
+   */
+  private async refineOptimalPixel(
+    x: number,
+    y: number,
+    score: number,
+    sigmaPixels: number,
+  ): Promise<LocalMaximum> {
+    if (x <= 0 || y <= 0 || x >= this.canvasSize - 1 || y >= this.canvasSize - 1) {
+      return { x, y, expectedScore: score };
+    }
+
+    const positions = new Float32Array(18);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const i = (dy + 1) * 3 + dx + 1;
+        positions[i * 2] = x + dx;
+        positions[i * 2 + 1] = y + dy;
+      }
+    }
+    const neighbourhood = await this.evaluatePositions(positions, sigmaPixels);
+    const refined = fitQuadraticPeak(neighbourhood, x, y);
+    return { x: refined.x, y: refined.y, expectedScore: refined.value };
+  }
+
+  /**
+   * Coarse-to-fine search for the optimal grouping centre for a single sigma.
+   * @param sigmaMm - Horizontal sigma in mm
+   * @param throwShape - Ratio of vertical to horizontal sigma and their correlation
+   */
+  async findOptimalTarget(
+    sigmaMm: number,
+    throwShape: ThrowShape = ISOTROPIC_THROW_SHAPE,
+  ): Promise<OptimalTargetSearchResult> {
+    if (this.currentComputation) {
+      throw new Error("A sweep is already running");
+    }
+    if (!this.device && !this.fallbackBackend) {
+      await this.initialize();
+    }
+    if (this.fallbackBackend) {
+      return this.findFallbackOptimalTarget(this.fallbackBackend, sigmaMm, throwShape);
+    }
+    if (!this.device || !this.shapeBuffer) {
+      throw new Error("Store not initialized");
+    }
+    const shapeData = new Float32Array([throwShape.aspectRatio, throwShape.correlation, 0, 0]);
+    this.device.queue.writeBuffer(this.shapeBuffer, 0, shapeData);
+    return this.searchOptimalTarget(sigmaMm);
+  }
+
+  /**
+   * The best points of a whole expected score map, for browsers without WebGPU. The search mode
+   * doesn't apply; every pixel is evaluated.
+   */
+  private async findFallbackOptimalTarget(
+    backend: DartsComputeBackend,
+    sigmaMm: number,
+    throwShape: ThrowShape,
+  ): Promise<OptimalTargetSearchResult> {
+    const maxima = await this.findFallbackMaxima(backend, sigmaMm, throwShape);
+    const best = maxima[0];
+
+    return {
+      ...best,
+      xMm: pixelsToMm(best.x - this.canvasSize / 2, this.canvasSize, this.dartboard),
+      yMm: pixelsToMm(best.y - this.canvasSize / 2, this.canvasSize, this.dartboard),
+      evaluations: this.canvasSize * this.canvasSize,
+      maxima,
+    };
+  }
+
+  /**
+   * Hierarchical search using the throw shape already in the shape buffer. The coarse grid
+   * spacing follows sigma, since the expected score varies little over distances much smaller
+   * than the spread, so wide groupings need far fewer evaluations than the full canvas.
+   */
+  private async searchOptimalTarget(sigmaMm: number): Promise<OptimalTargetSearchResult> {
+    const sigmaPixels = mmToPixels(sigmaMm, this.canvasSize, this.dartboard);
+    const coarseSpacing = Math.max(1, Math.min(sigmaPixels / 2, this.canvasSize / 32));
+    const { best, candidates, evaluations } = await hierarchicalSearch(
+      (positions) => this.evaluatePositions(positions, sigmaPixels),
+      this.canvasSize,
+      {
+        coarseSpacing,
+        candidates: LOCAL_MAXIMA_COUNT,
+        minSeparation: mmToPixels(LOCAL_MAXIMA_SEPARATION_MM, this.canvasSize, this.dartboard),
+      },
+    );
+
     return {
-      x: resultData[0],
-      y: resultData[1],
+      x: best.x,
+      y: best.y,
+      xMm: pixelsToMm(best.x - this.canvasSize / 2, this.canvasSize, this.dartboard),
+      yMm: pixelsToMm(best.y - this.canvasSize / 2, this.canvasSize, this.dartboard),
+      expectedScore: best.score,
+      evaluations,
+      maxima: candidates.map(({ x, y, score }) => ({ x, y, expectedScore: score })),
     };
   }
 
+  /**
+   * Expected score at each of a batch of aim points.
+   * @param positions - Interleaved x, y pairs in computational canvas pixels
+   * @param sigmaPixels - Horizontal sigma in computational canvas pixels
+   */
+  private async evaluatePositions(
+    positions: Float32Array<ArrayBuffer>,
+    sigmaPixels: number,
+  ): Promise<Float32Array> {
+    if (
+      !this.device ||
+      !this.evaluatePositionsPipeline ||
+      !this.dartboardBuffer ||
+      !this.shapeBuffer
+    ) {
+      throw new Error("Store not initialized");
+    }
+    const count = positions.length / 2;
+    if (count === 0) return new Float32Array(0);
+
+    const positionsBuffer = this.device.createBuffer({
+      label: "positions buffer",
+      size: positions.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.device.queue.writeBuffer(positionsBuffer, 0, positions);
+
+    const scoresBuffer = this.device.createBuffer({
+      label: "position scores buffer",
+      size: count * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+    const readBuffer = this.device.createBuffer({
+      label: "position scores read buffer",
+      size: count * 4,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+
+    const paramsBuffer = this.device.createBuffer({
+      label: "positions params buffer",
+      size: 16, // vec4f = 4 * f32 = 16 bytes
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.device.queue.writeBuffer(
+      paramsBuffer,
+      0,
+      new Float32Array([this.canvasSize, this.canvasSize, sigmaPixels, count]),
+    );
+
+    const bindGroup = this.device.createBindGroup({
+      label: "evaluate positions bind group",
+      layout: this.evaluatePositionsPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: positionsBuffer } },
+        { binding: 1, resource: { buffer: scoresBuffer } },
+        { binding: 2, resource: { buffer: this.dartboardBuffer } },
+        { binding: 3, resource: { buffer: paramsBuffer } },
+        { binding: 4, resource: { buffer: this.shapeBuffer } },
+      ],
+    });
+
+    const encoder = this.device.createCommandEncoder({
+      label: "evaluate positions encoder",
+    });
+    const pass = encoder.beginComputePass({
+      label: "evaluate positions compute pass",
+    });
+    pass.setPipeline(this.evaluatePositionsPipeline);
+    pass.setBindGroup(0, bindGroup);
+    pass.dispatchWorkgroups(Math.ceil(count / 64));
+    pass.end();
+    encoder.copyBufferToBuffer(scoresBuffer, 0, readBuffer, 0, count * 4);
+    this.device.queue.submit([encoder.finish()]);
+
+    await readBuffer.mapAsync(GPUMapMode.READ);
+    const scores = new Float32Array(readBuffer.getMappedRange().slice(0));
+    readBuffer.unmap();
+
+    positionsBuffer.destroy();
+    scoresBuffer.destroy();
+    readBuffer.destroy();
+    paramsBuffer.destroy();
+
+    return scores;
+  }
+
   getOptimalTargetForSigma(
     results: OptimalTargetResult[],
     sigmaMm: number,
@@ -295,11 +829,32 @@ export class OptimalTargetStore {
     return closestResult;
   }
 
+  /**
+   * Get the point to aim at so that a player with the given bias centres their grouping on the
+   * optimal position. The optimal grouping centre doesn't depend on the bias, so results can be
+   * reused when only the bias changes.
+   */
+  compensateForAimBias(result: OptimalTargetResult, biasMm: AimBias): CompensatedOptimalTarget {
+    const biasX = mmToPixels(biasMm.x, this.canvasSize, this.dartboard);
+    const biasY = mmToPixels(biasMm.y, this.canvasSize, this.dartboard);
+    return {
+      ...result,
+      aimX: result.x - biasX,
+      aimY: result.y - biasY,
+      maxima: result.maxima?.map((maximum) => ({
+        ...maximum,
+        aimX: maximum.x - biasX,
+        aimY: maximum.y - biasY,
+      })),
+    };
+  }
+
   renderToCanvas(
     canvas: HTMLCanvasElement,
     currentSigmaMm: number,
-    optimalPosition: { x: number; y: number } | null,
+    optimalPosition: CompensatedOptimalTarget | null,
     showDartboardColors: boolean = true,
+    throwShape: ThrowShape = ISOTROPIC_THROW_SHAPE,
   ): void {
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
@@ -323,7 +878,7 @@ export class OptimalTargetStore {
           const normY = (displayY / canvas.height) * 2 - 1;
 
           // Get dartboard color at this position
-          const color = getDartboardColor(normX, normY);
+          const color = getDartboardColor(normX, normY, this.dartboard);
 
           const index = (displayY * canvas.width + displayX) * 4;
 
@@ -336,7 +891,7 @@ export class OptimalTargetStore {
       }
     } else {
       // Generate dartboard scores at display resolution for viridis rendering
-      const displayDartboardScore = makeDartboard(canvas.width);
+      const displayDartboardScore = makeDartboard(canvas.width, this.dartboard);
       const maxScore = displayDartboardScore.reduce((max, score) => Math.max(max, score), 0);
 
       for (let displayY = 0; displayY < canvas.height; displayY++) {
@@ -362,28 +917,79 @@ export class OptimalTargetStore {
       const centerX = canvas.width / 2;
       const centerY = canvas.height / 2;
       const labelRadius = canvas.width * 0.45; // Place labels outside the dartboard
-      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff");
+      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff", this.dartboard);
+    }
+
+    // Number the other local maxima by rank, beneath the optimum
+    for (const [rank, maximum] of (optimalPosition?.maxima ?? []).entries()) {
+      if (rank === 0) continue;
+      const markerX = maximum.aimX * scaleX;
+      const markerY = maximum.aimY * scaleY;
+
+      ctx.fillStyle = "orange";
+      ctx.strokeStyle = "white";
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(markerX, markerY, 7, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+
+      ctx.fillStyle = "black";
+      ctx.font = "bold 10px sans-serif";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(String(rank + 1), markerX, markerY);
     }
 
     // Draw optimal position as a red dot (scaled to display coordinates)
     if (optimalPosition) {
       const displayX = optimalPosition.x * scaleX;
       const displayY = optimalPosition.y * scaleY;
+      const aimDisplayX = optimalPosition.aimX * scaleX;
+      const aimDisplayY = optimalPosition.aimY * scaleY;
 
-      // Draw Gaussian standard deviation ring
-      const sigmaPixelsComp = mmToPixels(currentSigmaMm, this.canvasSize);
+      // Draw Gaussian standard deviation ellipse
+      const sigmaPixelsComp = mmToPixels(currentSigmaMm, this.canvasSize, this.dartboard);
       const sigmaPixelsDisplay = sigmaPixelsComp * scaleX;
+      const ellipse = getCovarianceEllipse(
+        sigmaPixelsDisplay,
+        sigmaPixelsDisplay * throwShape.aspectRatio,
+        throwShape.correlation,
+      );
 
       ctx.strokeStyle = "rgba(255, 255, 255, 0.7)";
       ctx.lineWidth = 1;
       ctx.beginPath();
-      ctx.arc(displayX, displayY, sigmaPixelsDisplay, 0, 2 * Math.PI);
+      ctx.ellipse(
+        displayX,
+        displayY,
+        ellipse.radiusX,
+        ellipse.radiusY,
+        ellipse.rotation,
+        0,
+        2 * Math.PI,
+      );
       ctx.stroke();
 
-      // Draw optimal position dot
+      // With an aim bias, mark the grouping centre and link it to the compensated aim point
+      if (aimDisplayX !== displayX || aimDisplayY !== displayY) {
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        ctx.moveTo(aimDisplayX, aimDisplayY);
+        ctx.lineTo(displayX, displayY);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = "white";
+        ctx.beginPath();
+        ctx.arc(displayX, displayY, 2.5, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+
+      // Draw optimal aim point dot
       ctx.fillStyle = "red";
       ctx.beginPath();
-      ctx.arc(displayX, displayY, 4, 0, 2 * Math.PI);
+      ctx.arc(aimDisplayX, aimDisplayY, 4, 0, 2 * Math.PI);
       ctx.fill();
 
       // Add white border for better visibility
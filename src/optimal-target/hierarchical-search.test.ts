@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { REGULATION_BOARD, makeDartboard } from "../dartboard/dartboard-definition";
+import { gaussian2D } from "../shared/gaussian";
+import {
+  PositionEvaluator,
+  findGridLocalMaxima,
+  hierarchicalSearch,
+  selectDistinctMaxima,
+} from "./hierarchical-search";
+
+/** Evaluator for a function of position, counting calls */
+const evaluatorFor = (f: (x: number, y: number) => number): PositionEvaluator => {
+  return async (positions) => {
+    const scores = new Float32Array(positions.length / 2);
+    for (let i = 0; i < scores.length; i++) {
+      scores[i] = f(positions[i * 2], positions[i * 2 + 1]);
+    }
+    return scores;
+  };
+};
+
+/** Expected score by the same full-canvas sum as optimal-target-points.wgsl */
+const expectedScore = (width: number, sigma: number) => {
+  const scores = makeDartboard(width, REGULATION_BOARD);
+  return (aimX: number, aimY: number) => {
+    let totalScore = 0;
+    let totalProbability = 0;
+    for (let y = 0; y < width; y++) {
+      for (let x = 0; x < width; x++) {
+        const g = gaussian2D(x, y, aimX, aimY, sigma, sigma);
+        totalProbability += g;
+        totalScore += g * scores[y * width + x];
+      }
+    }
+    return totalProbability === 0 ? 0 : totalScore / totalProbability;
+  };
+};
+
+describe("hierarchicalSearch", () => {
+  it("refines every separate peak and picks the highest", async () => {
+    const peaks = [
+      { x: 20.3, y: 70.6, height: 1 },
+      { x: 61.7, y: 22.1, height: 1.2 },
+      { x: 80.2, y: 80.9, height: 0.9 },
+    ];
+    const f = (x: number, y: number) =>
+      Math.max(...peaks.map((p) => p.height * Math.exp(-((x - p.x) ** 2 + (y - p.y) ** 2) / 50)));
+
+    const { best, candidates, evaluations } = await hierarchicalSearch(evaluatorFor(f), 100, {
+      coarseSpacing: 4,
+    });
+
+    expect(candidates).toHaveLength(3);
+    expect(best.x).toBeCloseTo(61.7, 1);
+    expect(best.y).toBeCloseTo(22.1, 1);
+    for (const peak of peaks) {
+      expect(candidates.some((c) => Math.hypot(c.x - peak.x, c.y - peak.y) < 0.1)).toBe(true);
+    }
+    expect(evaluations).toBeLessThan(100 * 100);
+  });
+
+  it("beats the best pixel of an exhaustive search with fewer evaluations", async () => {
+    const width = 80;
+    const sigma = 6;
+    const f = expectedScore(width, sigma);
+
+    let pixelBest = 0;
+    for (let y = 0; y < width; y++) {
+      for (let x = 0; x < width; x++) {
+        pixelBest = Math.max(pixelBest, f(x, y));
+      }
+    }
+
+    const { best, evaluations } = await hierarchicalSearch(evaluatorFor(f), width, {
+      coarseSpacing: sigma / 2,
+    });
+    expect(best.score).toBeGreaterThanOrEqual(pixelBest - 1e-4);
+    expect(evaluations).toBeLessThan((width * width) / 4);
+  });
+
+  it("rejects a non-positive spacing", async () => {
+    await expect(
+      hierarchicalSearch(
+        evaluatorFor(() => 0),
+        10,
+        { coarseSpacing: 0 },
+      ),
+    ).rejects.toThrow();
+  });
+});
+
+describe("selectDistinctMaxima", () => {
+  it("keeps the best of each cluster up to the count", () => {
+    const maxima = [
+      { x: 10, y: 10, score: 5 },
+      { x: 11, y: 10, score: 4.9 },
+      { x: 30, y: 10, score: 4 },
+      { x: 10, y: 12, score: 3.5 },
+      { x: 50, y: 50, score: 3 },
+      { x: 80, y: 80, score: 2 },
+    ];
+    expect(selectDistinctMaxima(maxima, 3, 5).map((m) => m.score)).toEqual([5, 4, 3]);
+    expect(selectDistinctMaxima(maxima, 10, 5)).toHaveLength(4);
+    expect(selectDistinctMaxima(maxima, 10, 0)).toHaveLength(6);
+  });
+});
+
+describe("findGridLocalMaxima", () => {
+  it("finds each peak once, counting a plateau at its first point", () => {
+    // prettier-ignore
+    const scores = [
+      1, 2, 1, 0, 3,
+      1, 1, 1, 0, 0,
+      0, 0, 4, 4, 0,
+    ];
+    expect(findGridLocalMaxima(scores, 5, 3)).toEqual([
+      { x: 1, y: 0, score: 2 },
+      { x: 4, y: 0, score: 3 },
+      { x: 2, y: 2, score: 4 },
+    ]);
+  });
+
+  it("skips points that score nothing", () => {
+    expect(findGridLocalMaxima([0, 0, 0, 0], 2, 2)).toEqual([]);
+  });
+});
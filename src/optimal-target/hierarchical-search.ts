@@ -0,0 +1,175 @@
+/** An aim point in computational canvas pixels and its expected score */
+export interface SearchPoint {
+  x: number;
+  y: number;
+  score: number;
+}
+
+/** Expected scores for a batch of aim points, in the same order */
+export type PositionEvaluator = (positions: Float32Array<ArrayBuffer>) => Promise<Float32Array>;
+
+export interface HierarchicalSearchOptions {
+  /** Spacing of the coarse grid in pixels; features narrower than this may be missed */
+  coarseSpacing: number;
+  /** Number of separate local maxima to refine; defaults to 3 (usually T20, T19 and the bull) */
+  candidates?: number;
+  /** Refine until the step is below this many pixels; defaults to 1/32 */
+  precision?: number;
+  /** Minimum distance between candidates in pixels; defaults to twice the coarse spacing */
+  minSeparation?: number;
+}
+
+export interface HierarchicalSearchResult {
+  best: SearchPoint;
+  /** Refined candidates, best first */
+  candidates: SearchPoint[];
+  /** Total number of aim points evaluated */
+  evaluations: number;
+}
+
+/**
+ * Find the aim point with the highest expected score on a width × width canvas by evaluating a
+ * coarse grid, keeping the best few separate local maxima, and refining each by a pattern search
+ * that halves its step down to sub-pixel precision.
+ */
+export async function hierarchicalSearch(
+  evaluate: PositionEvaluator,
+  width: number,
+  options: HierarchicalSearchOptions,
+): Promise<HierarchicalSearchResult> {
+  const {
+    coarseSpacing,
+    candidates: candidateCount = 3,
+    precision = 1 / 32,
+    minSeparation = 2 * coarseSpacing,
+  } = options;
+  if (!(coarseSpacing > 0) || !(precision > 0) || !(candidateCount >= 1)) {
+    throw new Error("Coarse spacing, precision and candidate count must be positive");
+  }
+  let evaluations = 0;
+  const evaluatePoints = async (points: { x: number; y: number }[]): Promise<SearchPoint[]> => {
+    const positions = new Float32Array(points.length * 2);
+    points.forEach((point, i) => {
+      positions[i * 2] = point.x;
+      positions[i * 2 + 1] = point.y;
+    });
+    const scores = await evaluate(positions);
+    evaluations += points.length;
+    return points.map((point, i) => ({ ...point, score: scores[i] }));
+  };
+
+  // Coarse grid, centred on the canvas
+  const last = width - 1;
+  const steps = Math.floor(last / coarseSpacing);
+  const offset = (last - steps * coarseSpacing) / 2;
+  const axis = Array.from({ length: steps + 1 }, (_, i) => offset + i * coarseSpacing);
+  const coarse = await evaluatePoints(axis.flatMap((y) => axis.map((x) => ({ x, y }))));
+
+  // Local maxima of the coarse grid, best first
+  const size = axis.length;
+  const isLocalMaximum = (i: number, j: number) => {
+    const score = coarse[j * size + i].score;
+    for (let dj = -1; dj <= 1; dj++) {
+      for (let di = -1; di <= 1; di++) {
+        const ni = i + di;
+        const nj = j + dj;
+        if ((di || dj) && ni >= 0 && ni < size && nj >= 0 && nj < size) {
+          if (coarse[nj * size + ni].score > score) return false;
+        }
+      }
+    }
+    return true;
+  };
+  const maxima = coarse
+    .filter((_, index) => isLocalMaximum(index % size, Math.floor(index / size)))
+    .sort((a, b) => b.score - a.score);
+
+  let candidates = selectDistinctMaxima(maxima, candidateCount, minSeparation);
+
+  // Refine all candidates together, so each step is a single batch
+  const clamp = (value: number) => Math.min(Math.max(value, 0), last);
+  for (let step = coarseSpacing / 2; step >= precision; step /= 2) {
+    const neighbours = candidates.flatMap((c) =>
+      [-1, 0, 1].flatMap((dy) =>
+        [-1, 0, 1]
+          .filter((dx) => dx || dy)
+          .map((dx) => ({ x: clamp(c.x + dx * step), y: clamp(c.y + dy * step) })),
+      ),
+    );
+    const scored = await evaluatePoints(neighbours);
+    candidates = candidates.map((c, k) =>
+      scored.slice(k * 8, k * 8 + 8).reduce((best, p) => (p.score > best.score ? p : best), c),
+    );
+  }
+
+  // Candidates that climbed the same peak end up together
+  candidates = selectDistinctMaxima(
+    candidates.sort((a, b) => b.score - a.score),
+    candidateCount,
+    minSeparation,
+  );
+  return { best: candidates[0], candidates, evaluations };
+}
+
+/**
+ * The best few maxima at least minDistance apart. Plateaus and shallow ridges give several
+ * neighbouring maxima for one peak, and only the best of those is kept.
+ *
+ * @param maxima - Local maxima, best first
+ */
+export function selectDistinctMaxima<T extends { x: number; y: number }>(
+  maxima: T[],
+  count: number,
+  minDistance: number,
+): T[] {
+  const selected: T[] = [];
+  for (const point of maxima) {
+    if (selected.length >= count) break;
+    if (selected.every((s) => Math.hypot(s.x - point.x, s.y - point.y) >= minDistance)) {
+      selected.push(point);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Every point of a width × height grid that scores at least as well as its eight neighbours, by
+ * the same rule as findLocalMaxima in optimal-target-reduce.wgsl: on a plateau only points with
+ * no equal neighbour before them in row order count, and points scoring 0 or less are skipped.
+ */
+export function findGridLocalMaxima(
+  scores: ArrayLike<number>,
+  width: number,
+  height: number,
+): SearchPoint[] {
+  const maxima: SearchPoint[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const score = scores[y * width + x];
+      if (!(score > 0) || !isGridLocalMaximum(scores, width, height, x, y)) continue;
+      maxima.push({ x, y, score });
+    }
+  }
+  return maxima;
+}
+
+function isGridLocalMaximum(
+  scores: ArrayLike<number>,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+): boolean {
+  const score = scores[y * width + x];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const neighbour = scores[ny * width + nx];
+      const earlier = dy < 0 || (dy === 0 && dx < 0);
+      if (neighbour > score || (earlier && neighbour === score)) return false;
+    }
+  }
+  return true;
+}
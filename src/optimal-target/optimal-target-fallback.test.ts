@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { ISOTROPIC_THROW_SHAPE } from "../shared/throwModelAtom";
+import { OptimalTargetStore } from "./OptimalTargetStore";
+
+describe("OptimalTargetStore without WebGPU", () => {
+  it("finds the optimal target and its runners-up on the CPU", async () => {
+    const store = new OptimalTargetStore(64);
+    const result = await store.findOptimalTarget(5, ISOTROPIC_THROW_SHAPE);
+
+    expect(store.usesGpu()).toBe(false);
+    expect(result.evaluations).toBe(64 * 64);
+    expect(result.maxima[0]).toEqual({
+      x: result.x,
+      y: result.y,
+      expectedScore: result.expectedScore,
+    });
+    // The runners-up come from the same map, best first
+    expect(result.maxima.length).toBeGreaterThan(1);
+    const scores = result.maxima.map((maximum) => maximum.expectedScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    // A tight grouping belongs on the treble 20, above the bull
+    expect(result.yMm).toBeLessThan(-90);
+    expect(result.expectedScore).toBeGreaterThan(20);
+  });
+});
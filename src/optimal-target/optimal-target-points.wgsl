@@ -0,0 +1,47 @@
+@group(0) @binding(0) var<storage, read> positions: array<vec2f>; // aim points in pixels
+@group(0) @binding(1) var<storage, read_write> scores: array<f32>; // expected score for each aim point
+@group(0) @binding(2) var<storage, read> dartboard: array<u32>;
+@group(0) @binding(3) var<uniform> params: vec4f; // x: width, y: height, z: sigma, w: number of positions
+@group(0) @binding(4) var<uniform> shape: vec4f; // x: sigmaY / sigmaX, y: rho, zw: unused
+
+const WORKGROUP_SIZE: u32 = 64;
+
+// Expected score at arbitrary (sub-pixel) aim points, one thread per point
+@compute @workgroup_size(WORKGROUP_SIZE) fn evaluatePositions(
+  @builtin(global_invocation_id) global_id: vec3<u32>
+) {
+  let index = global_id.x;
+  if (index >= u32(params.w)) {
+    return;
+  }
+
+  let position = positions[index];
+  scores[index] = computeExpectedScoreAtPosition(position.x, position.y, params.z, u32(params.x), u32(params.y));
+}
+
+fn computeExpectedScoreAtPosition(target_x: f32, target_y: f32, sigma: f32, width: u32, height: u32) -> f32 {
+  var total_probability: f32 = 0.0;
+  var total_score: f32 = 0.0;
+
+  // Sample the Gaussian distribution around the target position
+  for (var y: u32 = 0; y < height; y = y + 1) {
+    for (var x: u32 = 0; x < width; x = x + 1) {
+      let gaussian = gaussian2D(f32(x), f32(y), target_x, target_y, sigma, sigma * shape.x, shape.y);
+      let score = f32(dartboard[y * width + x]);
+
+      total_probability = total_probability + gaussian;
+      total_score = total_score + gaussian * score;
+    }
+  }
+
+  return select(total_score / total_probability, 0.0, total_probability == 0.0);
+}
+
+fn gaussian2D(x: f32, y: f32, mu_x: f32, mu_y: f32, sigma_x: f32, sigma_y: f32, rho: f32) -> f32 {
+  let one_minus_rho2: f32 = 1.0 - rho * rho;
+  let dx: f32 = (x - mu_x) / sigma_x;
+  let dy: f32 = (y - mu_y) / sigma_y;
+  let coef: f32 = 1.0 / (2.0 * 3.14159265 * sigma_x * sigma_y * sqrt(one_minus_rho2));
+  let exp_part: f32 = exp(-(dx * dx - 2.0 * rho * dx * dy + dy * dy) / (2.0 * one_minus_rho2));
+  return coef * exp_part;
+}
@@ -20,4 +20,54 @@
   
   // Store the final result in the first element of workgroup_results
   workgroup_results[0] = vec3f(global_optimal_position.x, global_optimal_position.y, global_max_score);
-}
\ No newline at end of file
+}
+
+@group(0) @binding(2) var<storage, read> scores: array<f32>; // expected score at every position
+@group(0) @binding(3) var<storage, read_write> local_maxima: LocalMaxima;
+
+struct LocalMaxima {
+  count: atomic<u32>,
+  positions: array<vec4f>, // x, y, score, unused
+}
+
+const MAX_LOCAL_MAXIMA: u32 = 1024;
+
+// Alongside the global maximum, collect every position that scores at least as well as its eight
+// neighbours. On a plateau only positions with no equal neighbour before them in row order count.
+@compute @workgroup_size(16, 16) fn findLocalMaxima(
+  @builtin(global_invocation_id) global_id: vec3<u32>
+) {
+  let width = u32(params.x);
+  let height = u32(params.y);
+  let x = global_id.x;
+  let y = global_id.y;
+  if (x >= width || y >= height) {
+    return;
+  }
+
+  let score = scores[y * width + x];
+  if (score <= 0.0) {
+    return;
+  }
+
+  for (var dy: i32 = -1; dy <= 1; dy = dy + 1) {
+    for (var dx: i32 = -1; dx <= 1; dx = dx + 1) {
+      let nx = i32(x) + dx;
+      let ny = i32(y) + dy;
+      if ((dx == 0 && dy == 0) || nx < 0 || ny < 0 || nx >= i32(width) || ny >= i32(height)) {
+        continue;
+      }
+      let neighbour = scores[u32(ny) * width + u32(nx)];
+      let earlier = dy < 0 || (dy == 0 && dx < 0);
+      if (neighbour > score || (earlier && neighbour == score)) {
+        return;
+      }
+    }
+  }
+
+  // Keep counting past the capacity so the caller can tell maxima were dropped
+  let slot = atomicAdd(&local_maxima.count, 1u);
+  if (slot < MAX_LOCAL_MAXIMA) {
+    local_maxima.positions[slot] = vec4f(f32(x), f32(y), score, 0.0);
+  }
+}
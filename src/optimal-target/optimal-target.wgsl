@@ -1,6 +1,8 @@
 @group(0) @binding(0) var<storage, read_write> workgroup_results: array<vec3f>; // x, y, score for each workgroup
 @group(0) @binding(1) var<storage, read> dartboard: array<u32>;
 @group(0) @binding(2) var<uniform> params: vec4f; // x: width, y: height, z: sigma, w: num_workgroups
+@group(0) @binding(3) var<uniform> shape: vec4f; // x: sigmaY / sigmaX, y: rho, zw: unused
+@group(0) @binding(4) var<storage, read_write> scores: array<f32>; // expected score at every position, for finding local maxima
 
 const WORKGROUP_SIZE: u32 = 64;
 var<workgroup> shared_scores: array<f32, WORKGROUP_SIZE>;
@@ -38,6 +40,7 @@ var<workgroup> shared_positions: array<vec2f, WORKGROUP_SIZE>;
     let x = pos % width;
     let y = pos / width;
     let expected_score = computeExpectedScoreAtPosition(f32(x), f32(y), sigma, width, height);
+    scores[pos] = expected_score;
     
     if (expected_score > max_expected_score) {
       max_expected_score = expected_score;
@@ -79,7 +82,7 @@ fn computeExpectedScoreAtPosition(target_x: f32, target_y: f32, sigma: f32, widt
   // Sample the Gaussian distribution around the target position
   for (var y: u32 = 0; y < height; y = y + 1) {
     for (var x: u32 = 0; x < width; x = x + 1) {
-      let gaussian = gaussian2D(f32(x), f32(y), target_x, target_y, sigma, sigma);
+      let gaussian = gaussian2D(f32(x), f32(y), target_x, target_y, sigma, sigma * shape.x, shape.y);
       let score = f32(dartboard[y * width + x]);
       
       total_probability = total_probability + gaussian;
@@ -90,8 +93,11 @@ fn computeExpectedScoreAtPosition(target_x: f32, target_y: f32, sigma: f32, widt
   return select(total_score / total_probability, 0.0, total_probability == 0.0);
 }
 
-fn gaussian2D(x: f32, y: f32, mu_x: f32, mu_y: f32, sigma_x: f32, sigma_y: f32) -> f32 {
-  let coef: f32 = 1.0 / (2.0 * 3.14159265 * sigma_x * sigma_y);
-  let exp_part: f32 = exp(-((x - mu_x) * (x - mu_x) / (2.0 * sigma_x * sigma_x) + (y - mu_y) * (y - mu_y) / (2.0 * sigma_y * sigma_y)));
+fn gaussian2D(x: f32, y: f32, mu_x: f32, mu_y: f32, sigma_x: f32, sigma_y: f32, rho: f32) -> f32 {
+  let one_minus_rho2: f32 = 1.0 - rho * rho;
+  let dx: f32 = (x - mu_x) / sigma_x;
+  let dy: f32 = (y - mu_y) / sigma_y;
+  let coef: f32 = 1.0 / (2.0 * 3.14159265 * sigma_x * sigma_y * sqrt(one_minus_rho2));
+  let exp_part: f32 = exp(-(dx * dx - 2.0 * rho * dx * dy + dy * dy) / (2.0 * one_minus_rho2));
   return coef * exp_part;
 }
\ No newline at end of file
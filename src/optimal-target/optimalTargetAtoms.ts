@@ -1,12 +1,39 @@
 import { atom } from "jotai";
+import { getSweepCacheKey } from "../profiles/profile";
+import { profileDatabase } from "../profiles/profile-db";
+import { activeProfileIdAtom } from "../profiles/profileAtoms";
+import { dartboardAtom } from "../shared/dartboardAtom";
 import { gaussianStddevMmAtom } from "../shared/gaussianStddevAtom";
-import { OptimalTargetState, OptimalTargetStore, SigmaRange } from "./OptimalTargetStore";
+import { ISOTROPIC_THROW_SHAPE, aimBiasMmAtom, throwShapeAtom } from "../shared/throwModelAtom";
+import {
+  OptimalTargetSearchMode,
+  OptimalTargetState,
+  OptimalTargetStore,
+  SigmaRange,
+} from "./OptimalTargetStore";
 
 // Store instance atom - creates a new store instance per component
 const storeAtom = atom<OptimalTargetStore | null>(null);
 
+// Resolutions offered for the computational canvas
+export const CANVAS_SIZE_OPTIONS: { size: number; label: string }[] = [
+  { size: 100, label: "100x100 (Fast)" },
+  { size: 200, label: "200x200 (Medium)" },
+  { size: 250, label: "250x250" },
+  { size: 300, label: "300x300" },
+  { size: 500, label: "500x500 (Default)" },
+  { size: 750, label: "750x750 (High)" },
+  { size: 1000, label: "1000x1000 (Very High)" },
+];
+
 // Canvas size atom - can be updated by the component
-export const canvasSizeAtom = atom<number>(250);
+export const canvasSizeAtom = atom<number>(500);
+
+// Search mode atom - coarse-to-fine is much faster for all but the smallest spreads
+export const searchModeAtom = atom<OptimalTargetSearchMode>("hierarchical");
+
+// Whether the store found a GPU; the search mode only applies on one
+export const usesGpuAtom = atom<boolean>(true);
 
 // Base atoms for input parameters (in mm)
 export const sigmaRangeAtom = atom<SigmaRange>({
@@ -27,48 +54,63 @@ export const optimalTargetStateAtom = atom<OptimalTargetState>({
   isComputing: false,
   currentSigma: 50, // This will be in mm
   isInitialized: false,
+  throwShape: ISOTROPIC_THROW_SHAPE,
 });
 
-// Derived atom for current optimal position
+// Derived atom for current optimal position, including the bias-compensated aim point
 export const currentOptimalPositionAtom = atom((get) => {
   const state = get(optimalTargetStateAtom);
   const currentSigmaMm = get(currentSigmaMmAtom);
   const store = get(storeAtom);
-  
+
   if (!store) return null;
-  
-  return store.getOptimalTargetForSigma(state.results, currentSigmaMm);
+
+  const result = store.getOptimalTargetForSigma(state.results, currentSigmaMm);
+  return result ? store.compensateForAimBias(result, get(aimBiasMmAtom)) : null;
 });
 
-// Action to initialize the store with the current canvas size
+// Action to initialize the store with the current canvas size, board and search mode
 export const initializeStoreAtom = atom(null, async (get, set) => {
   const canvasSize = get(canvasSizeAtom);
+  const dartboard = get(dartboardAtom);
+  const searchMode = get(searchModeAtom);
   let store = get(storeAtom);
-  
-  // Check if we need to create a new store (either doesn't exist or canvas size changed)
-  if (!store || store.getCanvasSize() !== canvasSize) {
-    console.log("Creating new store", { 
-      hasStore: !!store, 
-      oldCanvasSize: store?.getCanvasSize(), 
-      newCanvasSize: canvasSize 
+
+  // Check if we need to create a new store (doesn't exist, its device was lost, or canvas size,
+  // board or mode changed)
+  if (
+    !store ||
+    store.hasLostDevice() ||
+    store.getCanvasSize() !== canvasSize ||
+    store.getDartboard() !== dartboard ||
+    store.getSearchMode() !== searchMode
+  ) {
+    console.log("Creating new store", {
+      hasStore: !!store,
+      oldCanvasSize: store?.getCanvasSize(),
+      newCanvasSize: canvasSize,
+      dartboard: dartboard.id,
+      searchMode,
     });
-    
+
     // Clean up old store if it exists
     if (store) {
       set(storeAtom, null);
     }
-    
+
     // Create new store with current canvas size
-    store = new OptimalTargetStore(canvasSize);
+    store = new OptimalTargetStore(canvasSize, dartboard, searchMode);
     set(storeAtom, store);
     await store.initialize();
-    
+    set(usesGpuAtom, store.usesGpu());
+
     // Reset state when creating new store
     set(optimalTargetStateAtom, {
       results: [],
       isComputing: false,
       currentSigma: get(currentSigmaMmAtom),
       isInitialized: false,
+      throwShape: get(throwShapeAtom),
     });
   } else {
     console.log("Store already exists with correct canvas size", canvasSize);
@@ -78,7 +120,7 @@ export const initializeStoreAtom = atom(null, async (get, set) => {
 // Action atoms for triggering computations
 export const computeAllOptimalTargetsAtom = atom(null, async (get, set) => {
   const state = get(optimalTargetStateAtom);
-  
+
   // Prevent multiple simultaneous computations
   if (state.isComputing) {
     console.log("Computation already in progress, skipping");
@@ -87,35 +129,73 @@ export const computeAllOptimalTargetsAtom = atom(null, async (get, set) => {
 
   const sigmaRange = get(sigmaRangeAtom);
   const store = get(storeAtom);
-  
+
   if (!store) {
     throw new Error("Store not initialized");
   }
 
-  console.log("Starting computation with canvas size:", store.getCanvasSize());
-
+  const throwShape = get(throwShapeAtom);
   const updateState = (updates: Partial<OptimalTargetState>) => {
     set(optimalTargetStateAtom, (prev) => ({ ...prev, ...updates }));
   };
 
-  await store.computeAllOptimalTargets(sigmaRange, updateState);
+  // Each profile keeps its sweeps, so switching back to a player doesn't recompute
+  const profileId = get(activeProfileIdAtom);
+  const cacheKey = getSweepCacheKey({
+    canvasSize: store.getCanvasSize(),
+    dartboardId: store.getDartboard().id,
+    searchMode: store.getSearchMode(),
+    sigmaRange,
+    ...throwShape,
+  });
+  if (profileId) {
+    updateState({ isComputing: true });
+    const cached = await profileDatabase.getSweep(profileId, cacheKey).catch(() => undefined);
+    // The store was replaced or cleaned up while reading; its results are no longer wanted
+    if (get(storeAtom) !== store) {
+      updateState({ isComputing: false });
+      return;
+    }
+    if (cached) {
+      updateState({ results: cached, throwShape, isComputing: false, isInitialized: true });
+      return;
+    }
+  }
+
+  console.log("Starting computation with canvas size:", store.getCanvasSize());
+
+  await store.computeAllOptimalTargets(sigmaRange, updateState, throwShape);
+
+  const { results, throwShape: computedShape } = get(optimalTargetStateAtom);
+  if (profileId && get(storeAtom) === store && computedShape === throwShape && results.length > 0) {
+    profileDatabase
+      .putSweep(profileId, cacheKey, results)
+      .catch((error) => console.error("Failed to cache sweep:", error));
+  }
 });
 
 export const renderToCanvasAtom = atom(null, (get, _set, canvas: HTMLCanvasElement) => {
   const currentSigmaMm = get(currentSigmaMmAtom);
   const optimalPosition = get(currentOptimalPositionAtom);
   const showDartboardColors = get(showDartboardColorsAtom);
+  const state = get(optimalTargetStateAtom);
   const store = get(storeAtom);
-  
+
   if (!store) return;
-  
-  store.renderToCanvas(canvas, currentSigmaMm, optimalPosition, showDartboardColors);
+
+  store.renderToCanvas(
+    canvas,
+    currentSigmaMm,
+    optimalPosition,
+    showDartboardColors,
+    state.throwShape,
+  );
 });
 
 // Cleanup atom to be called on unmount
 export const cleanupStoreAtom = atom(null, (get, set) => {
   const store = get(storeAtom);
-  
+
   if (store) {
     // Clean up any resources if needed
     set(storeAtom, null);
@@ -124,7 +204,8 @@ export const cleanupStoreAtom = atom(null, (get, set) => {
       isComputing: false,
       currentSigma: 50,
       isInitialized: false,
+      throwShape: ISOTROPIC_THROW_SHAPE,
     });
     set(showDartboardColorsAtom, true); // Reset to default
   }
-});
\ No newline at end of file
+});
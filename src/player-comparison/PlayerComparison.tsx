@@ -0,0 +1,321 @@
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import React, { useEffect, useMemo, useRef } from "react";
+import { DivergingColorScale } from "../common/DivergingColorScale";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { ViridisColorScale } from "../common/ViridisColorScale";
+import { getDartboardImage } from "../dartboard/dartboard-colors";
+import { normaliseDartboard, pixelsToMm } from "../dartboard/dartboard-definition";
+import { getSegmentId, getSegmentInfo } from "../dartboard/dartboard-segments";
+import { AimBiasControls } from "../expected-score/AimBiasControls";
+import { GaussianDistributionControls } from "../expected-score/GaussianDistributionControls";
+import { profilesAtom } from "../profiles/profileAtoms";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { deviceGenerationAtom } from "../shared/deviceGenerationAtom";
+import { getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
+import { ThrowModel, getThrowModel, getThrowShape } from "../shared/throwModelAtom";
+import { getSharedRange, renderDifferenceMap, renderSharedBoard } from "./comparison";
+import {
+  COMPARISON_CANVAS_SIZE,
+  PLAYER_KEYS,
+  PlayerKey,
+  cleanupComparisonAtom,
+  comparisonDifferenceAtom,
+  comparisonErrorAtom,
+  comparisonMapsAtom,
+  comparisonPlayersAtom,
+  computeComparisonAtom,
+  renderComparisonHeatmapAtom,
+  swappedTargetScoresAtom,
+} from "./comparisonAtoms";
+
+// The ends of the difference map's colour scale, so each player's marks match it
+const PLAYER_COLORS: Record<PlayerKey, string> = { a: "#b2182b", b: "#2166ac" };
+
+const PLAYER_LABELS: Record<PlayerKey, string> = { a: "A", b: "B" };
+
+interface ComparisonCanvasProps {
+  title: string;
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  isComputing?: boolean;
+  children?: React.ReactNode;
+}
+
+const ComparisonCanvas: React.FC<ComparisonCanvasProps> = ({
+  title,
+  canvasRef,
+  isComputing = false,
+  children,
+}) => (
+  <div>
+    <h3 className="text-base font-semibold mb-2">{title}</h3>
+    <div className="flex items-center">
+      <div className="relative inline-block">
+        {isComputing && <LoadingSpinner />}
+        <canvas
+          ref={canvasRef}
+          width={COMPARISON_CANVAS_SIZE}
+          height={COMPARISON_CANVAS_SIZE}
+          className="block max-w-[40vw] h-auto"
+        />
+      </div>
+      {children}
+    </div>
+  </div>
+);
+
+interface PlayerControlsProps {
+  player: PlayerKey;
+  name: string;
+}
+
+const PlayerControls: React.FC<PlayerControlsProps> = ({ player, name }) => {
+  const [players, setPlayers] = useAtom(comparisonPlayersAtom);
+  const profiles = useAtomValue(profilesAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const { profileId, throwModel } = players[player];
+  const throwShape = getThrowShape(throwModel);
+  const aimBias = { x: throwModel.biasXMm, y: throwModel.biasYMm };
+
+  // Editing by hand detaches the player from the profile it was loaded from
+  const setThrowModel = (model: ThrowModel, fromProfile: string | null = null) =>
+    setPlayers((prev) => ({ ...prev, [player]: { profileId: fromProfile, throwModel: model } }));
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-base font-bold" style={{ color: PLAYER_COLORS[player] }}>
+        {PLAYER_LABELS[player]}: {name}
+      </h4>
+
+      <label htmlFor={`comparison-profile-${player}`} className="block mt-3 mb-2 text-sm">
+        Profile
+      </label>
+      <select
+        id={`comparison-profile-${player}`}
+        value={profileId ?? ""}
+        onChange={(e) => {
+          const profile = profiles.find((candidate) => candidate.id === e.target.value);
+          if (profile) setThrowModel(profile.throwModel, profile.id);
+        }}
+        className="w-full p-1.5 text-sm rounded border border-gray-300"
+      >
+        <option value="" disabled>
+          Custom
+        </option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+
+      <GaussianDistributionControls
+        gaussianStddevPixels={getGaussianStddevPixels(
+          throwModel.sigmaXMm,
+          COMPARISON_CANVAS_SIZE,
+          dartboard,
+        )}
+        onGaussianStddevPixelsChange={(pixels) =>
+          setThrowModel(
+            getThrowModel(
+              pixelsToMm(pixels, COMPARISON_CANVAS_SIZE, dartboard),
+              throwShape,
+              aimBias,
+            ),
+          )
+        }
+        canvasWidth={COMPARISON_CANVAS_SIZE}
+        dartboard={dartboard}
+        throwShape={throwShape}
+        onThrowShapeChange={(shape) =>
+          setThrowModel(getThrowModel(throwModel.sigmaXMm, shape, aimBias))
+        }
+      />
+
+      <AimBiasControls
+        aimBias={aimBias}
+        onAimBiasChange={(bias) =>
+          setThrowModel(getThrowModel(throwModel.sigmaXMm, throwShape, bias))
+        }
+      />
+    </div>
+  );
+};
+
+export const PlayerComparison: React.FC = () => {
+  const players = useAtomValue(comparisonPlayersAtom);
+  const maps = useAtomValue(comparisonMapsAtom);
+  const difference = useAtomValue(comparisonDifferenceAtom);
+  const swappedScores = useAtomValue(swappedTargetScoresAtom);
+  const error = useAtomValue(comparisonErrorAtom);
+  const profiles = useAtomValue(profilesAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const deviceGeneration = useAtomValue(deviceGenerationAtom);
+  const computeComparison = useSetAtom(computeComparisonAtom);
+  const renderHeatmap = useSetAtom(renderComparisonHeatmapAtom);
+  const cleanup = useSetAtom(cleanupComparisonAtom);
+
+  const heatmapRefs = {
+    a: useRef<HTMLCanvasElement>(null),
+    b: useRef<HTMLCanvasElement>(null),
+  };
+  const differenceRef = useRef<HTMLCanvasElement>(null);
+  const boardRef = useRef<HTMLCanvasElement>(null);
+
+  const names = useMemo(() => {
+    const nameOf = (player: PlayerKey) =>
+      profiles.find((profile) => profile.id === players[player].profileId)?.name ??
+      `Player ${PLAYER_LABELS[player]}`;
+    return { a: nameOf("a"), b: nameOf("b") };
+  }, [players, profiles]);
+
+  useEffect(() => () => void cleanup(), [cleanup]);
+
+  // Recompute shortly after either throw model or the board stops changing
+  useEffect(() => {
+    const timeout = setTimeout(() => computeComparison(), 300);
+    return () => clearTimeout(timeout);
+  }, [players, dartboard, deviceGeneration, computeComparison]);
+
+  useEffect(() => {
+    for (const player of PLAYER_KEYS) {
+      const canvas = heatmapRefs[player].current;
+      if (canvas) renderHeatmap({ player, canvas });
+    }
+    // Refs are stable; the maps are what change
+  }, [maps, renderHeatmap]);
+
+  useEffect(() => {
+    if (differenceRef.current && difference) {
+      renderDifferenceMap(differenceRef.current, difference, dartboard);
+    }
+  }, [difference, dartboard]);
+
+  // The board only changes with the selected dartboard, so draw it once per board
+  const boardImage = useMemo(
+    () => getDartboardImage(dartboard, COMPARISON_CANVAS_SIZE),
+    [dartboard],
+  );
+
+  useEffect(() => {
+    if (!boardRef.current) return;
+    const targets = PLAYER_KEYS.flatMap((player) => {
+      const aim = maps[player].highestScorePosition;
+      return aim
+        ? [
+            {
+              label: PLAYER_LABELS[player],
+              color: PLAYER_COLORS[player],
+              throwModel: players[player].throwModel,
+              aim,
+            },
+          ]
+        : [];
+    });
+    renderSharedBoard(boardRef.current, boardImage, targets, dartboard);
+  }, [maps, players, boardImage, dartboard]);
+
+  const sharedRange = getSharedRange(
+    PLAYER_KEYS.filter((player) => maps[player].resultData).map(
+      (player) => maps[player].expectedScoreRange,
+    ),
+  );
+
+  const describeTarget = (player: PlayerKey) => {
+    const aim = maps[player].highestScorePosition;
+    if (!aim) return "–";
+    return getSegmentInfo(getSegmentId(aim.x, aim.y, normaliseDartboard(dartboard)), dartboard)
+      .shortName;
+  };
+
+  return (
+    <div className="flex">
+      <div className="flex-1">
+        <p className="mb-4 text-gray-700">
+          Two players with different accuracy should aim at different places. A tight grouping
+          profits from the treble; a loose one loses too much to the numbers either side.
+        </p>
+        <p className="mb-6 text-gray-700">
+          Both expected score maps share one colour scale. The difference map is red where {names.a}{" "}
+          expects more and blue where {names.b} does, and the board shows where each should aim with
+          the 1σ ellipse of where their darts land.
+        </p>
+        {error && <p className="mb-6 text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-6 w-fit">
+          {PLAYER_KEYS.map((player) => (
+            <ComparisonCanvas
+              key={player}
+              title={`${PLAYER_LABELS[player]}: ${names[player]}`}
+              canvasRef={heatmapRefs[player]}
+              isComputing={maps[player].isComputing}
+            >
+              {player === "b" && (maps.a.resultData || maps.b.resultData) && (
+                <ViridisColorScale
+                  height={COMPARISON_CANVAS_SIZE / 2}
+                  min={sharedRange.min}
+                  max={sharedRange.max}
+                  className="ml-3 mr-12"
+                />
+              )}
+            </ComparisonCanvas>
+          ))}
+          <ComparisonCanvas title={`${names.a} minus ${names.b}`} canvasRef={differenceRef}>
+            {difference && (
+              <DivergingColorScale
+                height={COMPARISON_CANVAS_SIZE / 2}
+                maxAbs={difference.maxAbs}
+                positiveLabel={`${names.a} better`}
+                negativeLabel={`${names.b} better`}
+                className="ml-3 mr-20"
+              />
+            )}
+          </ComparisonCanvas>
+          <ComparisonCanvas title="Where to aim" canvasRef={boardRef} />
+        </div>
+
+        <div className="mt-6 border border-gray-300 rounded w-fit">
+          <table className="border-collapse text-sm">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="p-2 text-left border-b border-gray-300">Player</th>
+                <th className="p-2 text-left border-b border-gray-300">Best aim</th>
+                <th className="p-2 text-right border-b border-gray-300">Expected score</th>
+                <th className="p-2 text-right border-b border-gray-300">
+                  Aiming at the other's target
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {PLAYER_KEYS.map((player) => {
+                const best = maps[player].highestScore;
+                const swapped = swappedScores[player];
+                return (
+                  <tr key={player} className="border-b border-gray-200">
+                    <td className="px-2 py-1.5 font-bold" style={{ color: PLAYER_COLORS[player] }}>
+                      {PLAYER_LABELS[player]}: {names[player]}
+                    </td>
+                    <td className="px-2 py-1.5">{describeTarget(player)}</td>
+                    <td className="px-2 py-1.5 text-right">{best?.toFixed(2) ?? "–"}</td>
+                    <td className="px-2 py-1.5 text-right">
+                      {swapped !== null && best !== null
+                        ? `${swapped.toFixed(2)} (${(swapped - best).toFixed(2)})`
+                        : "–"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Options sidebar */}
+      <div className="sidebar-section">
+        <h3 className="text-lg font-semibold mb-4">Players</h3>
+        {PLAYER_KEYS.map((player) => (
+          <PlayerControls key={player} player={player} name={names[player]} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { getDivergingColor } from "../webgpu/diverging";
+import { getDifferenceMap, getSharedRange } from "./comparison";
+
+describe("getDifferenceMap", () => {
+  it("subtracts player B's map from player A's", () => {
+    const { values, maxAbs } = getDifferenceMap(
+      new Float32Array([10, 20, 5, 0]),
+      new Float32Array([8, 25, 5, 1]),
+    );
+    expect(Array.from(values)).toEqual([2, -5, 0, -1]);
+    expect(maxAbs).toBe(5);
+  });
+
+  it("rejects maps of different sizes", () => {
+    expect(() => getDifferenceMap(new Float32Array(4), new Float32Array(9))).toThrow(
+      "Cannot compare maps of 4 and 9 values",
+    );
+  });
+});
+
+describe("getSharedRange", () => {
+  it("covers every range", () => {
+    expect(
+      getSharedRange([
+        { min: 2, max: 40 },
+        { min: 5, max: 55 },
+      ]),
+    ).toEqual({ min: 2, max: 55 });
+  });
+});
+
+describe("getDivergingColor", () => {
+  it("is near-white at zero and red or blue at the ends", () => {
+    expect(getDivergingColor(0)).toEqual({ r: 246, g: 246, b: 246 });
+    const positive = getDivergingColor(1);
+    const negative = getDivergingColor(-1);
+    expect(positive.r).toBeGreaterThan(positive.b);
+    expect(negative.b).toBeGreaterThan(negative.r);
+    expect(getDivergingColor(5)).toEqual(positive);
+  });
+});
@@ -0,0 +1,127 @@
+import { DartboardDef, mmToPixels } from "../dartboard/dartboard-definition";
+import { drawRadialScores, drawSegmentBoundaries } from "../dartboard/dartboard-labels";
+import { ThrowModel, getCovarianceEllipse } from "../shared/throwModelAtom";
+import { getDivergingColor } from "../webgpu/diverging";
+
+/** Expected score of player A minus that of player B at every aim point */
+export interface DifferenceMap {
+  values: Float32Array;
+  /** Largest gap in either direction, for a colour scale symmetric about zero */
+  maxAbs: number;
+}
+
+/** One player's best aim point, as drawn on the shared board */
+export interface ComparedTarget {
+  label: string;
+  color: string;
+  throwModel: ThrowModel;
+  /** Best aim point in normalised coordinates (-1 to 1) */
+  aim: { x: number; y: number };
+}
+
+export function getDifferenceMap(a: Float32Array, b: Float32Array): DifferenceMap {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare maps of ${a.length} and ${b.length} values`);
+  }
+
+  const values = new Float32Array(a.length);
+  let maxAbs = 0;
+  for (let i = 0; i < a.length; i++) {
+    values[i] = a[i] - b[i];
+    maxAbs = Math.max(maxAbs, Math.abs(values[i]));
+  }
+  return { values, maxAbs };
+}
+
+/** Smallest range covering all of the given ones, so several heatmaps share one colour scale */
+export function getSharedRange(ranges: { min: number; max: number }[]): {
+  min: number;
+  max: number;
+} {
+  return {
+    min: Math.min(...ranges.map((range) => range.min)),
+    max: Math.max(...ranges.map((range) => range.max)),
+  };
+}
+
+/** Draw a difference map with red where A scores more and blue where B does */
+export function renderDifferenceMap(
+  canvas: HTMLCanvasElement,
+  difference: DifferenceMap,
+  dartboard: DartboardDef,
+): void {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const size = canvas.width;
+  const imageData = ctx.createImageData(size, size);
+  const { values, maxAbs } = difference;
+
+  for (let i = 0; i < values.length; i++) {
+    const color = getDivergingColor(maxAbs > 0 ? values[i] / maxAbs : 0);
+    imageData.data[i * 4 + 0] = color.r;
+    imageData.data[i * 4 + 1] = color.g;
+    imageData.data[i * 4 + 2] = color.b;
+    imageData.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  drawSegmentBoundaries(ctx, size / 2, size / 2, size, 0.3, dartboard);
+  drawRadialScores(ctx, size / 2, size / 2, size * 0.45, 14, "#333", dartboard);
+}
+
+/**
+ * Draw each player's best aim point on the board, with the 1σ ellipse of where their darts land
+ * around it
+ */
+export function renderSharedBoard(
+  canvas: HTMLCanvasElement,
+  boardImage: ImageData,
+  targets: ComparedTarget[],
+  dartboard: DartboardDef,
+): void {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const size = canvas.width;
+  const toDisplay = (mm: number) => mmToPixels(mm, size, dartboard);
+  ctx.putImageData(boardImage, 0, 0);
+  drawRadialScores(ctx, size / 2, size / 2, size * 0.45, 14, "#fff", dartboard);
+
+  for (const { label, color, throwModel, aim } of targets) {
+    const aimX = (aim.x + 1) * size * 0.5;
+    const aimY = (aim.y + 1) * size * 0.5;
+    const ellipse = getCovarianceEllipse(
+      toDisplay(throwModel.sigmaXMm),
+      toDisplay(throwModel.sigmaYMm),
+      throwModel.correlation,
+    );
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.ellipse(
+      aimX + toDisplay(throwModel.biasXMm),
+      aimY + toDisplay(throwModel.biasYMm),
+      ellipse.radiusX,
+      ellipse.radiusY,
+      ellipse.rotation,
+      0,
+      2 * Math.PI,
+    );
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(aimX, aimY, 9, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.strokeStyle = "white";
+    ctx.stroke();
+
+    ctx.fillStyle = "white";
+    ctx.font = "bold 11px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, aimX, aimY);
+  }
+}
@@ -0,0 +1,140 @@
+import { atom } from "jotai";
+import { ExpectedScoreState, ExpectedScoreStore } from "../expected-score/ExpectedScoreStore";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import {
+  ISOTROPIC_THROW_SHAPE,
+  ThrowModel,
+  getThrowModel,
+  getThrowModelPixels,
+} from "../shared/throwModelAtom";
+import { getDifferenceMap, getSharedRange } from "./comparison";
+
+export type PlayerKey = "a" | "b";
+
+export const PLAYER_KEYS: PlayerKey[] = ["a", "b"];
+
+export interface ComparisonPlayer {
+  /** Profile the throw model was loaded from; null once edited or when entered by hand */
+  profileId: string | null;
+  throwModel: ThrowModel;
+}
+
+// Each of the three maps is drawn at this size, so they fit side by side
+export const COMPARISON_CANVAS_SIZE = 500;
+
+// A tight and a loose grouping, the contrast coaches most often need to explain
+export const comparisonPlayersAtom = atom<Record<PlayerKey, ComparisonPlayer>>({
+  a: { profileId: null, throwModel: getThrowModel(15, ISOTROPIC_THROW_SHAPE) },
+  b: { profileId: null, throwModel: getThrowModel(40, ISOTROPIC_THROW_SHAPE) },
+});
+
+const initialMapState: ExpectedScoreState = {
+  expectedScoreRange: { min: 0, max: 0 },
+  expectedScoreAtTarget: null,
+  highestScorePosition: null,
+  highestScore: null,
+  isComputing: false,
+  resultData: null,
+  resultParams: null,
+  computationCounter: 0,
+  error: null,
+};
+
+export const comparisonMapsAtom = atom<Record<PlayerKey, ExpectedScoreState>>({
+  a: initialMapState,
+  b: initialMapState,
+});
+
+// Why the latest comparison failed, if it did
+export const comparisonErrorAtom = atom<string | null>(null);
+
+const stores: Record<PlayerKey, ExpectedScoreStore> = {
+  a: new ExpectedScoreStore(COMPARISON_CANVAS_SIZE),
+  b: new ExpectedScoreStore(COMPARISON_CANVAS_SIZE),
+};
+
+// Player A minus player B, once both maps are for the same board
+export const comparisonDifferenceAtom = atom((get) => {
+  const { a, b } = get(comparisonMapsAtom);
+  if (!a.resultData || !b.resultData || a.resultParams?.dartboard !== b.resultParams?.dartboard) {
+    return null;
+  }
+  return getDifferenceMap(a.resultData, b.resultData);
+});
+
+// Each player's expected score when aiming where the other player should
+export const swappedTargetScoresAtom = atom((get) => {
+  const maps = get(comparisonMapsAtom);
+  const scoreAtOtherTarget = (player: PlayerKey, other: PlayerKey) => {
+    const target = maps[other].highestScorePosition;
+    return target
+      ? stores[player].getExpectedScoreAtPosition(maps[player].resultData, target)
+      : null;
+  };
+  return { a: scoreAtOtherTarget("a", "b"), b: scoreAtOtherTarget("b", "a") };
+});
+
+// Maps are computed one at a time because both stores share the compute backend's buffers.
+// A request waiting on the previous run is dropped if a newer one arrives meanwhile.
+let latestRequest = 0;
+let currentRun: Promise<void> = Promise.resolve();
+
+export const computeComparisonAtom = atom(null, async (get, set) => {
+  const request = ++latestRequest;
+  await currentRun.catch(() => {});
+  if (request !== latestRequest) return;
+
+  const dartboard = get(dartboardAtom);
+  const players = get(comparisonPlayersAtom);
+  set(comparisonErrorAtom, null);
+  currentRun = (async () => {
+    for (const player of PLAYER_KEYS) {
+      const throwModel = getThrowModelPixels(
+        players[player].throwModel,
+        COMPARISON_CANVAS_SIZE,
+        dartboard,
+      );
+      await stores[player].computeExpectedScore({ ...throwModel, dartboard }, (updates) =>
+        set(comparisonMapsAtom, (prev) => ({ ...prev, [player]: { ...prev[player], ...updates } })),
+      );
+    }
+  })();
+
+  try {
+    await currentRun;
+  } catch (e) {
+    if (request === latestRequest) {
+      set(comparisonErrorAtom, e instanceof Error ? e.message : String(e));
+    }
+  }
+});
+
+// Draw a player's heatmap on the colour scale both players share
+export const renderComparisonHeatmapAtom = atom(
+  null,
+  (get, _set, { player, canvas }: { player: PlayerKey; canvas: HTMLCanvasElement }) => {
+    const maps = get(comparisonMapsAtom);
+    const state = maps[player];
+    if (!state.resultData) return;
+
+    const range = getSharedRange(
+      PLAYER_KEYS.filter((key) => maps[key].resultData).map((key) => maps[key].expectedScoreRange),
+    );
+    stores[player].renderToCanvas(
+      canvas,
+      state.resultData,
+      range,
+      state.highestScorePosition,
+      get(dartboardAtom),
+    );
+  },
+);
+
+// Drop any request still waiting, and free the stores' buffers only once the running maps finish
+export const cleanupComparisonAtom = atom(null, async () => {
+  latestRequest++;
+  await currentRun.catch(() => {});
+  for (const player of PLAYER_KEYS) {
+    stores[player].cleanup();
+  }
+});
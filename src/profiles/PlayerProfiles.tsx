@@ -0,0 +1,163 @@
+import { useAtomValue, useSetAtom } from "jotai";
+import React, { useEffect, useRef, useState } from "react";
+import { downloadFile } from "../common/download";
+import { exportProfiles } from "./profile";
+import {
+  activeProfileAtom,
+  createProfileAtom,
+  deleteProfileAtom,
+  importProfilesAtom,
+  loadProfilesAtom,
+  profilesAtom,
+  renameProfileAtom,
+  saveActiveProfileAtom,
+  selectProfileAtom,
+} from "./profileAtoms";
+
+const buttonClass =
+  "px-3 py-1 text-xs bg-gray-100 border border-gray-300 rounded hover:bg-gray-200 disabled:opacity-50";
+
+/** Pick the player being analysed, and manage the saved players */
+export const PlayerProfiles: React.FC = () => {
+  const profiles = useAtomValue(profilesAtom);
+  const activeProfile = useAtomValue(activeProfileAtom);
+  const loadProfiles = useSetAtom(loadProfilesAtom);
+  const selectProfile = useSetAtom(selectProfileAtom);
+  const createProfile = useSetAtom(createProfileAtom);
+  const renameProfile = useSetAtom(renameProfileAtom);
+  const saveActiveProfile = useSetAtom(saveActiveProfileAtom);
+  const deleteProfile = useSetAtom(deleteProfileAtom);
+  const importProfiles = useSetAtom(importProfilesAtom);
+
+  // Name being typed for a new profile, or for renaming the active one
+  const [editing, setEditing] = useState<{ mode: "create" | "rename"; name: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Surface failures (e.g. IndexedDB blocked in private browsing) rather than failing silently
+  const run = (action: () => Promise<unknown>, success?: string) => {
+    setMessage(null);
+    action()
+      .then(() => success && setMessage(success))
+      .catch((error) => setMessage(error instanceof Error ? error.message : String(error)));
+  };
+
+  useEffect(() => {
+    run(loadProfiles);
+  }, [loadProfiles]);
+
+  const handleSubmitName = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editing?.name.trim()) return;
+    const { mode, name } = editing;
+    setEditing(null);
+    if (mode === "create") {
+      run(() => createProfile(name));
+    } else if (activeProfile) {
+      run(() => renameProfile({ id: activeProfile.id, name }));
+    }
+  };
+
+  const handleDelete = () => {
+    if (activeProfile && window.confirm(`Delete the profile "${activeProfile.name}"?`)) {
+      run(() => deleteProfile(activeProfile.id));
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow importing the same file again
+    if (!file) return;
+    run(async () => {
+      const count = await importProfiles(await file.text());
+      setMessage(`Imported ${count} profile${count === 1 ? "" : "s"}`);
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-5 text-sm">
+      <label className="font-bold" htmlFor="player-profile">
+        Player
+      </label>
+      <select
+        id="player-profile"
+        value={activeProfile?.id ?? ""}
+        onChange={(e) => selectProfile(e.target.value || null)}
+        className="p-1 text-sm rounded border border-gray-300"
+      >
+        <option value="">No profile</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+
+      {editing ? (
+        <form onSubmit={handleSubmitName} className="flex gap-2">
+          <input
+            autoFocus
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder="Player name"
+            className="p-1 text-sm rounded border border-gray-300"
+          />
+          <button type="submit" className={buttonClass} disabled={!editing.name.trim()}>
+            {editing.mode === "create" ? "Create" : "Rename"}
+          </button>
+          <button type="button" className={buttonClass} onClick={() => setEditing(null)}>
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <>
+          <button className={buttonClass} onClick={() => setEditing({ mode: "create", name: "" })}>
+            New
+          </button>
+          <button
+            className={buttonClass}
+            disabled={!activeProfile}
+            onClick={() =>
+              activeProfile && setEditing({ mode: "rename", name: activeProfile.name })
+            }
+          >
+            Rename
+          </button>
+          <button
+            className={buttonClass}
+            disabled={!activeProfile}
+            onClick={() => run(saveActiveProfile, "Saved the current throw model")}
+            title="Store the current spread, shape and bias in this profile"
+          >
+            Save throw
+          </button>
+          <button className={buttonClass} disabled={!activeProfile} onClick={handleDelete}>
+            Delete
+          </button>
+        </>
+      )}
+
+      <button
+        className={buttonClass}
+        disabled={profiles.length === 0}
+        onClick={() =>
+          downloadFile("player-profiles.json", "application/json", exportProfiles(profiles))
+        }
+      >
+        Export
+      </button>
+      <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>
+        Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+
+      {message && <span className="text-gray-600">{message}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import type { OptimalTargetResult } from "../optimal-target/OptimalTargetStore";
+import type { PlayerProfile } from "./profile";
+
+const DATABASE_NAME = "where-should-i-aim";
+const DATABASE_VERSION = 1;
+const PROFILES_STORE = "profiles";
+const SWEEPS_STORE = "sweeps";
+
+/** A Skill Explorer sweep computed for one profile */
+interface CachedSweep {
+  profileId: string;
+  key: string; // See getSweepCacheKey
+  results: OptimalTargetResult[];
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Player profiles and their cached sweeps, kept in IndexedDB so they survive reloads. The
+ * database is opened on first use.
+ */
+export class ProfileDatabase {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param getFactory - Where to find IndexedDB; the browser's own outside of tests
+   */
+  constructor(private readonly getFactory: () => IDBFactory = () => indexedDB) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.getFactory().open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        database.createObjectStore(PROFILES_STORE, { keyPath: "id" });
+        // Keyed by profile first so a profile's sweeps can be deleted as one range
+        database.createObjectStore(SWEEPS_STORE, { keyPath: ["profileId", "key"] });
+      };
+      this.database = promisify(request).catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  /** All profiles, sorted by name */
+  async listProfiles(): Promise<PlayerProfile[]> {
+    const database = await this.open();
+    const store = database.transaction(PROFILES_STORE).objectStore(PROFILES_STORE);
+    const profiles: PlayerProfile[] = await promisify(store.getAll());
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** Add a profile, or replace the one with the same id */
+  async putProfile(profile: PlayerProfile): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(PROFILES_STORE, "readwrite");
+    transaction.objectStore(PROFILES_STORE).put(profile);
+    await transactionDone(transaction);
+  }
+
+  /** Remove a profile together with its cached sweeps */
+  async deleteProfile(id: string): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([PROFILES_STORE, SWEEPS_STORE], "readwrite");
+    transaction.objectStore(PROFILES_STORE).delete(id);
+    transaction.objectStore(SWEEPS_STORE).delete(IDBKeyRange.bound([id], [id, []]));
+    await transactionDone(transaction);
+  }
+
+  async getSweep(profileId: string, key: string): Promise<OptimalTargetResult[] | undefined> {
+    const database = await this.open();
+    const store = database.transaction(SWEEPS_STORE).objectStore(SWEEPS_STORE);
+    const sweep: CachedSweep | undefined = await promisify(store.get([profileId, key]));
+    return sweep?.results;
+  }
+
+  async putSweep(profileId: string, key: string, results: OptimalTargetResult[]): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(SWEEPS_STORE, "readwrite");
+    transaction.objectStore(SWEEPS_STORE).put({ profileId, key, results } satisfies CachedSweep);
+    await transactionDone(transaction);
+  }
+}
+
+export const profileDatabase = new ProfileDatabase();
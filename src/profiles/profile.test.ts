@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  PlayerProfile,
+  SweepCacheParams,
+  exportProfiles,
+  getSweepCacheKey,
+  parseProfiles,
+} from "./profile";
+
+const profile: PlayerProfile = {
+  id: "a1",
+  name: "Alice",
+  throwModel: { sigmaXMm: 20, sigmaYMm: 30, correlation: 0.2, biasXMm: -3, biasYMm: 5 },
+  createdAt: 1000,
+  updatedAt: 2000,
+};
+
+const document = (profiles: unknown[]) => JSON.stringify({ version: 1, profiles });
+
+describe("player profiles", () => {
+  it("round-trip through an exported file", () => {
+    expect(parseProfiles(exportProfiles([profile]))).toEqual([profile]);
+  });
+
+  it("reject files that aren't profiles", () => {
+    expect(() => parseProfiles("{")).toThrow("not valid JSON");
+    expect(() => parseProfiles("null")).toThrow("Not a player profiles file");
+    expect(() => parseProfiles(JSON.stringify({ version: 2, profiles: [] }))).toThrow(
+      "Not a player profiles file",
+    );
+  });
+
+  it("reject profiles without a name or with an invalid throw model", () => {
+    expect(() => parseProfiles(document([{ ...profile, name: "  " }]))).toThrow(
+      "needs an id and a name",
+    );
+    expect(() =>
+      parseProfiles(
+        document([{ ...profile, throwModel: { ...profile.throwModel, biasXMm: "1" } }]),
+      ),
+    ).toThrow('Profile "Alice" has an invalid biasXMm');
+    expect(() =>
+      parseProfiles(document([{ ...profile, throwModel: { ...profile.throwModel, sigmaYMm: 0 } }])),
+    ).toThrow("positive standard deviations");
+  });
+
+  it("fill in missing timestamps and clamp the correlation", () => {
+    const { createdAt: _createdAt, updatedAt: _updatedAt, ...rest } = profile;
+    const [parsed] = parseProfiles(
+      document([{ ...rest, throwModel: { ...profile.throwModel, correlation: 2 } }]),
+    );
+    expect(parsed.createdAt).toBeGreaterThan(0);
+    expect(parsed.updatedAt).toBe(parsed.createdAt);
+    expect(parsed.throwModel.correlation).toBeLessThan(1);
+  });
+});
+
+describe("getSweepCacheKey", () => {
+  const params: SweepCacheParams = {
+    canvasSize: 100,
+    dartboardId: "standard",
+    searchMode: "exhaustive",
+    sigmaRange: { min: 1, max: 100, step: 5 },
+    aspectRatio: 1,
+    correlation: 0,
+  };
+
+  it("changes with every parameter", () => {
+    const key = getSweepCacheKey(params);
+    expect(getSweepCacheKey({ ...params })).toBe(key);
+    expect(getSweepCacheKey({ ...params, canvasSize: 200 })).not.toBe(key);
+    expect(getSweepCacheKey({ ...params, sigmaRange: { min: 1, max: 100, step: 1 } })).not.toBe(
+      key,
+    );
+    expect(getSweepCacheKey({ ...params, correlation: 0.5 })).not.toBe(key);
+  });
+});
@@ -0,0 +1,97 @@
+import type { OptimalTargetSearchMode, SigmaRange } from "../optimal-target/OptimalTargetStore";
+import { ThrowModel, clampCorrelation } from "../shared/throwModelAtom";
+
+/** A player being analysed, with the throw model that describes their accuracy */
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  throwModel: ThrowModel;
+  createdAt: number; // Milliseconds since the epoch
+  updatedAt: number;
+}
+
+/** Everything a Skill Explorer sweep depends on besides the throw's aim bias */
+export interface SweepCacheParams {
+  canvasSize: number;
+  dartboardId: string;
+  searchMode: OptimalTargetSearchMode;
+  sigmaRange: SigmaRange;
+  aspectRatio: number;
+  correlation: number;
+}
+
+/** Identifies a cached sweep among a profile's others */
+export function getSweepCacheKey(params: SweepCacheParams): string {
+  const { canvasSize, dartboardId, searchMode, sigmaRange, aspectRatio, correlation } = params;
+  return [
+    canvasSize,
+    dartboardId,
+    searchMode,
+    sigmaRange.min,
+    sigmaRange.max,
+    sigmaRange.step,
+    aspectRatio,
+    correlation,
+  ].join("|");
+}
+
+const EXPORT_VERSION = 1;
+
+/** Profiles as a JSON document for backing up or moving to another browser */
+export function exportProfiles(profiles: PlayerProfile[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+}
+
+function parseThrowModel(value: unknown, name: string): ThrowModel {
+  const model = (value ?? {}) as Record<string, unknown>;
+  const number = (key: keyof ThrowModel) => {
+    const field = model[key];
+    if (typeof field !== "number" || !Number.isFinite(field)) {
+      throw new Error(`Profile "${name}" has an invalid ${key}`);
+    }
+    return field;
+  };
+  const throwModel = {
+    sigmaXMm: number("sigmaXMm"),
+    sigmaYMm: number("sigmaYMm"),
+    correlation: clampCorrelation(number("correlation")),
+    biasXMm: number("biasXMm"),
+    biasYMm: number("biasYMm"),
+  };
+  if (throwModel.sigmaXMm <= 0 || throwModel.sigmaYMm <= 0) {
+    throw new Error(`Profile "${name}" must have positive standard deviations`);
+  }
+  return throwModel;
+}
+
+/**
+ * Read profiles written by exportProfiles, throwing an error that says what is wrong if the
+ * document isn't one.
+ */
+export function parseProfiles(json: string): PlayerProfile[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error("Profiles file is not valid JSON");
+  }
+
+  const { version, profiles } = (document ?? {}) as { version?: unknown; profiles?: unknown };
+  if (version !== EXPORT_VERSION || !Array.isArray(profiles)) {
+    throw new Error("Not a player profiles file");
+  }
+
+  const now = Date.now();
+  return profiles.map((entry: Record<string, unknown>) => {
+    if (typeof entry?.id !== "string" || typeof entry.name !== "string" || !entry.name.trim()) {
+      throw new Error("Every profile needs an id and a name");
+    }
+    return {
+      id: entry.id,
+      name: entry.name.trim(),
+      throwModel: parseThrowModel(entry.throwModel, entry.name),
+      createdAt: typeof entry.createdAt === "number" ? entry.createdAt : now,
+      updatedAt: typeof entry.updatedAt === "number" ? entry.updatedAt : now,
+    };
+  });
+}
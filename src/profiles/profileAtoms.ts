@@ -0,0 +1,82 @@
+import { atom } from "jotai";
+import { throwModelAtom } from "../shared/throwModelAtom";
+import { PlayerProfile, parseProfiles } from "./profile";
+import { profileDatabase } from "./profile-db";
+
+// Every saved profile, sorted by name; loaded from IndexedDB by loadProfilesAtom
+export const profilesAtom = atom<PlayerProfile[]>([]);
+
+// Profile whose throw model was last loaded into the shared atoms, if any
+export const activeProfileIdAtom = atom<string | null>(null);
+
+export const activeProfileAtom = atom(
+  (get) => get(profilesAtom).find((profile) => profile.id === get(activeProfileIdAtom)) ?? null,
+);
+
+export const loadProfilesAtom = atom(null, async (_get, set) => {
+  set(profilesAtom, await profileDatabase.listProfiles());
+});
+
+// Load a profile's throw model into the shared atoms, or stop using profiles with null
+export const selectProfileAtom = atom(null, (get, set, id: string | null) => {
+  const profile = get(profilesAtom).find((candidate) => candidate.id === id);
+  set(activeProfileIdAtom, profile?.id ?? null);
+  if (profile) {
+    set(throwModelAtom, profile.throwModel);
+  }
+});
+
+// Save the current throw model as a new profile and make it the active one
+export const createProfileAtom = atom(null, async (get, set, name: string) => {
+  const now = Date.now();
+  const profile: PlayerProfile = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    throwModel: get(throwModelAtom),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await profileDatabase.putProfile(profile);
+  await set(loadProfilesAtom);
+  set(activeProfileIdAtom, profile.id);
+});
+
+export const renameProfileAtom = atom(
+  null,
+  async (get, set, { id, name }: { id: string; name: string }) => {
+    const profile = get(profilesAtom).find((candidate) => candidate.id === id);
+    if (!profile) return;
+    await profileDatabase.putProfile({ ...profile, name: name.trim(), updatedAt: Date.now() });
+    await set(loadProfilesAtom);
+  },
+);
+
+// Overwrite the active profile's throw model with the current one
+export const saveActiveProfileAtom = atom(null, async (get, set) => {
+  const profile = get(activeProfileAtom);
+  if (!profile) return;
+  await profileDatabase.putProfile({
+    ...profile,
+    throwModel: get(throwModelAtom),
+    updatedAt: Date.now(),
+  });
+  await set(loadProfilesAtom);
+});
+
+export const deleteProfileAtom = atom(null, async (get, set, id: string) => {
+  await profileDatabase.deleteProfile(id);
+  if (get(activeProfileIdAtom) === id) {
+    set(activeProfileIdAtom, null);
+  }
+  await set(loadProfilesAtom);
+});
+
+// Add the profiles from an exported file, replacing any with the same id
+export const importProfilesAtom = atom(null, async (_get, set, json: string) => {
+  const profiles = parseProfiles(json);
+  for (const profile of profiles) {
+    await profileDatabase.putProfile(profile);
+  }
+  await set(loadProfilesAtom);
+  return profiles.length;
+});
@@ -1,18 +1,27 @@
-import { useAtom } from "jotai";
-import React, { useCallback, useEffect, useState } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { CanvasVisualization } from "../common/CanvasVisualization";
+import { getComputeBackend } from "../compute/compute-backend";
 import { getDartboardColor } from "../dartboard/dartboard-colors";
 import { makeDartboard, pixelsToMm } from "../dartboard/dartboard-definition";
 import { drawRadialScores } from "../dartboard/dartboard-labels";
+import { getAllSegments } from "../dartboard/dartboard-segments";
+import { AimBiasControls } from "../expected-score/AimBiasControls";
 import { GaussianDistributionControls } from "../expected-score/GaussianDistributionControls";
 import { TargetIndicator } from "../expected-score/TargetIndicator";
 import { TargetPositionDisplay } from "../expected-score/TargetPositionDisplay";
-import { runSegmentProbabilitiesShader } from "../hit-distribution/segment-probabilities";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { deviceGenerationAtom } from "../shared/deviceGenerationAtom";
 import { gaussianStddevMmAtom, getGaussianStddevPixels } from "../shared/gaussianStddevAtom";
 import { targetPositionAtom } from "../shared/targetPositionAtom";
-import { getDevice, width } from "../webgpu/util";
+import {
+  aimBiasMmAtom,
+  getThrowModelPixels,
+  throwModelAtom,
+  throwShapeAtom,
+} from "../shared/throwModelAtom";
+import { width } from "../webgpu/util";
 import { getViridisColor } from "../webgpu/viridis";
-import weightedGrid from "./weighted-grid.wgsl?raw";
 
 interface ScoreDistributionProps {}
 
@@ -30,190 +39,58 @@ export const ScoreDistribution: React.FC<ScoreDistributionProps> = () => {
   const [showDartboardColors, setShowDartboardColors] = useState(false);
   const [targetPosition, setTargetPosition] = useAtom(targetPositionAtom);
   const [gaussianStddevMm, setGaussianStddevMm] = useAtom(gaussianStddevMmAtom);
+  const [throwShape, setThrowShape] = useAtom(throwShapeAtom);
+  const [aimBias, setAimBias] = useAtom(aimBiasMmAtom);
+  const throwModel = useAtomValue(throwModelAtom);
+  const dartboard = useAtomValue(dartboardAtom);
+  const deviceGeneration = useAtomValue(deviceGenerationAtom);
 
   // Convert mm to pixels for calculations
-  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, width);
+  const gaussianStddevPixels = getGaussianStddevPixels(gaussianStddevMm, width, dartboard);
+  const throwModelPixels = useMemo(
+    () => getThrowModelPixels(throwModel, width, dartboard),
+    [throwModel, dartboard],
+  );
 
   const runScoreDistribution = useCallback(
     async (canvas: HTMLCanvasElement) => {
-      const device = await getDevice();
-      if (!device) {
-        console.error("Cannot continue without a device");
-        return;
-      }
-
-      // First run segment probabilities to get the table data
-      const { segmentSums: segmentResults } = await runSegmentProbabilitiesShader(device, {
+      const backend = await getComputeBackend();
+      const { hitData, segmentSums: segmentResults } = await backend.hitDistribution({
         width,
         height: width,
         targetX: targetPosition.x,
         targetY: targetPosition.y,
-        sigmaX: gaussianStddevPixels,
-        sigmaY: gaussianStddevPixels,
+        sigmaX: throwModelPixels.sigmaX,
+        sigmaY: throwModelPixels.sigmaY,
+        rho: throwModelPixels.rho,
+        biasX: throwModelPixels.biasX,
+        biasY: throwModelPixels.biasY,
+        dartboard,
       });
 
       // Process segment results and create probability table
-      const radialScores = [6, 13, 4, 18, 1, 20, 5, 12, 9, 14, 11, 8, 16, 7, 19, 3, 17, 2, 15, 10];
       const probabilities: SegmentProbability[] = [];
 
       // Calculate total probability for normalization
       const totalProbability = segmentResults.reduce((sum, val) => sum + val, 0);
 
-      // Singles (0-19)
-      for (let i = 0; i < 20; i++) {
-        if (segmentResults[i] > 0) {
+      for (const segment of getAllSegments(dartboard)) {
+        if (segmentResults[segment.id] > 0) {
           probabilities.push({
-            segment: `${radialScores[i]} (Single)`,
-            score: radialScores[i],
-            probability: segmentResults[i] / totalProbability,
+            segment: segment.label,
+            score: segment.score,
+            probability: segmentResults[segment.id] / totalProbability,
           });
         }
       }
 
-      // Triples (20-39)
-      for (let i = 20; i < 40; i++) {
-        if (segmentResults[i] > 0) {
-          const scoreIndex = i - 20;
-          probabilities.push({
-            segment: `T${radialScores[scoreIndex]} (Triple)`,
-            score: radialScores[scoreIndex] * 3,
-            probability: segmentResults[i] / totalProbability,
-          });
-        }
-      }
-
-      // Doubles (40-59)
-      for (let i = 40; i < 60; i++) {
-        if (segmentResults[i] > 0) {
-          const scoreIndex = i - 40;
-          probabilities.push({
-            segment: `D${radialScores[scoreIndex]} (Double)`,
-            score: radialScores[scoreIndex] * 2,
-            probability: segmentResults[i] / totalProbability,
-          });
-        }
-      }
-
-      // Outer Bull (60)
-      if (segmentResults[60] > 0) {
-        probabilities.push({
-          segment: "Outer Bull",
-          score: 25,
-          probability: segmentResults[60] / totalProbability,
-        });
-      }
-
-      // Bull (61)
-      if (segmentResults[61] > 0) {
-        probabilities.push({
-          segment: "Bull",
-          score: 50,
-          probability: segmentResults[61] / totalProbability,
-        });
-      }
-
-      // Miss (62)
-      if (segmentResults[62] > 0) {
-        probabilities.push({
-          segment: "Miss",
-          score: 0,
-          probability: segmentResults[62] / totalProbability,
-        });
-      }
-
       // Sort by probability (highest first)
       probabilities.sort((a, b) => b.probability - a.probability);
       setSegmentProbabilities(probabilities);
 
-      // Now run the main score distribution visualization
-      const module = device.createShaderModule({
-        label: "score distribution module",
-        code: weightedGrid,
-      });
-
-      const pipeline = device.createComputePipeline({
-        label: "score distribution pipeline",
-        layout: "auto",
-        compute: {
-          module,
-          entryPoint: "computeSomething",
-        },
-      });
-
-      const input = new Float32Array(width * width);
-
-      const workBuffer = device.createBuffer({
-        label: "work buffer",
-        size: input.byteLength,
-        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
-      });
-      device.queue.writeBuffer(workBuffer, 0, input);
-
-      const resultBuffer = device.createBuffer({
-        label: "result buffer",
-        size: input.byteLength,
-        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
-      });
-
-      // Always compute score-weighted distribution
-      const uniformData = new Uint32Array([width, width, 1, 0]);
-      const uniformBuffer = device.createBuffer({
-        size: uniformData.byteLength,
-        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      });
-      device.queue.writeBuffer(uniformBuffer, 0, uniformData);
-
-      const dartboardScore = makeDartboard(width);
-      const dartboardBuffer = device.createBuffer({
-        label: "dartboard buffer",
-        size: dartboardScore.byteLength,
-        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-      });
-      device.queue.writeBuffer(dartboardBuffer, 0, dartboardScore.buffer);
-
-      // Target position and stddev buffer (ensure minimum 16 bytes for WebGPU uniform buffer alignment)
-      const targetData = new Float32Array([
-        targetPosition.x,
-        targetPosition.y,
-        gaussianStddevPixels,
-        gaussianStddevPixels,
-      ]);
-      const targetBuffer = device.createBuffer({
-        size: Math.max(targetData.byteLength, 16),
-        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      });
-      device.queue.writeBuffer(targetBuffer, 0, targetData);
-
-      const bindGroup = device.createBindGroup({
-        label: "bindGroup for work buffer",
-        layout: pipeline.getBindGroupLayout(0),
-        entries: [
-          { binding: 0, resource: { buffer: workBuffer } },
-          { binding: 1, resource: { buffer: uniformBuffer } },
-          { binding: 2, resource: { buffer: dartboardBuffer } },
-          { binding: 3, resource: { buffer: targetBuffer } },
-        ],
-      });
-
-      const encoder = device.createCommandEncoder({
-        label: "score distribution encoder",
-      });
-      const pass = encoder.beginComputePass({
-        label: "score distribution compute pass",
-      });
-      pass.setPipeline(pipeline);
-      pass.setBindGroup(0, bindGroup);
-      pass.dispatchWorkgroups(width, width);
-      pass.end();
-
-      encoder.copyBufferToBuffer(workBuffer, 0, resultBuffer, 0, resultBuffer.size);
-
-      const commandBuffer = encoder.finish();
-      device.queue.submit([commandBuffer]);
-
-      await resultBuffer.mapAsync(GPUMapMode.READ);
-      const result = new Float32Array(resultBuffer.getMappedRange().slice(0));
-      resultBuffer.unmap();
+      // Weight the hit density by the score at each pixel
+      const dartboardScore = makeDartboard(width, dartboard);
+      const result = hitData.map((density, i) => density * dartboardScore[i]);
 
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
@@ -232,7 +109,7 @@ export const ScoreDistribution: React.FC<ScoreDistributionProps> = () => {
           const normY = (y / width) * 2 - 1;
 
           // Get dartboard color at this position
-          const color = getDartboardColor(normX, normY);
+          const color = getDartboardColor(normX, normY, dartboard);
 
           // Apply intensity based on the computed value
           const intensity = max > 0 ? result[i] / max : 0;
@@ -261,9 +138,9 @@ export const ScoreDistribution: React.FC<ScoreDistributionProps> = () => {
       const centerX = width / 2;
       const centerY = width / 2;
       const labelRadius = width * 0.45; // Place labels outside the dartboard
-      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff");
+      drawRadialScores(ctx, centerX, centerY, labelRadius, 14, "#fff", dartboard);
     },
-    [showDartboardColors, targetPosition, gaussianStddevPixels],
+    [showDartboardColors, targetPosition, throwModelPixels, dartboard],
   );
 
   useEffect(() => {
@@ -275,7 +152,14 @@ export const ScoreDistribution: React.FC<ScoreDistributionProps> = () => {
     if (!isDragging) {
       setCanvasKey((prev) => prev + 1);
     }
-  }, [showDartboardColors, targetPosition, gaussianStddevPixels, isDragging]);
+  }, [
+    showDartboardColors,
+    targetPosition,
+    throwModelPixels,
+    dartboard,
+    deviceGeneration,
+    isDragging,
+  ]);
 
   return (
     <div className="flex gap-2.5">
@@ -377,12 +261,20 @@ export const ScoreDistribution: React.FC<ScoreDistributionProps> = () => {
 
         <GaussianDistributionControls
           gaussianStddevPixels={gaussianStddevPixels}
-          onGaussianStddevPixelsChange={(pixels) => setGaussianStddevMm(pixelsToMm(pixels, width))}
+          onGaussianStddevPixelsChange={(pixels) =>
+            setGaussianStddevMm(pixelsToMm(pixels, width, dartboard))
+          }
+          throwShape={throwShape}
+          onThrowShapeChange={setThrowShape}
+          dartboard={dartboard}
         />
 
+        <AimBiasControls aimBias={aimBias} onAimBiasChange={setAimBias} />
+
         <TargetPositionDisplay
           targetPosition={targetPosition}
           onTargetPositionChange={setTargetPosition}
+          dartboard={dartboard}
         />
       </div>
     </div>
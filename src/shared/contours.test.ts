@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  getContourLevels,
+  getContourLines,
+  getProbabilityLevels,
+  joinSegments,
+  traceContour,
+} from "./contours";
+
+function grid(width: number, height: number, f: (x: number, y: number) => number): Float32Array {
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      values[y * width + x] = f(x, y);
+    }
+  }
+  return values;
+}
+
+describe("traceContour", () => {
+  it("interpolates a straight line through a ramp", () => {
+    const segments = traceContour(
+      grid(5, 3, (x) => x),
+      5,
+      3,
+      2.5,
+    );
+    expect(segments).toHaveLength(2);
+    for (const { x1, y1, x2, y2 } of segments) {
+      expect(x1).toBeCloseTo(2.5);
+      expect(x2).toBeCloseTo(2.5);
+      expect(Math.abs(y2 - y1)).toBe(1);
+    }
+  });
+
+  it("traces a closed ring around a peak", () => {
+    const size = 41;
+    const radius = 12;
+    const centre = (size - 1) / 2;
+    const segments = traceContour(
+      grid(size, size, (x, y) => -Math.hypot(x - centre, y - centre)),
+      size,
+      size,
+      -radius,
+    );
+
+    for (const { x1, y1, x2, y2 } of segments) {
+      expect(Math.hypot(x1 - centre, y1 - centre)).toBeCloseTo(radius, 0);
+      expect(Math.hypot(x2 - centre, y2 - centre)).toBeCloseTo(radius, 0);
+    }
+    const length = segments.reduce((sum, s) => sum + Math.hypot(s.x2 - s.x1, s.y2 - s.y1), 0);
+    expect(length).toBeCloseTo(2 * Math.PI * radius, -1);
+  });
+
+  it("joins a saddle's high corners when its centre is above the level", () => {
+    const segments = traceContour([1, 0, 0, 1], 2, 2, 0.4);
+    expect(segments).toEqual([
+      { x1: expect.closeTo(0.6), y1: 0, x2: 1, y2: expect.closeTo(0.4) },
+      { x1: 0, y1: expect.closeTo(0.6), x2: expect.closeTo(0.4), y2: 1 },
+    ]);
+  });
+
+  it("separates a saddle's high corners when its centre is below the level", () => {
+    const segments = traceContour([1, 0, 0, 1], 2, 2, 0.6);
+    expect(segments).toEqual([
+      { x1: 0, y1: expect.closeTo(0.4), x2: expect.closeTo(0.4), y2: 0 },
+      { x1: expect.closeTo(0.6), y1: 1, x2: 1, y2: expect.closeTo(0.6) },
+    ]);
+  });
+
+  it("skips cells with missing values", () => {
+    expect(traceContour([0, 1, NaN, 1], 2, 2, 0.5)).toEqual([]);
+  });
+
+  it("rejects values that don't fill the grid", () => {
+    expect(() => traceContour([0, 1, 2], 2, 2, 0.5)).toThrow("Expected 4 values");
+  });
+});
+
+describe("joinSegments", () => {
+  it("joins a ring into one closed line", () => {
+    const size = 21;
+    const centre = (size - 1) / 2;
+    const values = grid(size, size, (x, y) => -Math.hypot(x - centre, y - centre));
+    const lines = joinSegments(traceContour(values, size, size, -6));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].closed).toBe(true);
+    expect(lines[0].points[0]).toEqual(lines[0].points[lines[0].points.length - 1]);
+  });
+
+  it("leaves a line that runs off the grid open, in order from end to end", () => {
+    const lines = joinSegments(
+      traceContour(
+        grid(5, 4, (x) => x),
+        5,
+        4,
+        1.5,
+      ),
+    );
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].closed).toBe(false);
+    expect(lines[0].points.map(({ y }) => y).sort()).toEqual([0, 1, 2, 3]);
+    const ys = lines[0].points.map(({ y }) => y);
+    expect(Math.abs(ys[ys.length - 1] - ys[0])).toBe(3);
+  });
+});
+
+describe("getContourLines", () => {
+  it("traces each level of a grid once", () => {
+    const values = grid(5, 4, (x) => x);
+    const lines = getContourLines(values, 5, 4, 1.5);
+
+    expect(lines).toEqual(joinSegments(traceContour(values, 5, 4, 1.5)));
+    expect(getContourLines(values, 5, 4, 1.5)).toBe(lines);
+    expect(getContourLines(values, 5, 4, 2.5)).not.toBe(lines);
+    expect(
+      getContourLines(
+        grid(5, 4, (x) => x),
+        5,
+        4,
+        1.5,
+      ),
+    ).not.toBe(lines);
+  });
+});
+
+describe("getContourLevels", () => {
+  it("lists the multiples of the step inside the range", () => {
+    expect(getContourLevels(1.3, 9, 2)).toEqual([2, 4, 6, 8]);
+    expect(getContourLevels(2, 6, 2)).toEqual([4]);
+  });
+
+  it("rejects a step that isn't positive", () => {
+    expect(() => getContourLevels(0, 10, 0)).toThrow("Contour step must be positive");
+  });
+});
+
+describe("getProbabilityLevels", () => {
+  it("finds the densest values holding each fraction", () => {
+    expect(getProbabilityLevels([1, 4, 2, 3], [0.5, 0.9])).toEqual([3, 2]);
+  });
+
+  it("matches the probability ellipse of a Gaussian", () => {
+    const size = 101;
+    const sigma = 10;
+    const centre = (size - 1) / 2;
+    const density = grid(size, size, (x, y) =>
+      Math.exp(-((x - centre) ** 2 + (y - centre) ** 2) / (2 * sigma ** 2)),
+    );
+    // Half the mass lies within r = σ√(2 ln 2), where the density has fallen to half its peak
+    const [half] = getProbabilityLevels(density, [0.5]);
+    expect(half).toBeCloseTo(0.5, 1);
+  });
+});
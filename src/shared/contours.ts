@@ -0,0 +1,313 @@
+/** A piece of a contour line between two points, in grid coordinates */
+export interface ContourSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Cell edges, named by side: the top edge joins the top-left and top-right grid points
+type Edge = "top" | "right" | "bottom" | "left";
+
+/**
+ * Edges each marching squares case joins, indexed by which corners are at or above the level:
+ * 8 for top-left, 4 for top-right, 2 for bottom-right and 1 for bottom-left. The saddles (5 and
+ * 10) are listed as if the centre is below the level and flipped when it isn't.
+ */
+const CASES: [Edge, Edge][][] = [
+  [],
+  [["left", "bottom"]],
+  [["bottom", "right"]],
+  [["left", "right"]],
+  [["top", "right"]],
+  [
+    ["top", "right"],
+    ["left", "bottom"],
+  ],
+  [["top", "bottom"]],
+  [["left", "top"]],
+  [["left", "top"]],
+  [["top", "bottom"]],
+  [
+    ["left", "top"],
+    ["bottom", "right"],
+  ],
+  [["top", "right"]],
+  [["left", "right"]],
+  [["bottom", "right"]],
+  [["left", "bottom"]],
+  [],
+];
+
+/**
+ * Trace where a grid of values crosses a level with marching squares. Grid point (x, y) holds
+ * values[y * width + x]; crossings are interpolated linearly along each cell edge, and cells with
+ * a non-finite corner are skipped.
+ */
+export function traceContour(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  level: number,
+): ContourSegment[] {
+  if (values.length !== width * height) {
+    throw new Error(`Expected ${width * height} values for a ${width}×${height} grid`);
+  }
+
+  const segments: ContourSegment[] = [];
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const topLeft = values[y * width + x];
+      const topRight = values[y * width + x + 1];
+      const bottomRight = values[(y + 1) * width + x + 1];
+      const bottomLeft = values[(y + 1) * width + x];
+      if (
+        !Number.isFinite(topLeft) ||
+        !Number.isFinite(topRight) ||
+        !Number.isFinite(bottomRight) ||
+        !Number.isFinite(bottomLeft)
+      ) {
+        continue;
+      }
+
+      const index =
+        (topLeft >= level ? 8 : 0) |
+        (topRight >= level ? 4 : 0) |
+        (bottomRight >= level ? 2 : 0) |
+        (bottomLeft >= level ? 1 : 0);
+      if (index === 0 || index === 15) continue;
+
+      // Fraction of the way from a to b where the level is crossed
+      const crossing = (a: number, b: number) => (level - a) / (b - a);
+      const point = (edge: Edge): [number, number] => {
+        switch (edge) {
+          case "top":
+            return [x + crossing(topLeft, topRight), y];
+          case "right":
+            return [x + 1, y + crossing(topRight, bottomRight)];
+          case "bottom":
+            return [x + crossing(bottomLeft, bottomRight), y + 1];
+          case "left":
+            return [x, y + crossing(topLeft, bottomLeft)];
+        }
+      };
+
+      let edges = CASES[index];
+      if (index === 5 || index === 10) {
+        const centre = (topLeft + topRight + bottomRight + bottomLeft) / 4;
+        if (centre >= level) edges = CASES[15 - index];
+      }
+
+      for (const [from, to] of edges) {
+        const [x1, y1] = point(from);
+        const [x2, y2] = point(to);
+        // A corner exactly at the level puts both ends on it; the neighbours carry the line
+        if (x1 !== x2 || y1 !== y2) segments.push({ x1, y1, x2, y2 });
+      }
+    }
+  }
+
+  return segments;
+}
+
+/** Segments joined end to end, in grid coordinates */
+export interface ContourLine {
+  points: { x: number; y: number }[];
+  /** Whether the line comes back to where it started rather than running off the grid */
+  closed: boolean;
+}
+
+/**
+ * Chain segments from traceContour into lines. Neighbouring cells compute the crossing on their
+ * shared edge identically, so matching endpoints are exactly equal.
+ */
+export function joinSegments(segments: ContourSegment[]): ContourLine[] {
+  const key = (x: number, y: number) => `${x},${y}`;
+  const segmentsAt = new Map<string, number[]>();
+  segments.forEach(({ x1, y1, x2, y2 }, i) => {
+    for (const point of [key(x1, y1), key(x2, y2)]) {
+      const indices = segmentsAt.get(point);
+      if (indices) indices.push(i);
+      else segmentsAt.set(point, [i]);
+    }
+  });
+
+  const used = new Uint8Array(segments.length);
+
+  // Follow unused segments from the last point until the line ends or closes
+  const extend = (points: { x: number; y: number }[]) => {
+    for (;;) {
+      const last = points[points.length - 1];
+      const next = segmentsAt.get(key(last.x, last.y))?.find((i) => !used[i]);
+      if (next === undefined) return;
+      used[next] = 1;
+      const { x1, y1, x2, y2 } = segments[next];
+      points.push(x1 === last.x && y1 === last.y ? { x: x2, y: y2 } : { x: x1, y: y1 });
+    }
+  };
+
+  const lines: ContourLine[] = [];
+  segments.forEach(({ x1, y1, x2, y2 }, i) => {
+    if (used[i]) return;
+    used[i] = 1;
+    const forward = [
+      { x: x1, y: y1 },
+      { x: x2, y: y2 },
+    ];
+    extend(forward);
+    const backward = [{ x: x1, y: y1 }];
+    extend(backward);
+
+    const points = [...backward.reverse(), ...forward.slice(1)];
+    const first = points[0];
+    const last = points[points.length - 1];
+    lines.push({ points, closed: points.length > 3 && first.x === last.x && first.y === last.y });
+  });
+  return lines;
+}
+
+// Most levels whose lines are kept for one grid; a level that follows a moving target, like the
+// break-even line, would otherwise add a new one with every move
+const MAX_CACHED_LEVELS = 64;
+
+// Lines already traced, by grid then level. A grid's values mustn't change once it is drawn.
+const contourCache = new WeakMap<ArrayLike<number>, Map<number, ContourLine[]>>();
+
+/**
+ * Contour lines of a grid at a level, traced and joined once per grid and level so redrawing the
+ * same grid is cheap.
+ */
+export function getContourLines(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  level: number,
+): ContourLine[] {
+  let byLevel = contourCache.get(values);
+  if (!byLevel) {
+    byLevel = new Map();
+    contourCache.set(values, byLevel);
+  }
+
+  let lines = byLevel.get(level);
+  if (!lines) {
+    lines = joinSegments(traceContour(values, width, height, level));
+    if (byLevel.size >= MAX_CACHED_LEVELS) {
+      const [oldest] = byLevel.keys();
+      byLevel.delete(oldest);
+    }
+    byLevel.set(level, lines);
+  }
+  return lines;
+}
+
+/** Multiples of step strictly between min and max, e.g. every 2 points of expected score */
+export function getContourLevels(min: number, max: number, step: number): number[] {
+  if (!(step > 0)) {
+    throw new Error(`Contour step must be positive, got ${step}`);
+  }
+
+  const levels: number[] = [];
+  for (let k = Math.floor(min / step) + 1; k * step < max; k++) {
+    levels.push(k * step);
+  }
+  return levels;
+}
+
+/**
+ * Density thresholds whose contours enclose the given fractions of the total, as the smallest
+ * region holding each fraction. For a Gaussian hit distribution these are its probability
+ * ellipses.
+ */
+export function getProbabilityLevels(density: ArrayLike<number>, fractions: number[]): number[] {
+  const sorted = Float64Array.from(density).sort().reverse();
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+
+  return fractions.map((fraction) => {
+    let enclosed = 0;
+    for (const value of sorted) {
+      enclosed += value;
+      if (enclosed >= fraction * total) return value;
+    }
+    return 0;
+  });
+}
+
+/** A level to draw a contour at, and what to label it with */
+export interface ContourLevel {
+  value: number;
+  label?: string;
+}
+
+export interface ContourStyle {
+  color?: string;
+  lineWidth?: number;
+  /** Lines shorter than this many canvas pixels are left unlabelled */
+  minLabelLength?: number;
+}
+
+/**
+ * Draw contours of a grid of values over a canvas, labelling each line halfway along. The grid
+ * is stretched to fill the canvas, with grid points at pixel centres. Lines come from
+ * getContourLines, so the grid's values mustn't change between draws.
+ */
+export function drawContours(
+  ctx: CanvasRenderingContext2D,
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  levels: ContourLevel[],
+  { color = "white", lineWidth = 1, minLabelLength = 80 }: ContourStyle = {},
+): void {
+  const scaleX = ctx.canvas.width / width;
+  const scaleY = ctx.canvas.height / height;
+  const toCanvas = ({ x, y }: { x: number; y: number }) => ({
+    x: (x + 0.5) * scaleX,
+    y: (y + 0.5) * scaleY,
+  });
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.font = "bold 12px Arial";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  for (const { value, label } of levels) {
+    for (const line of getContourLines(values, width, height, value)) {
+      const points = line.points.map(toCanvas);
+
+      ctx.beginPath();
+      points.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.stroke();
+
+      if (!label) continue;
+
+      // Find the point halfway along the line
+      const lengths = points
+        .slice(1)
+        .map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+      const total = lengths.reduce((sum, length) => sum + length, 0);
+      if (total < minLabelLength) continue;
+
+      let remaining = total / 2;
+      let i = 0;
+      while (remaining > lengths[i]) remaining -= lengths[i++];
+      const t = lengths[i] > 0 ? remaining / lengths[i] : 0;
+      const x = points[i].x + (points[i + 1].x - points[i].x) * t;
+      const y = points[i].y + (points[i + 1].y - points[i].y) * t;
+
+      // A dark halo keeps the label readable over any colour
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.7)";
+      ctx.strokeText(label, x, y);
+      ctx.fillStyle = color;
+      ctx.fillText(label, x, y);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+    }
+  }
+
+  ctx.restore();
+}
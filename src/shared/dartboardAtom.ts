@@ -0,0 +1,9 @@
+import { atom } from "jotai";
+import { REGULATION_BOARD } from "../dartboard/dartboard-definition";
+import { getDartboard } from "../dartboard/dartboard-registry";
+
+// Id of the board currently being analysed
+export const dartboardIdAtom = atom<string>(REGULATION_BOARD.id);
+
+// The selected board definition - every tab reads this so tables, shaders and overlays agree
+export const dartboardAtom = atom((get) => getDartboard(get(dartboardIdAtom)));
@@ -0,0 +1,7 @@
+import { atom } from "jotai";
+import { deviceManager } from "../webgpu/device-manager";
+
+// Changes whenever a lost GPU device has been replaced - tabs depend on it to recompute
+export const deviceGenerationAtom = atom<number>(deviceManager.getGeneration());
+deviceGenerationAtom.onMount = (setGeneration) =>
+  deviceManager.subscribe(() => setGeneration(deviceManager.getGeneration()));
@@ -0,0 +1,19 @@
+/**
+ * Probability density of a bivariate normal distribution with correlation rho.
+ * Matches gaussian2D in the WGSL shaders; all lengths in the same units (usually pixels).
+ */
+export function gaussian2D(
+  x: number,
+  y: number,
+  muX: number,
+  muY: number,
+  sigmaX: number,
+  sigmaY: number,
+  rho: number = 0,
+): number {
+  const oneMinusRho2 = 1 - rho * rho;
+  const dx = (x - muX) / sigmaX;
+  const dy = (y - muY) / sigmaY;
+  const coef = 1 / (2 * Math.PI * sigmaX * sigmaY * Math.sqrt(oneMinusRho2));
+  return coef * Math.exp(-(dx * dx - 2 * rho * dx * dy + dy * dy) / (2 * oneMinusRho2));
+}
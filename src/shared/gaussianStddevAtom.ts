@@ -1,5 +1,5 @@
 import { atom } from "jotai";
-import { mmToPixels, pixelsToMm } from "../dartboard/dartboard-definition";
+import { DartboardDef, mmToPixels, pixelsToMm } from "../dartboard/dartboard-definition";
 
 const DEFAULT_STDDEV_MM = 50;
 
@@ -12,13 +12,21 @@ export const gaussianStddevPixelsAtom = atom(
   },
   (get, set, update: { mm: number }) => {
     set(gaussianStddevMmAtom, update.mm);
-  }
+  },
 );
 
-export const getGaussianStddevPixels = (mm: number, canvasWidth: number): number => {
-  return mmToPixels(mm, canvasWidth);
+export const getGaussianStddevPixels = (
+  mm: number,
+  canvasWidth: number,
+  dartboard?: DartboardDef,
+): number => {
+  return mmToPixels(mm, canvasWidth, dartboard);
 };
 
-export const getGaussianStddevMm = (pixels: number, canvasWidth: number): number => {
-  return pixelsToMm(pixels, canvasWidth);
-};
\ No newline at end of file
+export const getGaussianStddevMm = (
+  pixels: number,
+  canvasWidth: number,
+  dartboard?: DartboardDef,
+): number => {
+  return pixelsToMm(pixels, canvasWidth, dartboard);
+};
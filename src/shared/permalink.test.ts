@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { PermalinkState, decodePermalink, encodePermalink } from "./permalink";
+
+const state: PermalinkState = {
+  tab: "expected-score",
+  targetPosition: { x: 0.01234567, y: -0.4567 },
+  sigmaMm: 23.456,
+  sigmaRange: { min: 1, max: 100, step: 5 },
+  canvasSize: 300,
+  showDartboardColors: false,
+  dartboardId: "quadro-240",
+  throwShape: { aspectRatio: 1.5, correlation: -0.25 },
+  aimBias: { x: -4, y: 12.5 },
+};
+
+describe("permalinks", () => {
+  it("round-trip the state, rounded for short links", () => {
+    const decoded = decodePermalink(encodePermalink(state));
+    expect(decoded).toEqual({
+      ...state,
+      targetPosition: { x: 0.0123, y: -0.4567 },
+      sigmaMm: 23.46,
+    });
+  });
+
+  it("accept a leading question mark", () => {
+    expect(decodePermalink("?sigma=30").sigmaMm).toBe(30);
+  });
+
+  it("leave out missing and malformed values", () => {
+    const decoded = decodePermalink(
+      "x=0.5&sigma=abc&aspect=-1&range=10:5:1&res=2.5&colors=yes&biasX=3",
+    );
+    expect(decoded).toEqual({});
+  });
+
+  it("clamp the correlation", () => {
+    expect(decodePermalink("aspect=1&rho=2").throwShape).toEqual({
+      aspectRatio: 1,
+      correlation: 0.95,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import type { SigmaRange } from "../optimal-target/OptimalTargetStore";
+import type { TargetPosition } from "./targetPositionAtom";
+import { AimBias, ThrowShape, clampCorrelation } from "./throwModelAtom";
+
+/** Everything a shared link restores */
+export interface PermalinkState {
+  tab: string;
+  targetPosition: TargetPosition; // Normalised canvas coordinates (-1 to 1)
+  sigmaMm: number;
+  sigmaRange: SigmaRange;
+  canvasSize: number; // Skill Explorer resolution
+  showDartboardColors: boolean;
+  dartboardId: string;
+  throwShape: ThrowShape;
+  aimBias: AimBias;
+}
+
+/**
+ * Write the state as a query string (without the leading "?"), with numbers rounded so links
+ * stay short.
+ */
+export function encodePermalink(state: PermalinkState): string {
+  const round = (value: number, digits: number) => String(Number(value.toFixed(digits)));
+  const params = new URLSearchParams({
+    tab: state.tab,
+    board: state.dartboardId,
+    x: round(state.targetPosition.x, 4),
+    y: round(state.targetPosition.y, 4),
+    sigma: round(state.sigmaMm, 2),
+    aspect: round(state.throwShape.aspectRatio, 3),
+    rho: round(state.throwShape.correlation, 3),
+    biasX: round(state.aimBias.x, 1),
+    biasY: round(state.aimBias.y, 1),
+    range: [state.sigmaRange.min, state.sigmaRange.max, state.sigmaRange.step]
+      .map((value) => round(value, 2))
+      .join(":"),
+    res: String(state.canvasSize),
+    colors: state.showDartboardColors ? "1" : "0",
+  });
+  return params.toString();
+}
+
+/**
+ * Read whatever valid state a query string holds. Missing or malformed values are left out so
+ * the app keeps its defaults for them; board ids and tabs are checked by the caller.
+ */
+export function decodePermalink(query: string): Partial<PermalinkState> {
+  const params = new URLSearchParams(query);
+  const number = (name: string) => {
+    const value = params.get(name);
+    if (value === null || value.trim() === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  const state: Partial<PermalinkState> = {};
+
+  const tab = params.get("tab");
+  if (tab) state.tab = tab;
+
+  const board = params.get("board");
+  if (board) state.dartboardId = board;
+
+  const x = number("x");
+  const y = number("y");
+  if (x !== undefined && y !== undefined && Math.abs(x) <= 1 && Math.abs(y) <= 1) {
+    state.targetPosition = { x, y };
+  }
+
+  const sigma = number("sigma");
+  if (sigma !== undefined && sigma > 0) state.sigmaMm = sigma;
+
+  const aspect = number("aspect");
+  const rho = number("rho");
+  if (aspect !== undefined && aspect > 0) {
+    state.throwShape = { aspectRatio: aspect, correlation: clampCorrelation(rho ?? 0) };
+  }
+
+  const biasX = number("biasX");
+  const biasY = number("biasY");
+  if (biasX !== undefined && biasY !== undefined) {
+    state.aimBias = { x: biasX, y: biasY };
+  }
+
+  const range = params.get("range")?.split(":").map(Number);
+  if (range?.length === 3 && range.every(Number.isFinite)) {
+    const [min, max, step] = range;
+    if (min > 0 && max >= min && step > 0) state.sigmaRange = { min, max, step };
+  }
+
+  const canvasSize = number("res");
+  if (canvasSize !== undefined && Number.isInteger(canvasSize) && canvasSize > 0) {
+    state.canvasSize = canvasSize;
+  }
+
+  const colors = params.get("colors");
+  if (colors === "1" || colors === "0") state.showDartboardColors = colors === "1";
+
+  return state;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { fitQuadraticPeak, refineGridMaximum } from "./subpixel";
+
+/** A width × width grid sampling f at integer coordinates */
+const sampleGrid = (width: number, f: (x: number, y: number) => number) =>
+  Float64Array.from({ length: width * width }, (_, i) => f(i % width, Math.floor(i / width)));
+
+describe("fitQuadraticPeak", () => {
+  it("recovers the peak of a quadratic exactly", () => {
+    const f = (x: number, y: number) =>
+      10 - 2 * (x - 5.3) ** 2 - (y - 4.8) ** 2 + 0.5 * (x - 5.3) * (y - 4.8);
+    const grid = sampleGrid(10, f);
+    const peak = refineGridMaximum(grid, 10, 10, 5, 5);
+
+    expect(peak.x).toBeCloseTo(5.3, 10);
+    expect(peak.y).toBeCloseTo(4.8, 10);
+    expect(peak.value).toBeCloseTo(10, 10);
+  });
+
+  it("gets close to the peak of a Gaussian bump", () => {
+    const f = (x: number, y: number) => Math.exp(-((x - 20.4) ** 2 + (y - 19.7) ** 2) / 50);
+    const grid = sampleGrid(40, f);
+    const peak = refineGridMaximum(grid, 40, 40, 20, 20);
+
+    expect(Math.abs(peak.x - 20.4)).toBeLessThan(0.02);
+    expect(Math.abs(peak.y - 19.7)).toBeLessThan(0.02);
+    expect(peak.value).toBeGreaterThanOrEqual(grid[20 * 40 + 20]);
+  });
+
+  it("leaves saddles and the edge of the grid alone", () => {
+    const saddle = [0, 1, 0, -1, 0, -1, 0, 1, 0];
+    expect(fitQuadraticPeak(saddle, 3, 4)).toEqual({ x: 3, y: 4, value: 0 });
+
+    const grid = sampleGrid(5, (x) => x);
+    expect(refineGridMaximum(grid, 5, 5, 4, 2)).toEqual({ x: 4, y: 2, value: 4 });
+  });
+});
@@ -0,0 +1,105 @@
+/** A maximum located between grid points, in grid coordinates */
+export interface RefinedMaximum {
+  x: number;
+  y: number;
+  value: number;
+}
+
+/**
+ * Refine a discrete maximum by fitting z = a + bx + cy + dx² + exy + fy² by least squares to
+ * its 3 × 3 neighbourhood and moving to the stationary point of the fit. The offset is limited to
+ * one grid step; where the fit isn't a peak (a ridge, saddle or the edge of the grid) the
+ * discrete maximum is returned unchanged.
+ *
+ * @param neighbourhood - The nine values around the maximum, row by row, with the maximum in
+ *                        the middle
+ */
+export function fitQuadraticPeak(
+  neighbourhood: ArrayLike<number>,
+  x: number,
+  y: number,
+): RefinedMaximum {
+  const centre = neighbourhood[4];
+  let sum = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const z = neighbourhood[(dy + 1) * 3 + dx + 1];
+      if (!Number.isFinite(z)) return { x, y, value: centre };
+      sum += z;
+      sumX += z * dx;
+      sumY += z * dy;
+      sumXY += z * dx * dy;
+      sumXX += z * (dx * dx - 2 / 3);
+      sumYY += z * (dy * dy - 2 / 3);
+    }
+  }
+
+  // The terms are orthogonal over the 3 × 3 grid, so each coefficient is a simple projection
+  const b = sumX / 6;
+  const c = sumY / 6;
+  const e = sumXY / 4;
+  const d = sumXX / 2;
+  const f = sumYY / 2;
+  const a = sum / 9 - (2 / 3) * (d + f);
+
+  // A peak needs a negative definite Hessian
+  const det = 4 * d * f - e * e;
+  if (!(d < 0 && det > 0)) return { x, y, value: centre };
+
+  const clamp = (offset: number) => Math.min(Math.max(offset, -1), 1);
+  const offsetX = clamp((c * e - 2 * b * f) / det);
+  const offsetY = clamp((b * e - 2 * c * d) / det);
+  const value =
+    a +
+    b * offsetX +
+    c * offsetY +
+    d * offsetX * offsetX +
+    e * offsetX * offsetY +
+    f * offsetY * offsetY;
+
+  // Clamping can land below the fitted value at the centre; never report less than observed
+  return value >= centre ? { x: x + offsetX, y: y + offsetY, value } : { x, y, value: centre };
+}
+
+/**
+ * Refine the maximum of a width × height grid stored row by row at (x, y). Maxima on the edge of
+ * the grid are returned unchanged.
+ */
+export function refineGridMaximum(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+): RefinedMaximum {
+  const value = values[y * width + x];
+  if (x <= 0 || y <= 0 || x >= width - 1 || y >= height - 1) return { x, y, value };
+
+  const neighbourhood = new Float64Array(9);
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      neighbourhood[(dy + 1) * 3 + dx + 1] = values[(y + dy) * width + x + dx];
+    }
+  }
+  return fitQuadraticPeak(neighbourhood, x, y);
+}
+
+/**
+ * The largest value of a width × height grid stored row by row, refined between grid points.
+ */
+export function findGridMaximum(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+): RefinedMaximum {
+  let maxIndex = 0;
+  for (let i = 1; i < width * height; i++) {
+    if (values[i] > values[maxIndex]) maxIndex = i;
+  }
+  return refineGridMaximum(values, width, height, maxIndex % width, Math.floor(maxIndex / width));
+}
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "vitest";
+import {
+  MAX_CORRELATION,
+  getCovarianceEllipse,
+  getThrowModel,
+  getThrowShape,
+} from "./throwModelAtom";
+
+describe("Throw model", () => {
+  test("shape round-trips through the full model", () => {
+    const model = getThrowModel(20, { aspectRatio: 1.5, correlation: 0.3 }, { x: -5, y: 8 });
+    expect(model).toEqual({
+      sigmaXMm: 20,
+      sigmaYMm: 30,
+      correlation: 0.3,
+      biasXMm: -5,
+      biasYMm: 8,
+    });
+    expect(getThrowShape(model)).toEqual({ aspectRatio: 1.5, correlation: 0.3 });
+  });
+
+  test("correlation is clamped away from a degenerate distribution", () => {
+    const shape = getThrowShape({
+      sigmaXMm: 10,
+      sigmaYMm: 10,
+      correlation: 1,
+      biasXMm: 0,
+      biasYMm: 0,
+    });
+    expect(shape.correlation).toBe(MAX_CORRELATION);
+  });
+
+  test("uncorrelated ellipse is axis aligned", () => {
+    const ellipse = getCovarianceEllipse(30, 10, 0);
+    expect(ellipse.radiusX).toBeCloseTo(30);
+    expect(ellipse.radiusY).toBeCloseTo(10);
+    expect(ellipse.rotation).toBeCloseTo(0);
+  });
+
+  test("positive correlation with equal sigmas tilts the ellipse by 45°", () => {
+    const ellipse = getCovarianceEllipse(10, 10, 0.5);
+    expect(ellipse.rotation).toBeCloseTo(Math.PI / 4);
+    expect(ellipse.radiusX).toBeCloseTo(10 * Math.sqrt(1.5));
+    expect(ellipse.radiusY).toBeCloseTo(10 * Math.sqrt(0.5));
+  });
+});
@@ -0,0 +1,133 @@
+import { atom } from "jotai";
+import { DartboardDef, mmToPixels } from "../dartboard/dartboard-definition";
+import { gaussianStddevMmAtom } from "./gaussianStddevAtom";
+
+/** Largest correlation magnitude the controls allow; |ρ| → 1 collapses the Gaussian to a line */
+export const MAX_CORRELATION = 0.95;
+
+/**
+ * Shape of the throw distribution relative to the horizontal standard deviation held in
+ * gaussianStddevMmAtom. Keeping the shape separate means the single σ slider still scales the
+ * whole grouping.
+ */
+export interface ThrowShape {
+  /** Ratio of vertical to horizontal standard deviation (σy / σx) */
+  aspectRatio: number;
+  /** Correlation coefficient between horizontal and vertical error (ρ, -1 to 1) */
+  correlation: number;
+}
+
+/**
+ * Systematic offset of the grouping centre from the aim point, in mm. Uses canvas orientation:
+ * positive x is right, positive y is down, so a player who lands low-left has x < 0 and y > 0.
+ */
+export interface AimBias {
+  x: number;
+  y: number;
+}
+
+/**
+ * Full throw distribution: 2×2 covariance as standard deviations and correlation, plus the
+ * systematic offset of its mean from the aim point
+ */
+export interface ThrowModel {
+  /** Horizontal standard deviation in mm */
+  sigmaXMm: number;
+  /** Vertical standard deviation in mm */
+  sigmaYMm: number;
+  /** Correlation coefficient between horizontal and vertical error */
+  correlation: number;
+  /** Horizontal offset of the mean from the aim point in mm (positive is right) */
+  biasXMm: number;
+  /** Vertical offset of the mean from the aim point in mm (positive is down) */
+  biasYMm: number;
+}
+
+/** The throw model converted to canvas pixels, ready to upload to a shader */
+export interface ThrowModelPixels {
+  sigmaX: number;
+  sigmaY: number;
+  rho: number;
+  biasX: number;
+  biasY: number;
+}
+
+export const ISOTROPIC_THROW_SHAPE: ThrowShape = { aspectRatio: 1, correlation: 0 };
+
+export const NO_AIM_BIAS: AimBias = { x: 0, y: 0 };
+
+export const throwShapeAtom = atom<ThrowShape>(ISOTROPIC_THROW_SHAPE);
+
+export const aimBiasMmAtom = atom<AimBias>(NO_AIM_BIAS);
+
+export const throwModelAtom = atom(
+  (get): ThrowModel =>
+    getThrowModel(get(gaussianStddevMmAtom), get(throwShapeAtom), get(aimBiasMmAtom)),
+  (_get, set, model: ThrowModel) => {
+    set(gaussianStddevMmAtom, model.sigmaXMm);
+    set(throwShapeAtom, getThrowShape(model));
+    set(aimBiasMmAtom, { x: model.biasXMm, y: model.biasYMm });
+  },
+);
+
+export function getThrowModel(
+  sigmaXMm: number,
+  shape: ThrowShape,
+  bias: AimBias = NO_AIM_BIAS,
+): ThrowModel {
+  return {
+    sigmaXMm,
+    sigmaYMm: sigmaXMm * shape.aspectRatio,
+    correlation: shape.correlation,
+    biasXMm: bias.x,
+    biasYMm: bias.y,
+  };
+}
+
+export function getThrowShape(model: ThrowModel): ThrowShape {
+  return {
+    aspectRatio: model.sigmaYMm / model.sigmaXMm,
+    correlation: clampCorrelation(model.correlation),
+  };
+}
+
+export function clampCorrelation(correlation: number): number {
+  return Math.max(-MAX_CORRELATION, Math.min(MAX_CORRELATION, correlation));
+}
+
+export const getThrowModelPixels = (
+  model: ThrowModel,
+  canvasWidth: number,
+  dartboard?: DartboardDef,
+): ThrowModelPixels => {
+  return {
+    sigmaX: mmToPixels(model.sigmaXMm, canvasWidth, dartboard),
+    sigmaY: mmToPixels(model.sigmaYMm, canvasWidth, dartboard),
+    rho: clampCorrelation(model.correlation),
+    biasX: mmToPixels(model.biasXMm, canvasWidth, dartboard),
+    biasY: mmToPixels(model.biasYMm, canvasWidth, dartboard),
+  };
+};
+
+/**
+ * Radii and rotation of the 1σ ellipse of the throw distribution, ready for
+ * CanvasRenderingContext2D.ellipse. Rotation is in radians, clockwise on a y-down canvas.
+ */
+export function getCovarianceEllipse(
+  sigmaX: number,
+  sigmaY: number,
+  rho: number,
+): { radiusX: number; radiusY: number; rotation: number } {
+  const varX = sigmaX * sigmaX;
+  const varY = sigmaY * sigmaY;
+  const cov = rho * sigmaX * sigmaY;
+
+  // Eigenvalues of the covariance matrix are the variances along the principal axes
+  const mean = (varX + varY) / 2;
+  const root = Math.sqrt(((varX - varY) / 2) ** 2 + cov * cov);
+  return {
+    radiusX: Math.sqrt(mean + root),
+    radiusY: Math.sqrt(Math.max(mean - root, 0)),
+    rotation: 0.5 * Math.atan2(2 * cov, varX - varY),
+  };
+}
@@ -0,0 +1,108 @@
+import { useAtomValue, useSetAtom } from "jotai";
+import React, { useState } from "react";
+import { getSegmentProbabilityFn } from "../compute/compute-backend";
+import { dartboardAtom } from "../shared/dartboardAtom";
+import { throwShapeAtom } from "../shared/throwModelAtom";
+import { ScoreFitResult, fitSkillFromScores, parseScoreLog } from "./score-fit";
+import { appliedScoreFitAtom, applyScoreFitAtom } from "./skillEstimationAtoms";
+
+const PLACEHOLDER = `# darts aimed at T20 unless a line starts with an aim
+T20, 5, 1
+20, 20, T5
+D16: D16, 8, D8`;
+
+export const ScoreLogEstimationPanel: React.FC = () => {
+  const [input, setInput] = useState("");
+  const [fitBias, setFitBias] = useState(false);
+  const [fit, setFit] = useState<ScoreFitResult | null>(null);
+  const [fitting, setFitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dartboard = useAtomValue(dartboardAtom);
+  const throwShape = useAtomValue(throwShapeAtom);
+  const appliedFit = useAtomValue(appliedScoreFitAtom);
+  const applyFit = useSetAtom(applyScoreFitAtom);
+
+  const handleFit = async () => {
+    setFitting(true);
+    try {
+      const observations = parseScoreLog(input, dartboard);
+      const segmentProbabilities = await getSegmentProbabilityFn();
+      setFit(
+        await fitSkillFromScores(observations, segmentProbabilities, {
+          dartboard,
+          throwShape,
+          fitBias,
+        }),
+      );
+      setError(null);
+    } catch (e) {
+      setFit(null);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setFitting(false);
+    }
+  };
+
+  const shownFit = fit ?? appliedFit;
+
+  return (
+    <div className="mt-5">
+      <label htmlFor="score-log" className="block mb-2 font-bold">
+        Fit From Scores
+      </label>
+      <textarea
+        id="score-log"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={5}
+        className="w-full p-1.5 text-xs font-mono rounded border border-gray-300"
+      />
+      <label className="flex items-center gap-2 mt-2 text-sm">
+        <input type="checkbox" checked={fitBias} onChange={(e) => setFitBias(e.target.checked)} />
+        Also fit aim bias
+      </label>
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={handleFit}
+          disabled={fitting}
+          className="px-3 py-1.5 text-xs rounded border border-gray-300 bg-gray-100 disabled:opacity-50"
+        >
+          {fitting ? "Fitting..." : "Fit"}
+        </button>
+        <button
+          onClick={() => fit && applyFit(fit)}
+          disabled={!fit}
+          className="px-3 py-1.5 text-xs rounded border border-gray-300 bg-gray-100 disabled:opacity-50"
+        >
+          Apply to Throw Model
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {shownFit && (
+        <div className="text-sm font-mono mt-3">
+          <p>
+            σ: {shownFit.sigma.value.toFixed(1)} mm [{shownFit.sigma.interval.lower.toFixed(1)},{" "}
+            {shownFit.sigma.interval.upper.toFixed(1)}] (
+            {Math.round(shownFit.confidenceLevel * 100)}% CI)
+          </p>
+          {shownFit.bias && (
+            <p>
+              Bias: ({shownFit.bias.x.toFixed(1)}, {shownFit.bias.y.toFixed(1)}) mm
+            </p>
+          )}
+        </div>
+      )}
+      {shownFit && (
+        <p className="text-sm text-gray-600 mt-2">
+          {shownFit === appliedFit ? "Applied fit" : "Fit"} from {shownFit.sampleSize} darts.
+        </p>
+      )}
+      <p className="text-sm text-gray-600 mt-2">
+        Paste the segments hit, e.g. T20, 5, 1. The current throw shape is held fixed.
+      </p>
+    </div>
+  );
+};
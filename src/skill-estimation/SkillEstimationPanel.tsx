@@ -0,0 +1,110 @@
+import { useAtomValue, useSetAtom } from "jotai";
+import React, { useState } from "react";
+import { appliedSkillEstimateAtom, applySkillEstimateAtom } from "./skillEstimationAtoms";
+import { EstimatedParameter } from "./statistics";
+import { SkillEstimate, fitThrowModel, parseThrowRecords } from "./throw-fit";
+
+const PLACEHOLDER = `# aimX, aimY, landedX, landedY (mm, y down)
+0, -103, 4, -95
+0, -103, -12, -110
+0, -103, 7, -88`;
+
+const formatParameter = (parameter: EstimatedParameter, digits: number) =>
+  `${parameter.value.toFixed(digits)} [${parameter.interval.lower.toFixed(digits)}, ${parameter.interval.upper.toFixed(digits)}]`;
+
+export const SkillEstimationPanel: React.FC = () => {
+  const [input, setInput] = useState("");
+  const [estimate, setEstimate] = useState<SkillEstimate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const appliedEstimate = useAtomValue(appliedSkillEstimateAtom);
+  const applyEstimate = useSetAtom(applySkillEstimateAtom);
+
+  const handleFit = () => {
+    try {
+      setEstimate(fitThrowModel(parseThrowRecords(input)));
+      setError(null);
+    } catch (e) {
+      setEstimate(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const shownEstimate = estimate ?? appliedEstimate;
+
+  return (
+    <div className="mt-5">
+      <label htmlFor="throw-records" className="block mb-2 font-bold">
+        Fit From Recorded Throws
+      </label>
+      <textarea
+        id="throw-records"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={6}
+        className="w-full p-1.5 text-xs font-mono rounded border border-gray-300"
+      />
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={handleFit}
+          className="px-3 py-1.5 text-xs rounded border border-gray-300 bg-gray-100"
+        >
+          Fit
+        </button>
+        <button
+          onClick={() => estimate && applyEstimate(estimate)}
+          disabled={!estimate}
+          className="px-3 py-1.5 text-xs rounded border border-gray-300 bg-gray-100 disabled:opacity-50"
+        >
+          Apply to Throw Model
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {shownEstimate && (
+        <table className="w-full mt-3 text-xs border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="p-1 text-left">Parameter</th>
+              <th className="p-1 text-right">
+                Estimate [{Math.round(shownEstimate.confidenceLevel * 100)}% CI]
+              </th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            <tr>
+              <td className="p-1">σx (mm)</td>
+              <td className="p-1 text-right">{formatParameter(shownEstimate.sigmaX, 1)}</td>
+            </tr>
+            <tr>
+              <td className="p-1">σy (mm)</td>
+              <td className="p-1 text-right">{formatParameter(shownEstimate.sigmaY, 1)}</td>
+            </tr>
+            <tr>
+              <td className="p-1">ρ</td>
+              <td className="p-1 text-right">{formatParameter(shownEstimate.correlation, 2)}</td>
+            </tr>
+            <tr>
+              <td className="p-1">Bias x (mm)</td>
+              <td className="p-1 text-right">{formatParameter(shownEstimate.biasX, 1)}</td>
+            </tr>
+            <tr>
+              <td className="p-1">Bias y (mm)</td>
+              <td className="p-1 text-right">{formatParameter(shownEstimate.biasY, 1)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+      {shownEstimate && (
+        <p className="text-sm text-gray-600 mt-2">
+          {shownEstimate === appliedEstimate ? "Applied fit" : "Fit"} from{" "}
+          {shownEstimate.sampleSize} throws.
+        </p>
+      )}
+      <p className="text-sm text-gray-600 mt-2">
+        Paste one dart per line as aim and landing coordinates in mm from the centre.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+/** Objective functions may be async so likelihoods can be evaluated on the GPU */
+export type Objective<T> = (x: T) => number | Promise<number>;
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Maximise a unimodal function of one variable on [lower, upper] by golden-section search.
+ * Returns the best point found and its value.
+ */
+export async function goldenSectionMaximise(
+  f: Objective<number>,
+  lower: number,
+  upper: number,
+  tolerance: number = 1e-3,
+  maxIterations: number = 100,
+): Promise<{ x: number; value: number }> {
+  let a = lower;
+  let b = upper;
+  let c = b - GOLDEN_RATIO * (b - a);
+  let d = a + GOLDEN_RATIO * (b - a);
+  let fc = await f(c);
+  let fd = await f(d);
+
+  for (let i = 0; i < maxIterations && b - a > tolerance; i++) {
+    if (fc > fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - GOLDEN_RATIO * (b - a);
+      fc = await f(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + GOLDEN_RATIO * (b - a);
+      fd = await f(d);
+    }
+  }
+
+  return fc > fd ? { x: c, value: fc } : { x: d, value: fd };
+}
+
+/**
+ * Maximise a function of several variables with the Nelder–Mead simplex method.
+ * @param start - Initial guess
+ * @param step - Initial simplex size along each axis
+ */
+export async function nelderMeadMaximise(
+  f: Objective<number[]>,
+  start: number[],
+  step: number[],
+  tolerance: number = 1e-4,
+  maxIterations: number = 200,
+): Promise<{ x: number[]; value: number }> {
+  const n = start.length;
+  // Minimise the negated objective
+  const evaluate = async (x: number[]) => -(await f(x));
+
+  const simplex: { x: number[]; value: number }[] = [{ x: start, value: await evaluate(start) }];
+  for (let i = 0; i < n; i++) {
+    const x = [...start];
+    x[i] += step[i];
+    simplex.push({ x, value: await evaluate(x) });
+  }
+
+  const combine = (a: number[], b: number[], t: number) => a.map((ai, i) => ai + t * (b[i] - ai));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    simplex.sort((p, q) => p.value - q.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) < tolerance) break;
+
+    const centroid = Array.from(
+      { length: n },
+      (_, i) => simplex.slice(0, n).reduce((sum, p) => sum + p.x[i], 0) / n,
+    );
+
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = await evaluate(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = await evaluate(expanded);
+      simplex[n] =
+        expandedValue < reflectedValue
+          ? { x: expanded, value: expandedValue }
+          : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const contractedValue = await evaluate(contracted);
+      if (contractedValue < worst.value) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink everything towards the best point
+        for (let i = 1; i <= n; i++) {
+          const x = combine(best.x, simplex[i].x, 0.5);
+          simplex[i] = { x, value: await evaluate(x) };
+        }
+      }
+    }
+  }
+
+  simplex.sort((p, q) => p.value - q.value);
+  return { x: simplex[0].x, value: -simplex[0].value };
+}
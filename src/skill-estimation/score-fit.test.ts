@@ -0,0 +1,149 @@
+import { describe, expect, test } from "vitest";
+import {
+  QUADRO_BOARD,
+  REGULATION_BOARD,
+  normaliseDartboard,
+} from "../dartboard/dartboard-definition";
+import {
+  BULL_SEGMENT,
+  MISS_SEGMENT,
+  findSegmentByName,
+  getSegmentCentreMm,
+  getSegmentId,
+} from "../dartboard/dartboard-segments";
+import { cpuSegmentProbabilities } from "../hit-distribution/segment-probabilities";
+import { ScoreObservation, fitSkillFromScores, parseScoreLog } from "./score-fit";
+
+/** Deterministic uniform random numbers (mulberry32) */
+function makeRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Throw at a segment from an isotropic Gaussian and record only the segment hit */
+function simulateScores(
+  count: number,
+  aim: string,
+  truth: { sigma: number; biasX: number; biasY: number },
+  seed = 1,
+): ScoreObservation[] {
+  const random = makeRandom(seed);
+  const aimSegmentId = findSegmentByName(aim, REGULATION_BOARD)!;
+  const aimed = getSegmentCentreMm(aimSegmentId, REGULATION_BOARD);
+  const normalisedBoard = normaliseDartboard(REGULATION_BOARD);
+  const halfBoardMm = REGULATION_BOARD.wholeBoardDiameter / 2;
+  return Array.from({ length: count }, () => {
+    const r = Math.sqrt(-2 * Math.log(1 - random()));
+    const theta = 2 * Math.PI * random();
+    const x = aimed.x + truth.biasX + truth.sigma * r * Math.cos(theta);
+    const y = aimed.y + truth.biasY + truth.sigma * r * Math.sin(theta);
+    return {
+      aimSegmentId,
+      segmentId: getSegmentId(x / halfBoardMm, y / halfBoardMm, normalisedBoard),
+    };
+  });
+}
+
+describe("Segment names", () => {
+  test("parses scoresheet notation", () => {
+    expect(findSegmentByName("20", REGULATION_BOARD)).toBe(5);
+    expect(findSegmentByName("t20", REGULATION_BOARD)).toBe(25);
+    expect(findSegmentByName("D20", REGULATION_BOARD)).toBe(45);
+    expect(findSegmentByName("Bull", REGULATION_BOARD)).toBe(BULL_SEGMENT);
+    expect(findSegmentByName("miss", REGULATION_BOARD)).toBe(MISS_SEGMENT);
+    expect(findSegmentByName("21", REGULATION_BOARD)).toBeUndefined();
+    expect(findSegmentByName("Q20", REGULATION_BOARD)).toBeUndefined();
+    expect(findSegmentByName("Q20", QUADRO_BOARD)).toBe(68);
+  });
+
+  test("segment centres land in their own segment", () => {
+    const normalisedBoard = normaliseDartboard(REGULATION_BOARD);
+    const halfBoardMm = REGULATION_BOARD.wholeBoardDiameter / 2;
+    for (const name of ["T20", "D16", "5", "T19", "D1", "50"]) {
+      const id = findSegmentByName(name, REGULATION_BOARD)!;
+      const centre = getSegmentCentreMm(id, REGULATION_BOARD);
+      expect(getSegmentId(centre.x / halfBoardMm, centre.y / halfBoardMm, normalisedBoard)).toBe(
+        id,
+      );
+    }
+
+    const treble20 = getSegmentCentreMm(
+      findSegmentByName("T20", REGULATION_BOARD)!,
+      REGULATION_BOARD,
+    );
+    expect(treble20.x).toBeCloseTo(0, 6);
+    expect(treble20.y).toBeCloseTo(-(107 - 4), 6);
+  });
+});
+
+describe("Score log parsing", () => {
+  test("defaults the aim to T20 and reads aim prefixes", () => {
+    const observations = parseScoreLog("T20, 5, 1\n\n# comment\nD16: D16 8", REGULATION_BOARD);
+    expect(observations).toHaveLength(5);
+    expect(observations[0]).toEqual({ aimSegmentId: 25, segmentId: 25 });
+    expect(observations[1].segmentId).toBe(findSegmentByName("5", REGULATION_BOARD));
+    expect(observations[3].aimSegmentId).toBe(findSegmentByName("D16", REGULATION_BOARD));
+  });
+
+  test("reports unknown segments with their line", () => {
+    expect(() => parseScoreLog("T20, 5\nT21", REGULATION_BOARD)).toThrow(/Line 2/);
+  });
+});
+
+describe("Skill estimation from scores", () => {
+  const resolution = 120;
+
+  test("recovers σ from segments alone", async () => {
+    const truth = { sigma: 20, biasX: 0, biasY: 0 };
+    const observations = simulateScores(1000, "T20", truth);
+    const fit = await fitSkillFromScores(observations, cpuSegmentProbabilities, { resolution });
+
+    expect(fit.bias).toBeNull();
+    expect(fit.sampleSize).toBe(1000);
+    expect(fit.sigma.value).toBeGreaterThan(17);
+    expect(fit.sigma.value).toBeLessThan(23);
+    expect(fit.sigma.interval.lower).toBeLessThan(truth.sigma);
+    expect(fit.sigma.interval.upper).toBeGreaterThan(truth.sigma);
+    expect(fit.throwModel.sigmaXMm).toBe(fit.sigma.value);
+  });
+
+  test("intervals narrow with more darts", async () => {
+    const truth = { sigma: 30, biasX: 0, biasY: 0 };
+    const few = await fitSkillFromScores(
+      simulateScores(60, "T20", truth, 2),
+      cpuSegmentProbabilities,
+      { resolution },
+    );
+    const many = await fitSkillFromScores(
+      simulateScores(600, "T20", truth, 3),
+      cpuSegmentProbabilities,
+      { resolution },
+    );
+    const width = (fit: typeof few) => fit.sigma.interval.upper - fit.sigma.interval.lower;
+    expect(width(many)).toBeLessThan(width(few));
+  });
+
+  test("fits a systematic bias when asked", async () => {
+    const truth = { sigma: 15, biasX: 12, biasY: 0 };
+    const observations = [
+      ...simulateScores(600, "T20", truth, 4),
+      ...simulateScores(600, "T3", truth, 5),
+    ];
+    const fit = await fitSkillFromScores(observations, cpuSegmentProbabilities, {
+      resolution,
+      fitBias: true,
+    });
+
+    expect(fit.bias).not.toBeNull();
+    expect(fit.bias!.x).toBeGreaterThan(6);
+    expect(fit.bias!.x).toBeLessThan(18);
+    expect(Math.abs(fit.bias!.y)).toBeLessThan(6);
+    expect(fit.sigma.value).toBeGreaterThan(11);
+    expect(fit.sigma.value).toBeLessThan(19);
+  });
+});
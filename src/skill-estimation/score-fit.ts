@@ -0,0 +1,224 @@
+import { DartboardDef, REGULATION_BOARD, mmToPixels } from "../dartboard/dartboard-definition";
+import {
+  SEGMENT_COUNT,
+  findSegmentByName,
+  getSegmentCentreMm,
+} from "../dartboard/dartboard-segments";
+import { SegmentProbabilityFn } from "../hit-distribution/segment-probabilities";
+import {
+  AimBias,
+  ISOTROPIC_THROW_SHAPE,
+  NO_AIM_BIAS,
+  ThrowModel,
+  ThrowShape,
+  getThrowModel,
+} from "../shared/throwModelAtom";
+import { goldenSectionMaximise, nelderMeadMaximise } from "./optimise";
+import { EstimatedParameter, criticalValue } from "./statistics";
+
+/** One dart from a scoresheet: the segment aimed at and the segment hit */
+export interface ScoreObservation {
+  aimSegmentId: number;
+  segmentId: number;
+}
+
+export interface ScoreFitOptions {
+  dartboard?: DartboardDef;
+  /** Grouping shape to hold fixed; the fitted σ is the horizontal standard deviation */
+  throwShape?: ThrowShape;
+  /** Also fit a systematic aim bias; otherwise the grouping is centred on the aim point */
+  fitBias?: boolean;
+  /** Size of the grid the segment probabilities are integrated over */
+  resolution?: number;
+  /** Range of σ values to search, in mm */
+  sigmaRangeMm?: { min: number; max: number };
+  confidenceLevel?: number;
+}
+
+export interface ScoreFitResult {
+  /** Horizontal standard deviation in mm, with a profile-likelihood interval */
+  sigma: EstimatedParameter;
+  /** Fitted aim bias in mm, or null if the grouping was assumed to be centred on the aim point */
+  bias: AimBias | null;
+  logLikelihood: number;
+  sampleSize: number;
+  confidenceLevel: number;
+  /** Point estimates, ready to write into the shared throw model */
+  throwModel: ThrowModel;
+}
+
+// Keeps impossible observations (e.g. a miss with a tiny σ) from making the likelihood -Infinity
+const MIN_PROBABILITY = 1e-9;
+
+/**
+ * Parse a score log with darts separated by commas or whitespace, e.g. "T20, 5, 1". A line may
+ * start with the segment aimed at, e.g. "D16: D16, 8, D8"; otherwise darts are assumed to be aimed
+ * at the default segment.
+ */
+export function parseScoreLog(
+  text: string,
+  dartboard: DartboardDef,
+  defaultAim: string = "T20",
+): ScoreObservation[] {
+  const defaultAimSegmentId = findSegmentByName(defaultAim, dartboard);
+  if (defaultAimSegmentId === undefined) {
+    throw new Error(`Unknown aim segment "${defaultAim}"`);
+  }
+
+  const observations: ScoreObservation[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    let line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) return;
+
+    let aimSegmentId = defaultAimSegmentId;
+    const colon = line.indexOf(":");
+    if (colon !== -1) {
+      const aimName = line.slice(0, colon).replace(/^aim\s*/i, "");
+      const aim = findSegmentByName(aimName, dartboard);
+      if (aim === undefined) {
+        throw new Error(`Line ${index + 1}: unknown aim segment "${aimName.trim()}"`);
+      }
+      aimSegmentId = aim;
+      line = line.slice(colon + 1);
+    }
+
+    for (const token of line.split(/[\s,;]+/).filter((t) => t !== "")) {
+      const segmentId = findSegmentByName(token, dartboard);
+      if (segmentId === undefined) {
+        throw new Error(`Line ${index + 1}: unknown segment "${token}"`);
+      }
+      observations.push({ aimSegmentId, segmentId });
+    }
+  });
+
+  return observations;
+}
+
+/**
+ * Fit σ (and optionally an aim bias) to scoresheet outcomes by maximising the likelihood of the
+ * observed segments, where each segment's probability comes from integrating the throw
+ * distribution around the aim point.
+ *
+ * σ is found by golden-section search on log σ; with fitBias the result seeds a Nelder–Mead search
+ * over (log σ, bias x, bias y). The interval is where the profile log-likelihood in σ, holding the
+ * bias at its estimate, is within χ²₁/2 of its maximum.
+ */
+export async function fitSkillFromScores(
+  observations: ScoreObservation[],
+  segmentProbabilities: SegmentProbabilityFn,
+  options: ScoreFitOptions = {},
+): Promise<ScoreFitResult> {
+  const {
+    dartboard = REGULATION_BOARD,
+    throwShape = ISOTROPIC_THROW_SHAPE,
+    fitBias = false,
+    resolution = 200,
+    sigmaRangeMm = { min: 2, max: 150 },
+    confidenceLevel = 0.95,
+  } = options;
+
+  if (observations.length === 0) {
+    throw new Error("Need at least one dart to fit a skill model");
+  }
+
+  // Group outcomes by aim point so each distribution is integrated once per evaluation
+  const countsByAim = new Map<number, Float64Array>();
+  for (const { aimSegmentId, segmentId } of observations) {
+    let counts = countsByAim.get(aimSegmentId);
+    if (!counts) {
+      counts = new Float64Array(SEGMENT_COUNT);
+      countsByAim.set(aimSegmentId, counts);
+    }
+    counts[segmentId]++;
+  }
+
+  const halfBoardMm = dartboard.wholeBoardDiameter / 2;
+  const logLikelihood = async (sigmaMm: number, bias: AimBias): Promise<number> => {
+    const sigmaX = mmToPixels(sigmaMm, resolution, dartboard);
+    let total = 0;
+    for (const [aimSegmentId, counts] of countsByAim) {
+      const aim = getSegmentCentreMm(aimSegmentId, dartboard);
+      const probabilities = await segmentProbabilities({
+        width: resolution,
+        height: resolution,
+        targetX: aim.x / halfBoardMm,
+        targetY: aim.y / halfBoardMm,
+        sigmaX,
+        sigmaY: sigmaX * throwShape.aspectRatio,
+        rho: throwShape.correlation,
+        biasX: mmToPixels(bias.x, resolution, dartboard),
+        biasY: mmToPixels(bias.y, resolution, dartboard),
+        dartboard,
+      });
+      for (let segmentId = 0; segmentId < SEGMENT_COUNT; segmentId++) {
+        if (counts[segmentId] > 0) {
+          total +=
+            counts[segmentId] * Math.log(Math.max(probabilities[segmentId], MIN_PROBABILITY));
+        }
+      }
+    }
+    return total;
+  };
+
+  const logMin = Math.log(sigmaRangeMm.min);
+  const logMax = Math.log(sigmaRangeMm.max);
+  let best = await goldenSectionMaximise(
+    (logSigma) => logLikelihood(Math.exp(logSigma), NO_AIM_BIAS),
+    logMin,
+    logMax,
+    1e-3,
+  );
+  let bias = NO_AIM_BIAS;
+
+  if (fitBias) {
+    const sigmaStep = 0.2;
+    const biasStepMm = 5;
+    const result = await nelderMeadMaximise(
+      ([logSigma, biasX, biasY]) =>
+        logSigma < logMin || logSigma > logMax
+          ? -Infinity
+          : logLikelihood(Math.exp(logSigma), { x: biasX, y: biasY }),
+      [best.x, 0, 0],
+      [sigmaStep, biasStepMm, biasStepMm],
+      1e-4,
+    );
+    best = { x: result.x[0], value: result.value };
+    bias = { x: result.x[1], y: result.x[2] };
+  }
+
+  const sigmaMm = Math.exp(best.x);
+  const z = criticalValue(confidenceLevel);
+  const threshold = best.value - (z * z) / 2;
+
+  // Bisect on log σ for the point where the profile log-likelihood crosses the threshold
+  const findBound = async (outside: number) => {
+    if ((await logLikelihood(Math.exp(outside), bias)) >= threshold) {
+      return Math.exp(outside);
+    }
+    let inside = best.x;
+    for (let i = 0; i < 30; i++) {
+      const mid = (inside + outside) / 2;
+      if ((await logLikelihood(Math.exp(mid), bias)) >= threshold) {
+        inside = mid;
+      } else {
+        outside = mid;
+      }
+    }
+    return Math.exp((inside + outside) / 2);
+  };
+  const lower = await findBound(logMin);
+  const upper = await findBound(logMax);
+
+  return {
+    sigma: {
+      value: sigmaMm,
+      standardError: (upper - lower) / (2 * z),
+      interval: { lower, upper },
+    },
+    bias: fitBias ? bias : null,
+    logLikelihood: best.value,
+    sampleSize: observations.length,
+    confidenceLevel,
+    throwModel: getThrowModel(sigmaMm, throwShape, bias),
+  };
+}
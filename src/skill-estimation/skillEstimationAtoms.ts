@@ -0,0 +1,27 @@
+import { atom } from "jotai";
+import { throwModelAtom } from "../shared/throwModelAtom";
+import { ScoreFitResult } from "./score-fit";
+import { SkillEstimate } from "./throw-fit";
+
+// The estimate most recently applied to the throw model, kept for its confidence intervals
+export const appliedSkillEstimateAtom = atom<SkillEstimate | null>(null);
+
+// Write a fitted estimate into the shared throw model (σx, σy, ρ and aim bias)
+export const applySkillEstimateAtom = atom(null, (_get, set, estimate: SkillEstimate) => {
+  set(throwModelAtom, estimate.throwModel);
+  set(appliedSkillEstimateAtom, estimate);
+});
+
+// The score-log fit most recently applied to the throw model
+export const appliedScoreFitAtom = atom<ScoreFitResult | null>(null);
+
+// Write a score-log fit into the shared throw model, keeping the current bias unless one was fitted
+export const applyScoreFitAtom = atom(null, (get, set, fit: ScoreFitResult) => {
+  const current = get(throwModelAtom);
+  set(throwModelAtom, {
+    ...fit.throwModel,
+    biasXMm: fit.bias ? fit.bias.x : current.biasXMm,
+    biasYMm: fit.bias ? fit.bias.y : current.biasYMm,
+  });
+  set(appliedScoreFitAtom, fit);
+});
@@ -0,0 +1,59 @@
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/** A fitted parameter with its standard error and confidence interval */
+export interface EstimatedParameter {
+  value: number;
+  standardError: number;
+  interval: ConfidenceInterval;
+}
+
+/**
+ * Inverse of the standard normal CDF, using Acklam's rational approximation
+ * (relative error below 1.2e-9 over the whole range).
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`Normal quantile is only defined for 0 < p < 1, got ${p}`);
+  }
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2,
+    -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1,
+    -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+  const pLow = 0.02425;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/** Two-sided critical value for a confidence level, e.g. 1.96 for 0.95 */
+export function criticalValue(confidenceLevel: number): number {
+  return normalQuantile(0.5 + confidenceLevel / 2);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "vitest";
+import { normalQuantile } from "./statistics";
+import { ThrowRecord, fitThrowModel, parseThrowRecords } from "./throw-fit";
+
+/** Deterministic uniform random numbers (mulberry32) */
+function makeRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Draw throws at T20 from a known correlated Gaussian using Box-Muller */
+function simulateThrows(
+  count: number,
+  truth: { biasX: number; biasY: number; sigmaX: number; sigmaY: number; rho: number },
+  seed = 1,
+): ThrowRecord[] {
+  const random = makeRandom(seed);
+  const aimed = { x: 0, y: -103 };
+  return Array.from({ length: count }, () => {
+    const r = Math.sqrt(-2 * Math.log(1 - random()));
+    const theta = 2 * Math.PI * random();
+    const z1 = r * Math.cos(theta);
+    const z2 = r * Math.sin(theta);
+    const dx = truth.sigmaX * z1;
+    const dy = truth.sigmaY * (truth.rho * z1 + Math.sqrt(1 - truth.rho * truth.rho) * z2);
+    return { aimed, landed: { x: aimed.x + truth.biasX + dx, y: aimed.y + truth.biasY + dy } };
+  });
+}
+
+describe("Skill estimation from throw coordinates", () => {
+  const truth = { biasX: -6, biasY: 9, sigmaX: 15, sigmaY: 25, rho: 0.4 };
+
+  test("recovers the generating parameters", () => {
+    const estimate = fitThrowModel(simulateThrows(5000, truth));
+    expect(estimate.biasX.value).toBeCloseTo(truth.biasX, 0);
+    expect(estimate.biasY.value).toBeCloseTo(truth.biasY, 0);
+    expect(estimate.sigmaX.value / truth.sigmaX).toBeCloseTo(1, 1);
+    expect(estimate.sigmaY.value / truth.sigmaY).toBeCloseTo(1, 1);
+    expect(estimate.correlation.value).toBeCloseTo(truth.rho, 1);
+  });
+
+  test("confidence intervals contain the truth and shrink with more data", () => {
+    const small = fitThrowModel(simulateThrows(100, truth, 7));
+    const large = fitThrowModel(simulateThrows(2000, truth, 7));
+
+    for (const estimate of [small, large]) {
+      expect(estimate.sigmaX.interval.lower).toBeLessThan(truth.sigmaX);
+      expect(estimate.sigmaX.interval.upper).toBeGreaterThan(truth.sigmaX);
+      expect(estimate.correlation.interval.lower).toBeLessThan(truth.rho);
+      expect(estimate.correlation.interval.upper).toBeGreaterThan(truth.rho);
+    }
+
+    const width = (e: typeof small) => e.biasX.interval.upper - e.biasX.interval.lower;
+    expect(width(large)).toBeLessThan(width(small));
+  });
+
+  test("produces a throw model for the shared atoms", () => {
+    const estimate = fitThrowModel(simulateThrows(500, truth));
+    expect(estimate.throwModel.sigmaXMm).toBe(estimate.sigmaX.value);
+    expect(estimate.throwModel.biasYMm).toBe(estimate.biasY.value);
+  });
+
+  test("rejects too few throws", () => {
+    expect(() => fitThrowModel(simulateThrows(2, truth))).toThrow();
+  });
+
+  test("parses pasted throw logs", () => {
+    const records = parseThrowRecords(
+      "aim_x,aim_y,x,y\n0,-103,4,-95\n\n# comment\n0 -103 -12 -110",
+    );
+    expect(records).toEqual([
+      { aimed: { x: 0, y: -103 }, landed: { x: 4, y: -95 } },
+      { aimed: { x: 0, y: -103 }, landed: { x: -12, y: -110 } },
+    ]);
+    expect(() => parseThrowRecords("1,2,3")).toThrow();
+  });
+
+  test("normal quantiles match standard values", () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 5);
+  });
+});
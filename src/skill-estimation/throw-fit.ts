@@ -0,0 +1,161 @@
+import { ThrowModel, clampCorrelation } from "../shared/throwModelAtom";
+import { EstimatedParameter, criticalValue } from "./statistics";
+
+/** A point on the board in mm from the centre; positive x is right, positive y is down */
+export interface BoardPointMm {
+  x: number;
+  y: number;
+}
+
+/** One recorded dart: where the player aimed and where it landed */
+export interface ThrowRecord {
+  aimed: BoardPointMm;
+  landed: BoardPointMm;
+}
+
+/** Maximum-likelihood bivariate Gaussian fit of a player's landing errors */
+export interface SkillEstimate {
+  /** Horizontal offset of the mean landing point from the aim point in mm */
+  biasX: EstimatedParameter;
+  /** Vertical offset of the mean landing point from the aim point in mm */
+  biasY: EstimatedParameter;
+  /** Horizontal standard deviation in mm */
+  sigmaX: EstimatedParameter;
+  /** Vertical standard deviation in mm */
+  sigmaY: EstimatedParameter;
+  correlation: EstimatedParameter;
+  /** Number of throws the fit is based on */
+  sampleSize: number;
+  confidenceLevel: number;
+  /** Point estimates, ready to write into the shared throw model */
+  throwModel: ThrowModel;
+}
+
+/** Fewest throws for which the correlation interval is defined */
+export const MIN_THROWS_FOR_FIT = 4;
+
+/**
+ * Fit a bivariate Gaussian to the landing errors (landed − aimed) by maximum likelihood.
+ *
+ * Point estimates are the sample mean and the 1/n sample covariance. Intervals use the usual
+ * large-sample approximations: normal for the bias, log-normal with Var(log σ̂) ≈ 1/(2n) for the
+ * standard deviations, and Fisher's z-transform for the correlation.
+ */
+export function fitThrowModel(
+  throws: ThrowRecord[],
+  confidenceLevel: number = 0.95,
+): SkillEstimate {
+  const n = throws.length;
+  if (n < MIN_THROWS_FOR_FIT) {
+    throw new Error(`Need at least ${MIN_THROWS_FOR_FIT} throws to fit a skill model, got ${n}`);
+  }
+
+  const errorsX = throws.map((t) => t.landed.x - t.aimed.x);
+  const errorsY = throws.map((t) => t.landed.y - t.aimed.y);
+
+  const meanX = errorsX.reduce((sum, e) => sum + e, 0) / n;
+  const meanY = errorsY.reduce((sum, e) => sum + e, 0) / n;
+
+  let varX = 0;
+  let varY = 0;
+  let covXY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = errorsX[i] - meanX;
+    const dy = errorsY[i] - meanY;
+    varX += dx * dx;
+    varY += dy * dy;
+    covXY += dx * dy;
+  }
+  varX /= n;
+  varY /= n;
+  covXY /= n;
+
+  const sigmaX = Math.sqrt(varX);
+  const sigmaY = Math.sqrt(varY);
+  if (sigmaX === 0 || sigmaY === 0) {
+    throw new Error("Cannot fit a skill model when every throw lands on the same line");
+  }
+  const rho = covXY / (sigmaX * sigmaY);
+
+  const z = criticalValue(confidenceLevel);
+
+  const meanEstimate = (value: number, sigma: number): EstimatedParameter => {
+    const standardError = sigma / Math.sqrt(n);
+    return {
+      value,
+      standardError,
+      interval: { lower: value - z * standardError, upper: value + z * standardError },
+    };
+  };
+
+  const sigmaEstimate = (value: number): EstimatedParameter => {
+    const logStandardError = 1 / Math.sqrt(2 * n);
+    return {
+      value,
+      standardError: value * logStandardError,
+      interval: {
+        lower: value * Math.exp(-z * logStandardError),
+        upper: value * Math.exp(z * logStandardError),
+      },
+    };
+  };
+
+  // Fisher's z-transform; atanh(±1) is infinite so keep a perfectly correlated sample finite
+  const fisherZ = Math.atanh(Math.max(-0.999999, Math.min(0.999999, rho)));
+  const fisherStandardError = 1 / Math.sqrt(n - 3);
+  const correlation: EstimatedParameter = {
+    value: rho,
+    standardError: (1 - rho * rho) / Math.sqrt(n),
+    interval: {
+      lower: Math.tanh(fisherZ - z * fisherStandardError),
+      upper: Math.tanh(fisherZ + z * fisherStandardError),
+    },
+  };
+
+  return {
+    biasX: meanEstimate(meanX, sigmaX),
+    biasY: meanEstimate(meanY, sigmaY),
+    sigmaX: sigmaEstimate(sigmaX),
+    sigmaY: sigmaEstimate(sigmaY),
+    correlation,
+    sampleSize: n,
+    confidenceLevel,
+    throwModel: {
+      sigmaXMm: sigmaX,
+      sigmaYMm: sigmaY,
+      correlation: clampCorrelation(rho),
+      biasXMm: meanX,
+      biasYMm: meanY,
+    },
+  };
+}
+
+/**
+ * Parse throw records from text with one dart per line: "aimX, aimY, landedX, landedY" in mm.
+ * Commas, tabs or spaces separate values; blank lines and lines starting with # are skipped, as is
+ * a header row.
+ */
+export function parseThrowRecords(text: string): ThrowRecord[] {
+  const records: ThrowRecord[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) return;
+
+    const values = line.split(/[\s,;]+/).map(Number);
+    if (values.some(Number.isNaN)) {
+      // Allow a header row such as "aim_x,aim_y,x,y"
+      if (records.length === 0 && index === lines.findIndex((l) => l.trim() !== "")) return;
+      throw new Error(`Line ${index + 1}: expected four numbers, got "${line}"`);
+    }
+    if (values.length !== 4) {
+      throw new Error(`Line ${index + 1}: expected four numbers, got ${values.length}`);
+    }
+
+    const [aimX, aimY, landedX, landedY] = values;
+    records.push({ aimed: { x: aimX, y: aimY }, landed: { x: landedX, y: landedY } });
+  });
+
+  return records;
+}
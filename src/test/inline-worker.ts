@@ -0,0 +1,60 @@
+import type { DartsComputeBackend } from "../compute/compute-backend";
+import { ComputeWorker, handleComputeRequest } from "../compute/worker-backend";
+import {
+  CricketEvaluationRequest,
+  CricketWorker,
+  handleCricketEvaluationRequest,
+} from "../game-strategy/worker-cricket";
+import {
+  CheckoutSolveRequest,
+  CheckoutWorker,
+  handleCheckoutSolveRequest,
+} from "../game-strategy/worker-solver";
+
+/** A worker that answers on the same thread, through the same messages as cpu-worker.ts */
+export function createInlineWorker(backend: DartsComputeBackend): ComputeWorker {
+  const listeners: ((event: MessageEvent) => void)[] = [];
+  return {
+    addEventListener: (type: string, listener: (event: MessageEvent) => void) => {
+      if (type === "message") listeners.push(listener);
+    },
+    postMessage: (request: Parameters<typeof handleComputeRequest>[1]) =>
+      handleComputeRequest(backend, request, (response) => {
+        for (const listener of listeners) {
+          listener({ data: response } as MessageEvent);
+        }
+      }),
+  } as unknown as ComputeWorker;
+}
+
+/** A checkout worker that answers on the same thread, like checkout-worker.ts */
+export function createInlineCheckoutWorker(): CheckoutWorker {
+  const listeners: ((event: MessageEvent) => void)[] = [];
+  return {
+    addEventListener: (type: string, listener: (event: MessageEvent) => void) => {
+      if (type === "message") listeners.push(listener);
+    },
+    postMessage: (request: CheckoutSolveRequest) =>
+      handleCheckoutSolveRequest(request, (response) => {
+        for (const listener of listeners) {
+          listener({ data: response } as MessageEvent);
+        }
+      }),
+  } as unknown as CheckoutWorker;
+}
+
+/** A Cricket worker that answers on the same thread, like cricket-worker.ts */
+export function createInlineCricketWorker(): CricketWorker {
+  const listeners: ((event: MessageEvent) => void)[] = [];
+  return {
+    addEventListener: (type: string, listener: (event: MessageEvent) => void) => {
+      if (type === "message") listeners.push(listener);
+    },
+    postMessage: (request: CricketEvaluationRequest) =>
+      handleCricketEvaluationRequest(request, (response) => {
+        for (const listener of listeners) {
+          listener({ data: response } as MessageEvent);
+        }
+      }),
+  } as unknown as CricketWorker;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DeviceManager } from "./device-manager";
+
+/** Just enough of navigator.gpu to hand out devices that can be lost on demand */
+function createFakeGpu() {
+  const devices: { device: GPUDevice; lose: (reason: GPUDeviceLostReason) => void }[] = [];
+  const gpu = {
+    requestAdapter: async () => ({
+      requestDevice: async () => {
+        let resolveLost: (info: GPUDeviceLostInfo) => void = () => {};
+        const lost = new Promise<GPUDeviceLostInfo>((resolve) => (resolveLost = resolve));
+        const device = { lost } as unknown as GPUDevice;
+        const lose = (reason: GPUDeviceLostReason) =>
+          resolveLost({ reason, message: "test" } as GPUDeviceLostInfo);
+        devices.push({ device, lose });
+        return device;
+      },
+    }),
+  } as unknown as GPU;
+  return { gpu, devices };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("DeviceManager", () => {
+  it("hands out a single device", async () => {
+    const { gpu, devices } = createFakeGpu();
+    const manager = new DeviceManager(() => gpu);
+    const [first, second] = await Promise.all([manager.getDevice(), manager.getDevice()]);
+    expect(first).toBe(second);
+    expect(await manager.getDevice()).toBe(first);
+    expect(devices).toHaveLength(1);
+  });
+
+  it("replaces a lost device and notifies subscribers", async () => {
+    const { gpu, devices } = createFakeGpu();
+    const manager = new DeviceManager(() => gpu);
+    const lostDevice = await manager.getDevice();
+    let notifications = 0;
+    manager.subscribe(() => notifications++);
+
+    devices[0].lose("unknown");
+    await settle();
+
+    expect(notifications).toBe(1);
+    expect(manager.getGeneration()).toBe(1);
+    expect(devices).toHaveLength(2);
+    expect(manager.isCurrent(lostDevice!)).toBe(false);
+    expect(await manager.getDevice()).toBe(devices[1].device);
+  });
+
+  it("doesn't treat a deliberate destroy as a loss", async () => {
+    const { gpu, devices } = createFakeGpu();
+    const manager = new DeviceManager(() => gpu);
+    await manager.getDevice();
+    let notifications = 0;
+    const unsubscribe = manager.subscribe(() => notifications++);
+
+    devices[0].lose("destroyed");
+    await settle();
+    expect(notifications).toBe(0);
+    expect(manager.getGeneration()).toBe(0);
+
+    // The next caller gets a fresh device, and unsubscribed listeners hear nothing
+    unsubscribe();
+    expect(await manager.getDevice()).toBe(devices[1].device);
+    devices[1].lose("unknown");
+    await settle();
+    expect(notifications).toBe(0);
+  });
+
+  it("resolves to undefined without WebGPU", async () => {
+    const manager = new DeviceManager(() => undefined);
+    expect(await manager.getDevice()).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { getResourceCache } from "./resource-cache";
+
+/**
+ * Hands out one GPUDevice shared by every tab and store. When the device is lost, its cached
+ * pipelines and buffers are dropped, a new device is requested, and subscribers are told so they
+ * can recompute rather than keep showing results from the old device.
+ */
+export class DeviceManager {
+  private device: GPUDevice | null = null;
+  private pendingDevice: Promise<GPUDevice | undefined> | null = null;
+  private generation = 0;
+  private readonly listeners = new Set<() => void>();
+
+  /**
+   * @param getGpu - Where to find the WebGPU entry point; navigator.gpu outside of tests
+   */
+  constructor(private readonly getGpu: () => GPU | undefined = () => navigator.gpu) {}
+
+  /**
+   * The shared device, requested on first use. Resolves to undefined when WebGPU isn't
+   * available.
+   */
+  async getDevice(): Promise<GPUDevice | undefined> {
+    if (this.device) return this.device;
+    if (!this.pendingDevice) {
+      this.pendingDevice = this.requestDevice().finally(() => {
+        this.pendingDevice = null;
+      });
+    }
+    return this.pendingDevice;
+  }
+
+  /** Whether a device is still the one being handed out, i.e. hasn't been lost */
+  isCurrent(device: GPUDevice): boolean {
+    return device === this.device;
+  }
+
+  /** Number of devices lost so far; resources from an earlier generation are unusable */
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * Call the listener whenever a lost device has been replaced.
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async requestDevice(): Promise<GPUDevice | undefined> {
+    const adapter = await this.getGpu()?.requestAdapter();
+    const device = await adapter?.requestDevice();
+    if (!device) return undefined;
+
+    this.device = device;
+    device.lost.then((info) => this.handleDeviceLost(device, info));
+    return device;
+  }
+
+  private handleDeviceLost(device: GPUDevice, info: GPUDeviceLostInfo): void {
+    if (device !== this.device) return;
+    this.device = null;
+    getResourceCache(device).clear();
+
+    // A deliberate destroy() isn't a failure, and the next getDevice() call replaces it
+    if (info.reason === "destroyed") return;
+
+    console.warn("WebGPU device lost, requesting a new one:", info.message);
+    this.generation++;
+    this.getDevice()
+      .catch((error) => console.error("Failed to replace the lost WebGPU device:", error))
+      .finally(() => {
+        for (const listener of this.listeners) {
+          listener();
+        }
+      });
+  }
+}
+
+export const deviceManager = new DeviceManager();
@@ -0,0 +1,26 @@
+// Diverging colour map for signed values, based on ColorBrewer's RdBu reversed so that
+// positive values are red, negative values are blue and zero is near-white
+
+const divergingData = [
+  [0.019608, 0.188235, 0.380392],
+  [0.129412, 0.4, 0.67451],
+  [0.262745, 0.576471, 0.764706],
+  [0.572549, 0.772549, 0.870588],
+  [0.968627, 0.968627, 0.968627],
+  [0.956863, 0.647059, 0.509804],
+  [0.839216, 0.376471, 0.301961],
+  [0.698039, 0.094118, 0.168627],
+  [0.403922, 0.0, 0.121569],
+];
+
+/** Colour for a value from -1 (blue) through 0 (white) to 1 (red), clamped to that range */
+export function getDivergingColor(value: number): { r: number; g: number; b: number } {
+  const t = ((Math.max(-1, Math.min(1, value)) + 1) / 2) * (divergingData.length - 1);
+  const index = Math.min(Math.floor(t), divergingData.length - 2);
+  const fraction = t - index;
+
+  const [low, high] = [divergingData[index], divergingData[index + 1]];
+  const channel = (i: number) => Math.floor((low[i] + (high[i] - low[i]) * fraction) * 255);
+
+  return { r: channel(0), g: channel(1), b: channel(2) };
+}
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import expectedBlurShader from "../expected-score/expected-blur.wgsl?raw";
+import expectedFftShader from "../expected-score/expected-fft.wgsl?raw";
+import { cleanupWebGPU, initWebGPU } from "../test/webgpu-setup";
+import { GpuResourceCache } from "./resource-cache";
+
+describe("GpuResourceCache", () => {
+  let device: GPUDevice;
+
+  beforeAll(async () => {
+    const result = await initWebGPU();
+    device = result.device;
+  });
+
+  afterAll(async () => {
+    await cleanupWebGPU();
+  });
+
+  const storage = (size: number) => ({ size, usage: GPUBufferUsage.STORAGE });
+
+  it("reuses pipelines and buffers", () => {
+    const cache = new GpuResourceCache(device);
+    const pipeline = cache.getPipeline(expectedBlurShader, "blurRows");
+    expect(cache.getPipeline(expectedBlurShader, "blurRows")).toBe(pipeline);
+    expect(cache.getPipeline(expectedBlurShader, "blurColumns")).not.toBe(pipeline);
+
+    const scope = cache.scope(expectedBlurShader, 64);
+    const buffer = scope.getBuffer("row sums", storage(256));
+    expect(cache.scope(expectedBlurShader, 64).getBuffer("row sums", storage(256))).toBe(buffer);
+    expect(cache.scope(expectedBlurShader, 32).getBuffer("row sums", storage(256))).not.toBe(
+      buffer,
+    );
+    cache.clear();
+  });
+
+  it("replaces a buffer when its size or contents change", () => {
+    const cache = new GpuResourceCache(device);
+    const scope = cache.scope(expectedBlurShader, 64);
+    let writes = 0;
+    const initialise = () => writes++;
+
+    const first = scope.getBuffer("dartboard", storage(256), initialise, "regulation");
+    expect(scope.getBuffer("dartboard", storage(256), initialise, "regulation")).toBe(first);
+    const second = scope.getBuffer("dartboard", storage(256), initialise, "quadro");
+    expect(second).not.toBe(first);
+    expect(scope.getBuffer("dartboard", storage(512), initialise, "quadro")).not.toBe(second);
+    expect(writes).toBe(3);
+    expect(cache.getBufferBytes()).toBe(512);
+    cache.clear();
+  });
+
+  it("keeps buffers only for the most recently used scopes", () => {
+    const cache = new GpuResourceCache(device, 2);
+    cache.scope(expectedBlurShader, 16).getBuffer("grid", storage(256));
+    cache.scope(expectedFftShader, 16).getBuffer("grid", storage(256));
+    cache.scope(expectedBlurShader, 16);
+    cache.scope(expectedBlurShader, 32).getBuffer("grid", storage(256));
+    expect(cache.getBufferBytes()).toBe(512);
+
+    // The FFT scope was least recently used, so its buffer went and the blur one survived
+    const survivor = cache.scope(expectedBlurShader, 16).getBuffer("grid", storage(256));
+    expect(cache.getBufferBytes()).toBe(512);
+    expect(cache.scope(expectedBlurShader, 16).getBuffer("grid", storage(256))).toBe(survivor);
+
+    cache.releaseBuffers();
+    expect(cache.getBufferBytes()).toBe(0);
+    cache.clear();
+  });
+
+  it("releases only idle scopes of the given size", async () => {
+    const cache = new GpuResourceCache(device, 1);
+    const held = cache.scope(expectedBlurShader, 16);
+    const heldBuffer = held.getBuffer("grid", storage(256));
+    let finish = () => {};
+    const run = held.hold(new Promise<void>((resolve) => (finish = resolve)));
+
+    // Neither the LRU nor a release takes a scope that a run is waiting on
+    cache.scope(expectedFftShader, 16).getBuffer("grid", storage(256));
+    cache.scope(expectedBlurShader, 32).getBuffer("grid", storage(256));
+    cache.releaseBuffers(16);
+    expect(cache.getBufferBytes()).toBe(512);
+    expect(held.getBuffer("grid", storage(256))).toBe(heldBuffer);
+
+    finish();
+    await run;
+    cache.releaseBuffers(16);
+    expect(cache.getBufferBytes()).toBe(256);
+    cache.releaseBuffers();
+    expect(cache.getBufferBytes()).toBe(0);
+    cache.clear();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Pipelines and buffers reused across compute runs on one device. Pipelines are cached by shader
+ * source and entry point for the life of the cache. Buffers live in scopes keyed by shader source
+ * and canvas size; only the most recently used scopes are kept, so switching between a few sizes
+ * is cheap while memory stays bounded over a long session. A scope held by a run in progress is
+ * never destroyed, except by clear.
+ */
+export class GpuResourceCache {
+  private readonly modules = new Map<string, GPUShaderModule>();
+  private readonly pipelines = new Map<string, GPUComputePipeline>();
+  // Insertion order is use order: the first scope is the least recently used
+  private readonly scopes = new Map<string, GpuResourceScope>();
+
+  /**
+   * @param device - The device every resource is created on
+   * @param maxScopes - Number of shader source and canvas size combinations to keep buffers for
+   */
+  constructor(
+    private readonly device: GPUDevice,
+    private readonly maxScopes: number = 4,
+  ) {}
+
+  /**
+   * A compute pipeline for an entry point of a shader, created on first use.
+   */
+  getPipeline(code: string, entryPoint: string, label?: string): GPUComputePipeline {
+    const key = `${entryPoint}\n${code}`;
+    let pipeline = this.pipelines.get(key);
+    if (!pipeline) {
+      let module = this.modules.get(code);
+      if (!module) {
+        module = this.device.createShaderModule({ label, code });
+        this.modules.set(code, module);
+      }
+      pipeline = this.device.createComputePipeline({
+        label: label && `${label} ${entryPoint} pipeline`,
+        layout: "auto",
+        compute: { module, entryPoint },
+      });
+      this.pipelines.set(key, pipeline);
+    }
+    return pipeline;
+  }
+
+  /**
+   * Buffers for one shader at one canvas size. Using a scope makes it the most recently used,
+   * and the least recently used scopes beyond maxScopes that aren't held have their buffers
+   * destroyed.
+   */
+  scope(code: string, width: number, label?: string): GpuResourceScope {
+    const key = `${width}\n${code}`;
+    let scope = this.scopes.get(key);
+    if (scope) {
+      this.scopes.delete(key);
+    } else {
+      scope = new GpuResourceScope(this, this.device, code, width, label);
+    }
+    this.scopes.set(key, scope);
+
+    for (const [staleKey, stale] of this.scopes) {
+      if (this.scopes.size <= this.maxScopes) break;
+      if (stale === scope || stale.isHeld()) continue;
+      stale.destroy();
+      this.scopes.delete(staleKey);
+    }
+    return scope;
+  }
+
+  /** Total size of the cached buffers in bytes */
+  getBufferBytes(): number {
+    let total = 0;
+    for (const scope of this.scopes.values()) {
+      total += scope.getBufferBytes();
+    }
+    return total;
+  }
+
+  /**
+   * Destroy the cached buffers of every scope that isn't held, keeping the pipelines. Buffers are
+   * created again as they are asked for.
+   *
+   * @param width - Only release the scopes for this canvas size
+   */
+  releaseBuffers(width?: number): void {
+    for (const [key, scope] of this.scopes) {
+      if (scope.isHeld() || (width !== undefined && scope.width !== width)) continue;
+      scope.destroy();
+      this.scopes.delete(key);
+    }
+  }
+
+  /**
+   * Destroy every cached buffer, held or not, and forget every pipeline. For when the device is
+   * gone; the cache can still be used afterwards, and recreates resources as they are asked for.
+   */
+  clear(): void {
+    for (const scope of this.scopes.values()) {
+      scope.destroy();
+    }
+    this.scopes.clear();
+    this.pipelines.clear();
+    this.modules.clear();
+  }
+}
+
+interface CachedBuffer {
+  buffer: GPUBuffer;
+  version: string | undefined;
+}
+
+/**
+ * Buffers shared by the runs of one shader at one canvas size. Runs sharing a scope share its
+ * buffers, so they mustn't overlap.
+ */
+export class GpuResourceScope {
+  private readonly buffers = new Map<string, CachedBuffer>();
+  // Runs waiting on the GPU with this scope's buffers
+  private holds = 0;
+
+  constructor(
+    private readonly cache: GpuResourceCache,
+    private readonly device: GPUDevice,
+    private readonly code: string,
+    readonly width: number,
+    private readonly label?: string,
+  ) {}
+
+  /**
+   * Keep the buffers from being released until work that uses them settles, such as mapping a
+   * read buffer.
+   */
+  async hold<T>(work: Promise<T>): Promise<T> {
+    this.holds++;
+    try {
+      return await work;
+    } finally {
+      this.holds--;
+    }
+  }
+
+  isHeld(): boolean {
+    return this.holds > 0;
+  }
+
+  /** A pipeline for one of this scope's shader entry points */
+  getPipeline(entryPoint: string): GPUComputePipeline {
+    return this.cache.getPipeline(this.code, entryPoint, this.label);
+  }
+
+  /**
+   * A buffer by name, created on first use. A buffer whose size or usage no longer matches the
+   * descriptor, or whose contents are a different version, is destroyed and created again, so
+   * each name holds at most one buffer.
+   *
+   * @param initialise - Writes the contents when the buffer is created
+   * @param version - Identifies the contents written by initialise
+   */
+  getBuffer(
+    name: string,
+    descriptor: GPUBufferDescriptor,
+    initialise?: (buffer: GPUBuffer) => void,
+    version?: string,
+  ): GPUBuffer {
+    const cached = this.buffers.get(name);
+    if (
+      cached &&
+      cached.buffer.size === descriptor.size &&
+      cached.buffer.usage === descriptor.usage &&
+      cached.version === version
+    ) {
+      return cached.buffer;
+    }
+
+    cached?.buffer.destroy();
+    const buffer = this.device.createBuffer({ label: name, ...descriptor });
+    initialise?.(buffer);
+    this.buffers.set(name, { buffer, version });
+    return buffer;
+  }
+
+  getBufferBytes(): number {
+    let total = 0;
+    for (const { buffer } of this.buffers.values()) {
+      total += buffer.size;
+    }
+    return total;
+  }
+
+  destroy(): void {
+    for (const { buffer } of this.buffers.values()) {
+      buffer.destroy();
+    }
+    this.buffers.clear();
+  }
+}
+
+const caches = new WeakMap<GPUDevice, GpuResourceCache>();
+
+/** The resource cache shared by everything computing on the given device */
+export function getResourceCache(device: GPUDevice): GpuResourceCache {
+  let cache = caches.get(device);
+  if (!cache) {
+    cache = new GpuResourceCache(device);
+    caches.set(device, cache);
+  }
+  return cache;
+}
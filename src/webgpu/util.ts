@@ -1,12 +1,14 @@
+import { deviceManager } from "./device-manager";
+
 export function fail(msg: string) {
   console.error(msg);
 }
 
 export const width = 1000;
 
+/** The device shared by every tab, see DeviceManager */
 export async function getDevice() {
-  const adapter = await navigator.gpu?.requestAdapter();
-  const device = await adapter?.requestDevice();
+  const device = await deviceManager.getDevice();
   if (!device) {
     fail("need a browser that supports WebGPU");
     return;